@@ -1,4 +1,4 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, RoleScope } from '@prisma/client';
 import * as bcrypt from 'bcrypt';
 
 const prisma = new PrismaClient();
@@ -20,6 +20,10 @@ async function main() {
         'REPORT_CLASSIFY',
         'REPORT_ASSIGN',
         'CASE_CLOSE',
+        'CASE_REOPEN',
+        'REPORT_READ_ALL',
+        'REPORTER_IDENTITY_VIEW',
+        'REPORT_URGENT_ALERT',
         'DOC_UPLOAD_FICHE_INITIAL',
         'DOC_UPLOAD_DPE',
         'DOC_UPLOAD_EVALUATION',
@@ -29,6 +33,7 @@ async function main() {
         'DOC_UPLOAD_CLOTURE',
         'DOC_READ',
         'DOC_DELETE',
+        'DOC_APPROVE',
         'USER_READ',
         'USER_CREATE',
         'USER_UPDATE',
@@ -44,11 +49,18 @@ async function main() {
         'VILLAGE_DELETE',
         'AUDIT_READ',
         'STATS_VIEW',
+        'SLA_MANAGE',
+        'PROCEDURE_MANAGE',
+        'DOC_TYPE_MANAGE',
+        'SLA_ESCALATION',
+        'SLA_ESCALATION_FINAL', // Last level of missed deadline escalation
       ],
     },
     {
       name: 'Mère SOS',
       description: 'SOS Mother - can create reports and view basic information',
+      scope: RoleScope.VILLAGE,
+      selfSignUp: true, // Offered on the public sign-up form
       permissions: [
         'REPORT_CREATE', // Create incident reports
         'REPORT_READ', // View reports they created
@@ -57,9 +69,13 @@ async function main() {
     {
       name: 'Psychologue',
       description: 'Psychologist - can handle DPE and evaluations',
+      scope: RoleScope.VILLAGE,
+      selfSignUp: true, // Offered on the public sign-up form
       permissions: [
         'REPORT_READ',
+        'REPORT_READ_ALL',
         'REPORT_UPDATE',
+        'REPORT_ASSIGNABLE', // Can be assigned as analyst
         'REPORT_CLASSIFY', // Can mark as false/closed
         'DOC_UPLOAD_DPE', // Upload DPE report
         'DOC_UPLOAD_EVALUATION',
@@ -70,9 +86,13 @@ async function main() {
     {
       name: 'Assistant Social',
       description: 'Social Worker - can create action plans and follow-ups',
+      scope: RoleScope.VILLAGE,
+      selfSignUp: true, // Offered on the public sign-up form
       permissions: [
         'REPORT_READ',
+        'REPORT_READ_ALL',
         'REPORT_UPDATE',
+        'REPORT_ASSIGNABLE',
         'DOC_UPLOAD_PLAN_ACTION',
         'DOC_UPLOAD_SUIVI',
         'DOC_READ',
@@ -82,16 +102,23 @@ async function main() {
     {
       name: 'Directeur',
       description: 'Director - full report management and oversight',
+      scope: RoleScope.VILLAGE,
       permissions: [
         'REPORT_READ',
+        'REPORT_READ_ALL',
         'REPORT_UPDATE',
         'REPORT_ASSIGN',
+        'REPORT_ASSIGNABLE',
         'REPORT_CLASSIFY',
+        'REPORTER_IDENTITY_VIEW', // Sees who filed anonymous reports
+        'REPORT_URGENT_ALERT', // Alerted about urgent reports
+        'SLA_ESCALATION', // Alerted when an analyst misses a deadline
         'CASE_CLOSE', // Close and archive with formal decision
         'DOC_UPLOAD_RAPPORT_FINAL',
         'DOC_UPLOAD_CLOTURE',
         'DOC_READ',
         'DOC_DELETE',
+        'DOC_APPROVE', // Signs off the DPE and the Plan d'action
         'USER_READ',
         'AUDIT_READ',
         'STATS_VIEW',
@@ -102,7 +129,9 @@ async function main() {
       description: 'National Bureau - oversight and formal closure decisions',
       permissions: [
         'REPORT_READ',
+        'REPORT_READ_ALL',
         'CASE_CLOSE', // Formal closure and archival
+        'CASE_REOPEN', // Approve reopening requested by a Directeur
         'DOC_READ',
         'USER_READ',
         'AUDIT_READ',
@@ -118,7 +147,37 @@ async function main() {
     });
 
     if (existingRole) {
-      console.log(`✓ Role "${roleData.name}" already exists`);
+      // Roles seeded by an earlier version get the permissions added since
+      // (access policies, document approval, reopening, SLA, admin catalogs)
+      // and their village scope and sign-up flag. Re-running the seed
+      // restores them if they were changed.
+      const missing = roleData.permissions.filter(
+        (p) => !existingRole.permissions.includes(p),
+      );
+      const scope = roleData.scope ?? RoleScope.NATIONAL;
+      const selfSignUp = roleData.selfSignUp ?? false;
+      const changes = [
+        ...(missing.length > 0 ? [`granted ${missing.join(', ')}`] : []),
+        ...(existingRole.scope !== scope ? [`scope ${scope}`] : []),
+        ...(existingRole.selfSignUp !== selfSignUp
+          ? [`selfSignUp ${selfSignUp}`]
+          : []),
+      ];
+      if (changes.length > 0) {
+        await prisma.role.update({
+          where: { id: existingRole.id },
+          data: {
+            permissions: [...existingRole.permissions, ...missing],
+            scope,
+            selfSignUp,
+          },
+        });
+      }
+      console.log(
+        changes.length > 0
+          ? `✓ Role "${roleData.name}" ${changes.join('; ')}`
+          : `✓ Role "${roleData.name}" already exists`,
+      );
       continue;
     }
 
@@ -1,7 +1,5 @@
 import { Module } from '@nestjs/common';
-import { APP_GUARD } from '@nestjs/core';
-import { ServeStaticModule } from '@nestjs/serve-static';
-import { join } from 'path';
+import { APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { PrismaModule } from './prisma/prisma.module';
@@ -13,15 +11,19 @@ import { VillageModule } from './village/village.module';
 import { DocumentModule } from './document/document.module';
 import { NotificationModule } from './notification/notification.module';
 import { DashboardModule } from './dashboard/dashboard.module';
+import { AuditLogModule } from './audit-log/audit-log.module';
+import { MailModule } from './mail/mail.module';
+import { SlaModule } from './sla/sla.module';
+import { ProcedureTemplateModule } from './procedure-template/procedure-template.module';
+import { DocumentTypeModule } from './document-type/document-type.module';
+import { FileModule } from './file/file.module';
 import { JwtAuthGuard } from './auth/guards/jwt-auth.guard';
+import { AuditInterceptor } from './audit-log/interceptors/audit.interceptor';
 
 @Module({
   imports: [
-    ServeStaticModule.forRoot({
-      rootPath: join(__dirname, '..', 'uploads'),
-      serveRoot: '/uploads',
-    }),
     PrismaModule,
+    MailModule,
     AuthModule,
     UserModule,
     RoleModule,
@@ -30,6 +32,11 @@ import { JwtAuthGuard } from './auth/guards/jwt-auth.guard';
     DocumentModule,
     NotificationModule,
     DashboardModule,
+    AuditLogModule,
+    SlaModule,
+    ProcedureTemplateModule,
+    DocumentTypeModule,
+    FileModule,
   ],
   controllers: [AppController],
   providers: [
@@ -38,6 +45,10 @@ import { JwtAuthGuard } from './auth/guards/jwt-auth.guard';
       provide: APP_GUARD,
       useClass: JwtAuthGuard,
     },
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: AuditInterceptor,
+    },
   ],
 })
 export class AppModule {}
@@ -0,0 +1,152 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  sign,
+  verify,
+  KeyObject,
+} from 'crypto';
+import { AuditCheckpoint } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+/** Bytes covered by a checkpoint signature */
+function checkpointPayload(
+  checkpoint: Pick<AuditCheckpoint, 'sequence' | 'hash' | 'createdAt'>,
+): Buffer {
+  return Buffer.from(
+    `${checkpoint.sequence}:${checkpoint.hash}:${checkpoint.createdAt.toISOString()}`,
+  );
+}
+
+/**
+ * Periodic Ed25519-signed checkpoints of the audit chain head.
+ * An external auditor who pinned the public key can prove that the chain
+ * up to a checkpoint was neither rewritten nor truncated afterwards.
+ *
+ * Key: AUDIT_SIGNING_PRIVATE_KEY (Ed25519 private key, PEM). Without it an
+ * ephemeral key is generated at startup and earlier checkpoints can no
+ * longer be verified after a restart.
+ */
+@Injectable()
+export class AuditCheckpointService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(AuditCheckpointService.name);
+  private readonly privateKey: KeyObject;
+  private readonly publicKey: KeyObject;
+  readonly keyId: string;
+  private timer?: NodeJS.Timeout;
+
+  constructor(private prisma: PrismaService) {
+    const pem = process.env.AUDIT_SIGNING_PRIVATE_KEY?.replace(/\\n/g, '\n');
+    if (pem) {
+      this.privateKey = createPrivateKey(pem);
+      this.publicKey = createPublicKey(this.privateKey);
+    } else {
+      this.logger.warn(
+        'AUDIT_SIGNING_PRIVATE_KEY not set: using an ephemeral key. Audit checkpoints will not be verifiable after a restart.',
+      );
+      ({ privateKey: this.privateKey, publicKey: this.publicKey } =
+        generateKeyPairSync('ed25519'));
+    }
+    this.keyId = createHash('sha256')
+      .update(this.publicKey.export({ type: 'spki', format: 'der' }))
+      .digest('hex');
+  }
+
+  onModuleInit() {
+    const minutes =
+      Number(process.env.AUDIT_CHECKPOINT_INTERVAL_MINUTES) ||
+      DEFAULT_INTERVAL_MINUTES;
+    this.timer = setInterval(
+      () => {
+        this.createCheckpoint().catch((error: Error) =>
+          this.logger.error(`Audit checkpoint failed: ${error.message}`),
+        );
+      },
+      minutes * 60 * 1000,
+    );
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  /** PEM public key auditors should pin to verify checkpoints independently */
+  getPublicKey() {
+    return {
+      keyId: this.keyId,
+      algorithm: 'Ed25519',
+      publicKey: this.publicKey.export({ type: 'spki', format: 'pem' }),
+    };
+  }
+
+  /** Sign the current chain head. No-op when nothing was logged since the last checkpoint. */
+  async createCheckpoint() {
+    const head = await this.prisma.auditLog.findFirst({
+      where: { sequence: { not: null } },
+      orderBy: { sequence: 'desc' },
+      select: { sequence: true, hash: true },
+    });
+    if (!head?.sequence || !head.hash) {
+      return null;
+    }
+
+    const last = await this.prisma.auditCheckpoint.findFirst({
+      orderBy: { sequence: 'desc' },
+    });
+    if (last && last.sequence >= head.sequence) {
+      return null;
+    }
+
+    const createdAt = new Date();
+    const signature = sign(
+      null,
+      checkpointPayload({
+        sequence: head.sequence,
+        hash: head.hash,
+        createdAt,
+      }),
+      this.privateKey,
+    ).toString('base64');
+
+    return this.prisma.auditCheckpoint.create({
+      data: {
+        sequence: head.sequence,
+        hash: head.hash,
+        signature,
+        keyId: this.keyId,
+        createdAt,
+      },
+    });
+  }
+
+  async findAll() {
+    return this.prisma.auditCheckpoint.findMany({
+      orderBy: { sequence: 'desc' },
+    });
+  }
+
+  /**
+   * Check a checkpoint signature with the configured key.
+   * Returns null when it was signed by another key (e.g. before a key rotation).
+   */
+  verifySignature(checkpoint: AuditCheckpoint): boolean | null {
+    if (checkpoint.keyId !== this.keyId) {
+      return null;
+    }
+    return verify(
+      null,
+      checkpointPayload(checkpoint),
+      this.publicKey,
+      Buffer.from(checkpoint.signature, 'base64'),
+    );
+  }
+}
@@ -0,0 +1,148 @@
+import {
+  Controller,
+  Get,
+  Query,
+  UseGuards,
+  StreamableFile,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { AuditLogService } from './audit-log.service';
+import { AuditCheckpointService } from './audit-checkpoint.service';
+import {
+  AuditLogQueryDto,
+  AuditLogExportDto,
+} from './dto/audit-log-filters.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { Permissions } from '../auth/decorators/permissions.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { JwtPayload } from '../auth/dto/jwt-payload.dto';
+
+@ApiTags('audit-logs')
+@ApiBearerAuth('JWT-auth')
+@Controller('audit-logs')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+export class AuditLogController {
+  constructor(
+    private readonly auditLogService: AuditLogService,
+    private readonly checkpointService: AuditCheckpointService,
+  ) {}
+
+  @Get()
+  @Permissions('AUDIT_READ')
+  @ApiOperation({
+    summary: 'List audit log entries',
+    description:
+      'Audit trail, newest first. Filter by user, action, report, village (of the related report), target entity (user, role, village) and date range. Pass nextCursor as cursor to get the next page.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Page of audit entries',
+    schema: {
+      example: {
+        data: [
+          {
+            id: '6990a2530ea1533dee111234',
+            action: 'REPORT_ARCHIVED',
+            details: 'Case closed and archived. Decision: Prise en charge',
+            userId: '6990a2530ea1533dee1111e1',
+            reportId: '6990a2530ea1533dee1111f0',
+            timestamp: '2026-02-15T10:30:00.000Z',
+            user: {
+              firstName: 'Amira',
+              lastName: 'Ben Ali',
+              role: { name: 'Directeur Village' },
+            },
+            report: {
+              id: '6990a2530ea1533dee1111f0',
+              villageId: '6990a2530ea1533dee1111d1',
+            },
+          },
+        ],
+        nextCursor: '6990a2530ea1533dee111234',
+      },
+    },
+  })
+  @ApiResponse({ status: 403, description: 'Missing AUDIT_READ permission' })
+  findAll(@Query() query: AuditLogQueryDto) {
+    return this.auditLogService.findAll(query);
+  }
+
+  @Get('export')
+  @Permissions('AUDIT_READ')
+  @ApiOperation({
+    summary: 'Export audit log (CSV or JSON)',
+    description:
+      'Download every entry matching the filters as a file for inspectors. The export itself is recorded in the audit log.',
+  })
+  @ApiResponse({ status: 200, description: 'Audit log file' })
+  @ApiResponse({ status: 403, description: 'Missing AUDIT_READ permission' })
+  async export(
+    @Query() query: AuditLogExportDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    const format = query.format ?? 'csv';
+    const content = await this.auditLogService.export(query, format, user.sub);
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new StreamableFile(Buffer.from(content, 'utf-8'), {
+      type: format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json',
+      disposition: `attachment; filename="audit-log-${date}.${format}"`,
+    });
+  }
+
+  @Get('verify')
+  @Permissions('AUDIT_READ')
+  @ApiOperation({
+    summary: 'Verify audit chain integrity',
+    description:
+      'Walk the hash chain from the first entry and report the first broken link (edited, deleted or inserted entry), then check signed checkpoints against the chain.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Verification result',
+    schema: {
+      example: {
+        valid: false,
+        checkedEntries: 41,
+        lastSequence: 41,
+        firstBrokenLink: {
+          reason: 'HASH_MISMATCH',
+          sequence: 42,
+          entryId: '6990a2530ea1533dee111234',
+        },
+        checkpoints: {
+          total: 3,
+          verified: 3,
+          unverifiable: 0,
+          keyId: '9f2c…',
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 403, description: 'Missing AUDIT_READ permission' })
+  verify() {
+    return this.auditLogService.verify();
+  }
+
+  @Get('checkpoints')
+  @Permissions('AUDIT_READ')
+  @ApiOperation({
+    summary: 'List signed audit checkpoints',
+    description:
+      'Periodic Ed25519 signatures of the chain head, with the public key to pin for independent verification. Each signature covers "sequence:hash:createdAt".',
+  })
+  @ApiResponse({ status: 200, description: 'Signing key and checkpoints' })
+  @ApiResponse({ status: 403, description: 'Missing AUDIT_READ permission' })
+  async findCheckpoints() {
+    return {
+      ...this.checkpointService.getPublicKey(),
+      checkpoints: await this.checkpointService.findAll(),
+    };
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { AuditLogService } from './audit-log.service';
+import { AuditLogController } from './audit-log.controller';
+import { AuditCheckpointService } from './audit-checkpoint.service';
+
+@Module({
+  controllers: [AuditLogController],
+  providers: [AuditLogService, AuditCheckpointService],
+  exports: [AuditLogService],
+})
+export class AuditLogModule {}
@@ -0,0 +1,165 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AuditLog } from '@prisma/client';
+import { AuditLogService } from './audit-log.service';
+import { AuditCheckpointService } from './audit-checkpoint.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('AuditLogService', () => {
+  let service: AuditLogService;
+  let entries: AuditLog[];
+
+  const chained = () =>
+    entries
+      .filter((e) => e.sequence !== null)
+      .sort((a, b) => (a.sequence as number) - (b.sequence as number));
+
+  const unsealed = () => entries.filter((e) => e.sequence === null);
+  const insertedDirectly = (id: string): AuditLog => ({
+    id,
+    action: 'REPORT_DELETED',
+    details: 'Inserted in the database',
+    userId: null,
+    reportId: 'r1',
+    targetType: null,
+    targetId: null,
+    timestamp: new Date(),
+    sequence: null,
+    hash: null,
+    previousHash: null,
+  });
+
+  const prisma = {
+    auditLog: {
+      create: jest.fn(({ data }: { data: Omit<AuditLog, 'id'> }) => {
+        const entry = { id: `log${entries.length + 1}`, ...data };
+        entries.push(entry);
+        return entry;
+      }),
+      findFirst: jest.fn(({ where }: { where: object }) =>
+        'OR' in where ? (unsealed()[0] ?? null) : (chained().pop() ?? null),
+      ),
+      findMany: jest.fn(({ where }: { where: object }) =>
+        'OR' in where ? unsealed() : chained(),
+      ),
+      count: jest.fn(() => unsealed().length),
+      update: jest.fn(
+        ({ where, data }: { where: { id: string }; data: object }) =>
+          Object.assign(entries.find((e) => e.id === where.id)!, data),
+      ),
+    },
+    auditCheckpoint: { findMany: jest.fn(() => []) },
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    entries = [];
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditLogService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: AuditCheckpointService,
+          useValue: { keyId: 'test', verifySignature: () => true },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AuditLogService>(AuditLogService);
+
+    for (const action of [
+      'REPORT_CREATED',
+      'REPORT_ASSIGNED',
+      'REPORT_ARCHIVED',
+    ]) {
+      await service.log({
+        action,
+        details: action,
+        userId: 'u1',
+        reportId: 'r1',
+      });
+    }
+  });
+
+  it('links each entry to the previous one', async () => {
+    expect(entries.map((e) => e.sequence)).toEqual([1, 2, 3]);
+    expect(entries[1].previousHash).toBe(entries[0].hash);
+    expect(entries[2].previousHash).toBe(entries[1].hash);
+
+    await expect(service.verify()).resolves.toMatchObject({
+      valid: true,
+      checkedEntries: 3,
+      firstBrokenLink: null,
+    });
+  });
+
+  it('detects an edited entry', async () => {
+    entries[1].details = 'Rewritten';
+
+    await expect(service.verify()).resolves.toMatchObject({
+      valid: false,
+      checkedEntries: 1,
+      firstBrokenLink: { reason: 'HASH_MISMATCH', sequence: 2 },
+    });
+  });
+
+  it('detects a deleted entry', async () => {
+    entries.splice(1, 1);
+
+    await expect(service.verify()).resolves.toMatchObject({
+      valid: false,
+      firstBrokenLink: { reason: 'SEQUENCE_GAP', sequence: 3 },
+    });
+  });
+
+  it('detects two entries at the same position', async () => {
+    entries.push({ ...entries[2], id: 'log4', details: 'Other instance' });
+
+    await expect(service.verify()).resolves.toMatchObject({
+      valid: false,
+      checkedEntries: 3,
+      firstBrokenLink: {
+        reason: 'DUPLICATE_SEQUENCE',
+        sequence: 3,
+        entryId: 'log4',
+      },
+    });
+  });
+
+  it('leaves entries written outside the chain unsealed on restart', async () => {
+    entries.push(insertedDirectly('forged'));
+
+    await service.onModuleInit();
+
+    expect(prisma.auditLog.update).not.toHaveBeenCalled();
+    await expect(service.verify()).resolves.toMatchObject({
+      valid: false,
+      firstBrokenLink: { reason: 'UNSEALED_ENTRY', entryId: 'forged' },
+    });
+  });
+
+  it('seals entries written before the chain existed once', async () => {
+    entries = [insertedDirectly('legacy1'), insertedDirectly('legacy2')];
+
+    await service.onModuleInit();
+
+    expect(entries.map((e) => e.sequence)).toEqual([1, 2]);
+    expect(entries[1].previousHash).toBe(entries[0].hash);
+    await expect(service.verify()).resolves.toMatchObject({ valid: true });
+  });
+
+  it('exports formula-like cells as plain text in CSV', async () => {
+    await service.log({
+      action: 'REPORT_UPDATED',
+      details: '=HYPERLINK("http://evil.example","open")',
+      userId: 'u1',
+      reportId: '-r1',
+    });
+
+    const csv = await service.export({}, 'csv', 'u1');
+    const row = csv.split('\r\n')[4];
+
+    expect(row).toContain(`"'=HYPERLINK(""http://evil.example"",""open"")"`);
+    expect(row).toContain(",'-r1,");
+    expect(row).not.toMatch(/,[=+\-@]/);
+  });
+});
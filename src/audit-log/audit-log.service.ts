@@ -0,0 +1,492 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { AuditCheckpoint, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditCheckpointService } from './audit-checkpoint.service';
+import {
+  AuditLogFiltersDto,
+  AuditLogQueryDto,
+} from './dto/audit-log-filters.dto';
+
+/** Relations returned with every audit entry */
+const AUDIT_LOG_INCLUDE = {
+  user: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+      role: { select: { name: true } },
+    },
+  },
+  report: { select: { id: true, villageId: true } },
+} satisfies Prisma.AuditLogInclude;
+
+type AuditLogEntry = Prisma.AuditLogGetPayload<{
+  include: typeof AUDIT_LOG_INCLUDE;
+}>;
+
+/** Newest first; id breaks ties between entries logged in the same millisecond */
+const AUDIT_LOG_ORDER: Prisma.AuditLogOrderByWithRelationInput[] = [
+  { timestamp: 'desc' },
+  { id: 'desc' },
+];
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+/** Entries fetched per round-trip while building an export */
+const EXPORT_BATCH_SIZE = 500;
+
+const CSV_COLUMNS = [
+  'id',
+  'timestamp',
+  'action',
+  'userId',
+  'userEmail',
+  'userName',
+  'userRole',
+  'reportId',
+  'villageId',
+  'targetType',
+  'targetId',
+  'details',
+] as const;
+
+type ExportRow = Record<(typeof CSV_COLUMNS)[number], string | null>;
+
+/** Entries read per round-trip while verifying or sealing the chain */
+const CHAIN_BATCH_SIZE = 500;
+
+export interface AuditEntryInput {
+  action: string;
+  details: string;
+  /** Acting user; null when unknown (e.g. failed sign-in) */
+  userId?: string | null;
+  reportId?: string | null;
+  /** Entity the action applies to for non-report events (USER, ROLE, VILLAGE) */
+  targetType?: string | null;
+  targetId?: string | null;
+}
+
+/** Fields covered by an entry hash */
+export interface ChainedAuditFields extends AuditEntryInput {
+  sequence: number;
+  timestamp: Date;
+  previousHash: string | null;
+}
+
+export type ChainBreakReason =
+  | 'SEQUENCE_GAP'
+  | 'DUPLICATE_SEQUENCE'
+  | 'PREVIOUS_HASH_MISMATCH'
+  | 'HASH_MISMATCH'
+  | 'UNSEALED_ENTRY'
+  | 'CHECKPOINT_MISMATCH'
+  | 'CHECKPOINT_SIGNATURE_INVALID'
+  | 'TRUNCATED';
+
+export interface ChainBreak {
+  reason: ChainBreakReason;
+  sequence: number | null;
+  entryId: string | null;
+  checkpointId?: string;
+}
+
+/** SHA-256 over a canonical serialization of the entry and the previous hash */
+export function computeAuditHash(entry: ChainedAuditFields): string {
+  const fields = [
+    entry.sequence,
+    entry.timestamp.toISOString(),
+    entry.action,
+    entry.details,
+    entry.userId ?? null,
+    entry.reportId ?? null,
+    entry.previousHash,
+  ];
+  // Target fields came later: only hashed when set, so older hashes stay valid
+  if (entry.targetType || entry.targetId) {
+    fields.push(entry.targetType ?? null, entry.targetId ?? null);
+  }
+  return createHash('sha256').update(JSON.stringify(fields)).digest('hex');
+}
+
+/**
+ * Quote a CSV cell when needed (RFC 4180). Cells a spreadsheet would run as a
+ * formula are prefixed with a quote so they open as plain text.
+ */
+function csvCell(value: string | null): string {
+  const raw = value ?? '';
+  const text = /^[=+\-@]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Single write path for the audit trail, plus read access for inspectors
+ * (AUDIT_READ): filtering, cursor pagination, CSV/JSON export and
+ * verification of the hash chain.
+ *
+ * Each entry stores a sequence number, the hash of its content and the hash
+ * of the previous entry, so editing, deleting or inserting an entry breaks
+ * the chain. Appends are serialized in-process to keep sequences contiguous;
+ * two entries sharing a position (e.g. appended by two instances) are
+ * reported by verify().
+ */
+@Injectable()
+export class AuditLogService implements OnModuleInit {
+  private readonly logger = new Logger(AuditLogService.name);
+  private appendQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private prisma: PrismaService,
+    private checkpointService: AuditCheckpointService,
+  ) {}
+
+  async onModuleInit() {
+    await this.enqueue(() => this.sealUnchainedEntries());
+  }
+
+  /** Append an entry to the audit chain */
+  async log(entry: AuditEntryInput) {
+    return this.enqueue(async () => {
+      const head = await this.findHead();
+      const fields: ChainedAuditFields = {
+        action: entry.action,
+        details: entry.details,
+        userId: entry.userId ?? null,
+        reportId: entry.reportId ?? null,
+        targetType: entry.targetType ?? null,
+        targetId: entry.targetId ?? null,
+        sequence: (head?.sequence ?? 0) + 1,
+        timestamp: new Date(),
+        previousHash: head?.hash ?? null,
+      };
+
+      return this.prisma.auditLog.create({
+        data: { ...fields, hash: computeAuditHash(fields) },
+      });
+    });
+  }
+
+  /**
+   * Walk the whole chain and report the first broken link, then check that
+   * every signed checkpoint still matches the chain.
+   */
+  async verify() {
+    const checkpoints = await this.prisma.auditCheckpoint.findMany({
+      orderBy: { sequence: 'asc' },
+    });
+    const checkpointsBySequence = new Map<number, AuditCheckpoint[]>();
+    for (const checkpoint of checkpoints) {
+      checkpointsBySequence.set(checkpoint.sequence, [
+        ...(checkpointsBySequence.get(checkpoint.sequence) ?? []),
+        checkpoint,
+      ]);
+    }
+
+    let firstBrokenLink: ChainBreak | null = null;
+    let previousHash: string | null = null;
+    let checkedEntries = 0;
+    let lastSequence = 0;
+    let cursor: string | undefined;
+
+    walk: for (;;) {
+      const batch = await this.prisma.auditLog.findMany({
+        where: { sequence: { not: null } },
+        orderBy: { sequence: 'asc' },
+        take: CHAIN_BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+
+      for (const entry of batch) {
+        const sequence = entry.sequence as number;
+        const at = { sequence, entryId: entry.id };
+
+        if (sequence === lastSequence) {
+          firstBrokenLink = { reason: 'DUPLICATE_SEQUENCE', ...at };
+        } else if (sequence !== lastSequence + 1) {
+          firstBrokenLink = { reason: 'SEQUENCE_GAP', ...at };
+        } else if (entry.previousHash !== previousHash) {
+          firstBrokenLink = { reason: 'PREVIOUS_HASH_MISMATCH', ...at };
+        } else if (
+          entry.hash !== computeAuditHash({ ...entry, sequence, previousHash })
+        ) {
+          firstBrokenLink = { reason: 'HASH_MISMATCH', ...at };
+        } else {
+          const mismatch = checkpointsBySequence
+            .get(sequence)
+            ?.find((c) => c.hash !== entry.hash);
+          if (mismatch) {
+            firstBrokenLink = {
+              reason: 'CHECKPOINT_MISMATCH',
+              ...at,
+              checkpointId: mismatch.id,
+            };
+          }
+        }
+
+        if (firstBrokenLink) break walk;
+
+        checkedEntries++;
+        lastSequence = sequence;
+        previousHash = entry.hash;
+      }
+
+      if (batch.length < CHAIN_BATCH_SIZE) break;
+      cursor = batch[batch.length - 1].id;
+    }
+
+    // Entries written around the chain (e.g. directly in the database)
+    if (!firstBrokenLink) {
+      const unsealed = await this.prisma.auditLog.findFirst({
+        where: this.unsealedWhere(),
+        orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+        select: { id: true },
+      });
+      if (unsealed) {
+        firstBrokenLink = {
+          reason: 'UNSEALED_ENTRY',
+          sequence: null,
+          entryId: unsealed.id,
+        };
+      }
+    }
+
+    // A checkpoint beyond the chain head means entries were removed from the end
+    const lastCheckpoint = checkpoints[checkpoints.length - 1];
+    if (
+      !firstBrokenLink &&
+      lastCheckpoint &&
+      lastCheckpoint.sequence > lastSequence
+    ) {
+      firstBrokenLink = {
+        reason: 'TRUNCATED',
+        sequence: lastSequence + 1,
+        entryId: null,
+        checkpointId: lastCheckpoint.id,
+      };
+    }
+
+    let verifiedCheckpoints = 0;
+    let unverifiableCheckpoints = 0;
+    for (const checkpoint of checkpoints) {
+      const signatureValid = this.checkpointService.verifySignature(checkpoint);
+      if (signatureValid === null) {
+        unverifiableCheckpoints++;
+      } else if (signatureValid) {
+        verifiedCheckpoints++;
+      } else if (!firstBrokenLink) {
+        firstBrokenLink = {
+          reason: 'CHECKPOINT_SIGNATURE_INVALID',
+          sequence: checkpoint.sequence,
+          entryId: null,
+          checkpointId: checkpoint.id,
+        };
+      }
+    }
+
+    return {
+      valid: firstBrokenLink === null,
+      checkedEntries,
+      lastSequence,
+      firstBrokenLink,
+      checkpoints: {
+        total: checkpoints.length,
+        verified: verifiedCheckpoints,
+        // Signed with another key than the configured one
+        unverifiable: unverifiableCheckpoints,
+        keyId: this.checkpointService.keyId,
+      },
+    };
+  }
+
+  async findAll(query: AuditLogQueryDto) {
+    const limit = Math.min(
+      Math.max(1, Number(query.limit) || DEFAULT_PAGE_SIZE),
+      MAX_PAGE_SIZE,
+    );
+
+    // Fetch one extra entry to know whether another page exists
+    const entries = await this.prisma.auditLog.findMany({
+      where: this.buildWhere(query),
+      include: AUDIT_LOG_INCLUDE,
+      orderBy: AUDIT_LOG_ORDER,
+      take: limit + 1,
+      ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+    });
+
+    const hasMore = entries.length > limit;
+    const data = hasMore ? entries.slice(0, limit) : entries;
+
+    return {
+      data,
+      nextCursor: hasMore ? data[data.length - 1].id : null,
+    };
+  }
+
+  /** All entries matching the filters, serialized as CSV or JSON */
+  async export(
+    filters: AuditLogFiltersDto,
+    format: 'csv' | 'json',
+    userId: string,
+  ) {
+    const entries = await this.findAllForExport(filters);
+
+    // Exporting the trail is itself a traced action
+    await this.log({
+      action: 'AUDIT_EXPORTED',
+      details: `Audit log exported as ${format.toUpperCase()} (${entries.length} entries)`,
+      userId,
+    });
+
+    if (format === 'json') {
+      return JSON.stringify(
+        entries.map((e) => this.toExportRow(e)),
+        null,
+        2,
+      );
+    }
+
+    const lines = entries.map((e) => {
+      const row = this.toExportRow(e);
+      return CSV_COLUMNS.map((c) => csvCell(row[c])).join(',');
+    });
+    return [CSV_COLUMNS.join(','), ...lines].join('\r\n');
+  }
+
+  private async findAllForExport(filters: AuditLogFiltersDto) {
+    const where = this.buildWhere(filters);
+    const entries: AuditLogEntry[] = [];
+    let cursor: string | undefined;
+
+    for (;;) {
+      const batch = await this.prisma.auditLog.findMany({
+        where,
+        include: AUDIT_LOG_INCLUDE,
+        orderBy: AUDIT_LOG_ORDER,
+        take: EXPORT_BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+      entries.push(...batch);
+      if (batch.length < EXPORT_BATCH_SIZE) {
+        return entries;
+      }
+      cursor = batch[batch.length - 1].id;
+    }
+  }
+
+  private toExportRow(entry: AuditLogEntry): ExportRow {
+    return {
+      id: entry.id,
+      timestamp: entry.timestamp.toISOString(),
+      action: entry.action,
+      userId: entry.userId,
+      userEmail: entry.user?.email ?? null,
+      userName: entry.user
+        ? `${entry.user.firstName} ${entry.user.lastName}`
+        : null,
+      userRole: entry.user?.role.name ?? null,
+      reportId: entry.reportId,
+      villageId: entry.report?.villageId ?? null,
+      targetType: entry.targetType,
+      targetId: entry.targetId,
+      details: entry.details,
+    };
+  }
+
+  private buildWhere(filters: AuditLogFiltersDto): Prisma.AuditLogWhereInput {
+    const where: Prisma.AuditLogWhereInput = {};
+
+    if (filters.userId) {
+      where.userId = filters.userId;
+    }
+    if (filters.action) {
+      where.action = filters.action;
+    }
+    if (filters.reportId) {
+      where.reportId = filters.reportId;
+    }
+    if (filters.targetType) {
+      where.targetType = filters.targetType;
+    }
+    if (filters.targetId) {
+      where.targetId = filters.targetId;
+    }
+    if (filters.villageId) {
+      where.report = { is: { villageId: filters.villageId } };
+    }
+    if (filters.dateFrom || filters.dateTo) {
+      where.timestamp = {
+        ...(filters.dateFrom && { gte: new Date(filters.dateFrom) }),
+        ...(filters.dateTo && { lte: new Date(filters.dateTo) }),
+      };
+    }
+
+    return where;
+  }
+
+  /** Run chain writes one at a time so each entry links to the real head */
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.appendQueue.then(task);
+    this.appendQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async findHead() {
+    return this.prisma.auditLog.findFirst({
+      where: { sequence: { not: null } },
+      orderBy: { sequence: 'desc' },
+      select: { sequence: true, hash: true },
+    });
+  }
+
+  private unsealedWhere(): Prisma.AuditLogWhereInput {
+    return { OR: [{ hash: null }, { hash: { isSet: false } }] };
+  }
+
+  /**
+   * One-time migration: chain the entries written before hashing existed,
+   * oldest first. Once the chain has started, unsealed entries can only
+   * come from outside log() and are left for verify() to report.
+   */
+  private async sealUnchainedEntries() {
+    if (await this.findHead()) {
+      const unsealed = await this.prisma.auditLog.count({
+        where: this.unsealedWhere(),
+      });
+      if (unsealed > 0) {
+        this.logger.warn(
+          `${unsealed} audit entries were written outside the chain and are left unsealed`,
+        );
+      }
+      return;
+    }
+
+    let sequence = 0;
+    let previousHash: string | null = null;
+
+    for (;;) {
+      const batch = await this.prisma.auditLog.findMany({
+        where: this.unsealedWhere(),
+        orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+        take: CHAIN_BATCH_SIZE,
+      });
+      if (batch.length === 0) break;
+
+      for (const entry of batch) {
+        sequence++;
+        const hash = computeAuditHash({ ...entry, sequence, previousHash });
+        await this.prisma.auditLog.update({
+          where: { id: entry.id },
+          data: { sequence, previousHash, hash },
+        });
+        previousHash = hash;
+      }
+    }
+
+    if (sequence > 0) {
+      this.logger.log(
+        `Sealed ${sequence} existing audit entries into the chain`,
+      );
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const AUDIT_KEY = 'audit';
+
+export type AuditTargetType =
+  | 'USER'
+  | 'ROLE'
+  | 'VILLAGE'
+  | 'INVITATION'
+  | 'SLA_POLICY'
+  | 'PROCEDURE_TEMPLATE'
+  | 'DOCUMENT_TYPE';
+
+export interface AuditMetadata {
+  action: string;
+  targetType: AuditTargetType;
+}
+
+/**
+ * Decorator to record a successful call of a route in the audit log
+ * Works with AuditInterceptor (registered globally)
+ * @param action - Audit action name (e.g. USER_APPROVED)
+ * @param targetType - Entity type of the :id route param or of the created entity
+ *
+ * @example
+ * @Audit('ROLE_UPDATED', 'ROLE')
+ * @Patch(':id')
+ * update(@Param('id') id: string) { ... }
+ */
+export const Audit = (action: string, targetType: AuditTargetType) =>
+  SetMetadata(AUDIT_KEY, { action, targetType } satisfies AuditMetadata);
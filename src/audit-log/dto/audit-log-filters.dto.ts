@@ -0,0 +1,111 @@
+import {
+  IsOptional,
+  IsString,
+  IsDateString,
+  IsMongoId,
+  IsIn,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class AuditLogFiltersDto {
+  @ApiPropertyOptional({
+    example: '6990a2530ea1533dee1111e1',
+    description: 'Filter by the user who performed the action',
+  })
+  @IsOptional()
+  @IsMongoId()
+  userId?: string;
+
+  @ApiPropertyOptional({
+    example: 'REPORT_ARCHIVED',
+    description: 'Filter by action (e.g. REPORT_CREATED, DOCUMENT_UPLOADED)',
+  })
+  @IsOptional()
+  @IsString()
+  action?: string;
+
+  @ApiPropertyOptional({
+    example: '6990a2530ea1533dee1111f0',
+    description: 'Filter by report',
+  })
+  @IsOptional()
+  @IsMongoId()
+  reportId?: string;
+
+  @ApiPropertyOptional({
+    enum: [
+      'USER',
+      'ROLE',
+      'VILLAGE',
+      'INVITATION',
+      'SLA_POLICY',
+      'PROCEDURE_TEMPLATE',
+      'DOCUMENT_TYPE',
+    ],
+    description: 'Filter by target entity type (non-report events)',
+  })
+  @IsOptional()
+  @IsString()
+  targetType?: string;
+
+  @ApiPropertyOptional({
+    example: '6990a2530ea1533dee1111e1',
+    description: 'Filter by target entity ID (use with targetType)',
+  })
+  @IsOptional()
+  @IsString()
+  targetId?: string;
+
+  @ApiPropertyOptional({
+    example: '6990a2530ea1533dee1111d1',
+    description: 'Filter by village of the related report',
+  })
+  @IsOptional()
+  @IsMongoId()
+  villageId?: string;
+
+  @ApiPropertyOptional({
+    example: '2026-01-01',
+    description: 'Entries logged at or after this date (ISO format)',
+  })
+  @IsOptional()
+  @IsDateString()
+  dateFrom?: string;
+
+  @ApiPropertyOptional({
+    example: '2026-12-31',
+    description: 'Entries logged at or before this date (ISO format)',
+  })
+  @IsOptional()
+  @IsDateString()
+  dateTo?: string;
+}
+
+export class AuditLogQueryDto extends AuditLogFiltersDto {
+  @ApiPropertyOptional({
+    example: '6990a2530ea1533dee111234',
+    description: 'nextCursor returned by the previous page',
+  })
+  @IsOptional()
+  @IsMongoId()
+  cursor?: string;
+
+  @ApiPropertyOptional({
+    example: 50,
+    description: 'Number of entries per page (max 200)',
+    default: 50,
+  })
+  @IsOptional()
+  limit?: number;
+}
+
+export class AuditLogExportDto extends AuditLogFiltersDto {
+  @ApiPropertyOptional({
+    enum: ['csv', 'json'],
+    description: 'Export file format',
+    default: 'csv',
+  })
+  @IsOptional()
+  @IsIn(['csv', 'json'])
+  format?: 'csv' | 'json';
+}
@@ -0,0 +1,88 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Observable, concatMap } from 'rxjs';
+import { AuditLogService } from '../audit-log.service';
+import { AUDIT_KEY, AuditMetadata } from '../decorators/audit.decorator';
+import { JwtPayload } from '../../auth/dto/jwt-payload.dto';
+
+interface AuditedRequest {
+  user?: JwtPayload;
+  params: Record<string, string | undefined>;
+  body?: Record<string, unknown>;
+}
+
+type HandlerResult = Record<string, unknown> | undefined;
+
+/** Request body fields never copied into audit details */
+const SECRET_FIELD = /password|token|secret/i;
+
+/**
+ * Interceptor that writes an audit entry after a route decorated with
+ * @Audit() succeeds: who (JWT user), what (action + request body) and
+ * which entity (:id param, or the id of the created entity).
+ * Failed calls are not recorded here.
+ */
+@Injectable()
+export class AuditInterceptor implements NestInterceptor {
+  constructor(
+    private reflector: Reflector,
+    private auditLogService: AuditLogService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const audit = this.reflector.get<AuditMetadata | undefined>(
+      AUDIT_KEY,
+      context.getHandler(),
+    );
+    if (!audit) {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest<AuditedRequest>();
+
+    return next.handle().pipe(
+      concatMap(async (result: HandlerResult) => {
+        await this.auditLogService.log({
+          action: audit.action,
+          details: this.describe(request, result),
+          userId: request.user?.sub ?? null,
+          targetType: audit.targetType,
+          targetId:
+            request.params.id ??
+            request.params.code ??
+            this.createdId(result, audit.targetType),
+        });
+        return result;
+      }),
+    );
+  }
+
+  /** Result message followed by the submitted changes */
+  private describe(request: AuditedRequest, result: HandlerResult): string {
+    const message =
+      typeof result?.message === 'string' ? result.message : 'Done';
+    const changes = Object.fromEntries(
+      Object.entries(request.body ?? {}).filter(
+        ([key]) => !SECRET_FIELD.test(key),
+      ),
+    );
+    return Object.keys(changes).length > 0
+      ? `${message}. Changes: ${JSON.stringify(changes)}`
+      : message;
+  }
+
+  /** Id of the created entity: { id } or { role: { id } } style responses */
+  private createdId(
+    result: HandlerResult,
+    targetType: AuditMetadata['targetType'],
+  ): string | null {
+    const entity = result?.[targetType.toLowerCase()] ?? result;
+    const id = (entity as { id?: unknown } | undefined)?.id;
+    return typeof id === 'string' ? id : null;
+  }
+}
@@ -0,0 +1,83 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { AccessPolicyService } from './access-policy.service';
+import { PermissionResolverService } from './permission-resolver.service';
+
+describe('AccessPolicyService', () => {
+  let service: AccessPolicyService;
+  const report = { reporterId: 'reporter', villageId: 'v1' };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccessPolicyService,
+        {
+          provide: PermissionResolverService,
+          useValue: {
+            assertVillageAccess: jest.fn(),
+            canAccessVillage: jest.fn(() => true),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AccessPolicyService>(AccessPolicyService);
+  });
+
+  it('limits users without REPORT_READ_ALL to their own reports', async () => {
+    await expect(
+      service.assertReportAccess('reporter', ['REPORT_READ'], report),
+    ).resolves.toBeUndefined();
+    await expect(
+      service.assertReportAccess('other', ['REPORT_READ'], report),
+    ).rejects.toThrow(ForbiddenException);
+    await expect(
+      service.assertReportAccess('other', ['REPORT_READ_ALL'], report),
+    ).resolves.toBeUndefined();
+  });
+
+  it('shows reporter identity to the reporter and REPORTER_IDENTITY_VIEW', () => {
+    expect(service.canViewReporterIdentity('reporter', [], report)).toBe(true);
+    expect(service.canViewReporterIdentity('other', [], report)).toBe(false);
+    expect(
+      service.canViewReporterIdentity(
+        'other',
+        ['REPORTER_IDENTITY_VIEW'],
+        report,
+      ),
+    ).toBe(true);
+  });
+
+  it('only assigns analysts whose role holds REPORT_ASSIGNABLE', async () => {
+    await expect(
+      service.assertAssignableAnalyst(
+        {
+          id: 'a1',
+          status: 'APPROVED',
+          role: { permissions: ['REPORT_READ'] },
+        },
+        report,
+      ),
+    ).rejects.toThrow(BadRequestException);
+    await expect(
+      service.assertAssignableAnalyst(
+        {
+          id: 'a1',
+          status: 'APPROVED',
+          role: { permissions: ['REPORT_ASSIGNABLE'] },
+        },
+        report,
+      ),
+    ).resolves.toBeUndefined();
+    await expect(
+      service.assertAssignableAnalyst(
+        {
+          id: 'a1',
+          status: 'DEACTIVATED',
+          role: { permissions: ['REPORT_ASSIGNABLE'] },
+        },
+        report,
+      ),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,145 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import {
+  PermissionResolverService,
+  coversVillageWhere,
+} from './permission-resolver.service';
+
+/**
+ * Attribute rules expressed as role permissions instead of role names,
+ * so renaming a role or creating a new one never changes who may do what.
+ * SuperAdmin grants them through the role API like any other permission.
+ */
+export const POLICY_PERMISSIONS = {
+  /** Read reports filed by others; without it REPORT_READ covers own reports only */
+  readAllReports: 'REPORT_READ_ALL',
+  /** See the real reporter of an anonymous report */
+  viewReporterIdentity: 'REPORTER_IDENTITY_VIEW',
+  /** Can be assigned to a report as analyst */
+  assignableAsAnalyst: 'REPORT_ASSIGNABLE',
+  /** Receives alerts for urgent and critical reports */
+  receiveUrgentAlerts: 'REPORT_URGENT_ALERT',
+  /** Second escalation level of missed report deadlines (Directeur) */
+  receiveSlaEscalations: 'SLA_ESCALATION',
+  /** Last escalation level of missed report deadlines (SuperAdmin) */
+  receiveFinalSlaEscalations: 'SLA_ESCALATION_FINAL',
+  /** Approves or rejects submitted procedure documents (Directeur) */
+  approveDocuments: 'DOC_APPROVE',
+} as const;
+
+interface ReportAttributes {
+  reporterId: string;
+  villageId: string;
+}
+
+/**
+ * Central evaluation of report access rules: ownership, reporter identity,
+ * analyst eligibility and village scope (see PermissionResolverService).
+ */
+@Injectable()
+export class AccessPolicyService {
+  constructor(private permissionResolver: PermissionResolverService) {}
+
+  /** Users without REPORT_READ_ALL only see the reports they filed */
+  ownReportsOnly(permissions: string[]) {
+    return !permissions.includes(POLICY_PERMISSIONS.readAllReports);
+  }
+
+  /** Throw unless the user may see (or act on) this report */
+  async assertReportAccess(
+    userId: string,
+    permissions: string[],
+    report: ReportAttributes,
+    action: 'view' | 'update' = 'view',
+  ) {
+    if (this.ownReportsOnly(permissions) && report.reporterId !== userId) {
+      throw new ForbiddenException(`You can only ${action} your own reports`);
+    }
+    await this.permissionResolver.assertVillageAccess(userId, report.villageId);
+  }
+
+  /** The reporter always sees their own identity */
+  canViewReporterIdentity(
+    userId: string,
+    permissions: string[],
+    report: Pick<ReportAttributes, 'reporterId'>,
+  ) {
+    return (
+      report.reporterId === userId ||
+      permissions.includes(POLICY_PERMISSIONS.viewReporterIdentity)
+    );
+  }
+
+  /** Throw unless the user can be assigned to the report as analyst */
+  async assertAssignableAnalyst(
+    analyst: { id: string; status: string; role: { permissions: string[] } },
+    report: Pick<ReportAttributes, 'villageId'>,
+  ) {
+    if (analyst.status !== 'APPROVED') {
+      throw new BadRequestException(
+        `User cannot be assigned as analyst (account ${analyst.status.toLowerCase()})`,
+      );
+    }
+    if (
+      !analyst.role.permissions.includes(POLICY_PERMISSIONS.assignableAsAnalyst)
+    ) {
+      throw new BadRequestException(
+        `User's role must hold the ${POLICY_PERMISSIONS.assignableAsAnalyst} permission to be assigned as analyst`,
+      );
+    }
+    if (
+      !(await this.permissionResolver.canAccessVillage(
+        analyst.id,
+        report.villageId,
+      ))
+    ) {
+      throw new BadRequestException(
+        "Analyst does not cover this report's village",
+      );
+    }
+  }
+
+  /** Approved users alerted about an urgent report in villageId */
+  urgentAlertRecipientsWhere(villageId: string): Prisma.UserWhereInput {
+    return {
+      status: 'APPROVED',
+      role: {
+        permissions: { has: POLICY_PERMISSIONS.receiveUrgentAlerts },
+      },
+      ...coversVillageWhere(villageId),
+    };
+  }
+
+  /** Approved users a missed deadline in villageId is escalated to */
+  slaEscalationRecipientsWhere(
+    villageId: string,
+    final: boolean,
+  ): Prisma.UserWhereInput {
+    return {
+      status: 'APPROVED',
+      role: {
+        permissions: {
+          has: final
+            ? POLICY_PERMISSIONS.receiveFinalSlaEscalations
+            : POLICY_PERMISSIONS.receiveSlaEscalations,
+        },
+      },
+      ...coversVillageWhere(villageId),
+    };
+  }
+
+  /** Approved users who review documents submitted in villageId */
+  documentReviewersWhere(villageId: string): Prisma.UserWhereInput {
+    return {
+      status: 'APPROVED',
+      role: {
+        permissions: { has: POLICY_PERMISSIONS.approveDocuments },
+      },
+      ...coversVillageWhere(villageId),
+    };
+  }
+}
@@ -6,6 +6,7 @@ import {
   UseGuards,
   HttpCode,
   HttpStatus,
+  Ip,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -17,6 +18,16 @@ import {
 import { AuthService } from './auth.service';
 import { SignUpDto } from './dto/sign-up.dto';
 import { SignInDto } from './dto/sign-in.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { TwoFactorCodeDto } from './dto/two-factor-code.dto';
+import { VerifyTwoFactorDto } from './dto/verify-two-factor.dto';
+import { TwoFactorService } from './two-factor.service';
+import { ChangePasswordDto } from './dto/change-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { PasswordService } from './password.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { InvitationService } from './invitation.service';
+import { AcceptInvitationDto } from './dto/accept-invitation.dto';
 import { Public } from './decorators/public.decorator';
 import { CurrentUser } from './decorators/current-user.decorator';
 import type { JwtPayload } from './dto/jwt-payload.dto';
@@ -27,14 +38,20 @@ import { PermissionsGuard } from './guards/permissions.guard';
 @ApiTags('auth')
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly passwordService: PasswordService,
+    private readonly passwordPolicy: PasswordPolicyService,
+    private readonly invitationService: InvitationService,
+  ) {}
 
   @Public()
   @Get('roles')
   @ApiOperation({
     summary: 'List roles for sign-up',
     description:
-      'Public endpoint. Returns all roles (id, name, description) so the user can choose one when registering. Used by the sign-up form.',
+      'Public endpoint. Returns the roles open to self sign-up (id, name, description) so the user can choose one when registering. Empty when public sign-up is disabled. Used by the sign-up form.',
   })
   @ApiResponse({
     status: 200,
@@ -81,6 +98,11 @@ export class AuthController {
     status: 400,
     description: 'User already exists or invalid roleId',
   })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Public sign-up is disabled or the role is not open to sign-up',
+  })
   async signUp(@Body() signUpDto: SignUpDto) {
     return this.authService.signUp(signUpDto);
   }
@@ -91,7 +113,7 @@ export class AuthController {
   @ApiOperation({
     summary: 'Sign in user',
     description:
-      'Authenticate user and receive JWT token with flattened permissions. Token is valid for 7 days.',
+      'Authenticate user and receive a short-lived JWT access token with flattened permissions (expires_in seconds) and a refresh token to renew it via POST /auth/refresh. With two-factor authentication enabled (or required by the role) the response is a challenge_token to complete via POST /auth/2fa/verify instead.',
   })
   @ApiBody({ type: SignInDto })
   @ApiResponse({
@@ -100,6 +122,8 @@ export class AuthController {
     schema: {
       example: {
         access_token: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+        refresh_token: 'q3Xz9k0V...',
+        expires_in: 900,
         user: {
           id: '6990a2530ea1533dee1111ed',
           email: 'admin@sos.tn',
@@ -117,16 +141,254 @@ export class AuthController {
     },
   })
   @ApiResponse({ status: 401, description: 'Invalid credentials' })
-  async signIn(@Body() signInDto: SignInDto) {
-    return this.authService.signIn(signInDto);
+  @ApiResponse({
+    status: 429,
+    description: 'Too many failed attempts for this account or IP address',
+  })
+  async signIn(@Body() signInDto: SignInDto, @Ip() ip: string) {
+    return this.authService.signIn(signInDto, ip);
+  }
+
+  @Public()
+  @Post('2fa/verify')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Complete sign-in with a two-factor code',
+    description:
+      'Second sign-in step. Send the challenge_token from POST /auth/sign-in with a code from the authenticator app or an unused recovery code. When enrolment was required, the first code enables 2FA and the response also contains the recovery codes (shown only once).',
+  })
+  @ApiBody({ type: VerifyTwoFactorDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Signed in (same response as POST /auth/sign-in)',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid code or expired challenge',
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many failed attempts for this account or IP address',
+  })
+  async verifyTwoFactor(@Body() dto: VerifyTwoFactorDto, @Ip() ip: string) {
+    return this.authService.verifyTwoFactor(dto, ip);
+  }
+
+  @Post('2fa/setup')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Start two-factor enrolment',
+    description:
+      'Generate a new TOTP secret. Render otpauth_url as a QR code for the authenticator app, then confirm with POST /auth/2fa/enable.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Secret generated',
+    schema: {
+      example: {
+        secret: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP',
+        otpauth_url:
+          'otpauth://totp/SOS%20Villages%3Aadmin%40sos.tn?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=SOS+Villages&algorithm=SHA1&digits=6&period=30',
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: '2FA already enabled' })
+  async setupTwoFactor(@CurrentUser() user: JwtPayload) {
+    return this.twoFactorService.beginEnrolment(user.sub);
+  }
+
+  @Post('2fa/enable')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Enable two-factor authentication',
+    description:
+      'Confirm enrolment with the first code from the authenticator app. Returns the recovery codes, shown only once.',
+  })
+  @ApiBody({ type: TwoFactorCodeDto })
+  @ApiResponse({ status: 200, description: '2FA enabled' })
+  @ApiResponse({ status: 401, description: 'Invalid code' })
+  async enableTwoFactor(
+    @CurrentUser() user: JwtPayload,
+    @Body() dto: TwoFactorCodeDto,
+  ) {
+    const recoveryCodes = await this.twoFactorService.confirmEnrolment(
+      user.sub,
+      dto.code,
+    );
+    return {
+      message: 'Two-factor authentication enabled',
+      recovery_codes: recoveryCodes,
+    };
+  }
+
+  @Post('2fa/recovery-codes')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Regenerate recovery codes',
+    description:
+      'Replace all recovery codes. Requires a current two-factor code.',
+  })
+  @ApiBody({ type: TwoFactorCodeDto })
+  @ApiResponse({ status: 200, description: 'New recovery codes' })
+  @ApiResponse({ status: 401, description: 'Invalid code' })
+  async regenerateRecoveryCodes(
+    @CurrentUser() user: JwtPayload,
+    @Body() dto: TwoFactorCodeDto,
+  ) {
+    const recoveryCodes = await this.twoFactorService.regenerateRecoveryCodes(
+      user.sub,
+      dto.code,
+    );
+    return { recovery_codes: recoveryCodes };
+  }
+
+  @Post('2fa/disable')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Disable two-factor authentication',
+    description:
+      'Turn 2FA off. Requires a current two-factor code and is refused while the role requires 2FA.',
+  })
+  @ApiBody({ type: TwoFactorCodeDto })
+  @ApiResponse({ status: 200, description: '2FA disabled' })
+  @ApiResponse({ status: 400, description: 'Role requires 2FA' })
+  @ApiResponse({ status: 401, description: 'Invalid code' })
+  async disableTwoFactor(
+    @CurrentUser() user: JwtPayload,
+    @Body() dto: TwoFactorCodeDto,
+  ) {
+    await this.twoFactorService.disable(user.sub, dto.code);
+    return { message: 'Two-factor authentication disabled' };
+  }
+
+  @Public()
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Refresh access token',
+    description:
+      'Exchange a refresh token for a new access token (with current role permissions) and a new refresh token. Each refresh token can be used once; reusing one revokes the whole session.',
+  })
+  @ApiBody({ type: RefreshTokenDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Tokens renewed',
+    schema: {
+      example: {
+        access_token: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+        refresh_token: 'Zp41Lm8c...',
+        expires_in: 900,
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Refresh token invalid, expired or revoked',
+  })
+  async refresh(@Body() refreshTokenDto: RefreshTokenDto) {
+    return this.authService.refresh(refreshTokenDto);
+  }
+
+  @Public()
+  @Post('logout')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Log out',
+    description:
+      'Revoke the session of the given refresh token. The access token expires on its own shortly after.',
+  })
+  @ApiBody({ type: RefreshTokenDto })
+  @ApiResponse({ status: 200, description: 'Logged out successfully' })
+  async logout(@Body() refreshTokenDto: RefreshTokenDto) {
+    return this.authService.logout(refreshTokenDto);
+  }
+
+  @Public()
+  @Post('invitations/accept')
+  @ApiOperation({
+    summary: 'Accept an invitation',
+    description:
+      'Create an account from the token in an invitation link (POST /users/invitations). The account gets the invitation role and villages and is approved immediately.',
+  })
+  @ApiBody({ type: AcceptInvitationDto })
+  @ApiResponse({ status: 201, description: 'Account created' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Invitation invalid, used or expired, email already registered, or password does not meet the policy',
+  })
+  async acceptInvitation(@Body() dto: AcceptInvitationDto) {
+    return this.invitationService.accept(dto);
+  }
+
+  @Public()
+  @Get('password/policy')
+  @ApiOperation({
+    summary: 'Get the password policy',
+    description:
+      'Rules applied on sign-up, password change and reset, for display next to password fields.',
+  })
+  @ApiResponse({ status: 200, description: 'Password rules in effect' })
+  getPasswordPolicy() {
+    return this.passwordPolicy.describe();
+  }
+
+  @Post('password/change')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Change password',
+    description:
+      'Change the password of the signed-in user. All sessions (refresh tokens) are revoked; sign in again with the new password.',
+  })
+  @ApiBody({ type: ChangePasswordDto })
+  @ApiResponse({ status: 200, description: 'Password changed' })
+  @ApiResponse({
+    status: 400,
+    description: 'New password does not meet the policy',
+  })
+  @ApiResponse({ status: 401, description: 'Current password is incorrect' })
+  async changePassword(
+    @CurrentUser() user: JwtPayload,
+    @Body() dto: ChangePasswordDto,
+  ) {
+    return this.passwordService.changePassword(user.sub, dto);
+  }
+
+  @Public()
+  @Post('password/reset')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Reset password with an emailed link',
+    description:
+      'Consume the single-use token from the reset link sent by an administrator (POST /users/:id/password-reset) and set a new password. Also lifts a sign-in lockout.',
+  })
+  @ApiBody({ type: ResetPasswordDto })
+  @ApiResponse({ status: 200, description: 'Password reset' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Link invalid, used or expired, or password does not meet the policy',
+  })
+  async resetPassword(@Body() dto: ResetPasswordDto) {
+    return this.passwordService.resetPassword(dto);
   }
 
   @Get('profile')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
   @ApiBearerAuth('JWT-auth')
   @ApiOperation({
     summary: 'Get current user profile',
-    description: 'Retrieve authenticated user information from JWT token',
+    description:
+      'Retrieve authenticated user information with current role and permissions',
   })
   @ApiResponse({
     status: 200,
@@ -1,4 +1,4 @@
-import { Module } from '@nestjs/common';
+import { Global, Module } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { AuthService } from './auth.service';
@@ -6,19 +6,65 @@ import { AuthController } from './auth.controller';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { PermissionsGuard } from './guards/permissions.guard';
+import { AuditLogModule } from '../audit-log/audit-log.module';
+import { RefreshTokenService } from './refresh-token.service';
+import { PermissionResolverService } from './permission-resolver.service';
+import { AccessPolicyService } from './access-policy.service';
+import { TwoFactorService } from './two-factor.service';
+import {
+  InMemoryLoginAttemptStore,
+  LOGIN_ATTEMPT_STORE,
+  LoginThrottleService,
+} from './login-throttle.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { PasswordService } from './password.service';
+import { InvitationService } from './invitation.service';
+import {
+  JWT_SECRET,
+  ACCESS_TOKEN_TTL_SECONDS,
+} from '../common/config/jwt.config';
 
+// Global: PermissionsGuard (and its resolver) is used by controllers in every module
+@Global()
 @Module({
   imports: [
     PassportModule,
+    AuditLogModule,
     JwtModule.register({
-      secret: process.env.JWT_SECRET || 'your-secret-key-change-in-production',
+      secret: JWT_SECRET,
       signOptions: {
-        expiresIn: '7d', // Token expires in 7 days
+        expiresIn: ACCESS_TOKEN_TTL_SECONDS, // Short-lived; renewed via /auth/refresh
       },
     }),
   ],
   controllers: [AuthController],
-  providers: [AuthService, JwtStrategy, JwtAuthGuard, PermissionsGuard],
-  exports: [JwtAuthGuard, PermissionsGuard], // Export guards for use in other modules
+  providers: [
+    AuthService,
+    RefreshTokenService,
+    PermissionResolverService,
+    AccessPolicyService,
+    TwoFactorService,
+    LoginThrottleService,
+    { provide: LOGIN_ATTEMPT_STORE, useClass: InMemoryLoginAttemptStore },
+    PasswordPolicyService,
+    PasswordService,
+    InvitationService,
+    JwtStrategy,
+    JwtAuthGuard,
+    PermissionsGuard,
+  ],
+  // Export guards and session revocation for use in other modules
+  exports: [
+    JwtAuthGuard,
+    PermissionsGuard,
+    RefreshTokenService,
+    PermissionResolverService,
+    AccessPolicyService,
+    TwoFactorService,
+    LoginThrottleService,
+    PasswordService,
+    PasswordPolicyService,
+    InvitationService,
+  ],
 })
 export class AuthModule {}
@@ -3,26 +3,67 @@ import {
   BadRequestException,
   UnauthorizedException,
   NotFoundException,
+  ForbiddenException,
 } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import * as bcrypt from 'bcrypt';
 import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogService } from '../audit-log/audit-log.service';
+import { RefreshTokenService } from './refresh-token.service';
+import {
+  ACCESS_TOKEN_TTL_SECONDS,
+  TWO_FACTOR_CHALLENGE_SECRET,
+  TWO_FACTOR_CHALLENGE_TTL_SECONDS,
+} from '../common/config/jwt.config';
 import { SignUpDto } from './dto/sign-up.dto';
 import { SignInDto } from './dto/sign-in.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { VerifyTwoFactorDto } from './dto/verify-two-factor.dto';
 import { JwtPayload } from './dto/jwt-payload.dto';
+import { TwoFactorService, TwoFactorMethod } from './two-factor.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { PUBLIC_SIGN_UP_ENABLED } from '../common/config/sign-up.config';
+import { omitUserSecrets } from '../common/utils/omit-user-secrets';
+
+/** Signed-in user data needed to issue tokens */
+type SessionUser = {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: { name: string; permissions: string[] };
+};
+
+/** Short-lived proof that the password step succeeded */
+interface TwoFactorChallenge {
+  sub: string;
+  purpose: 'verify' | 'enrol';
+}
 
 @Injectable()
 export class AuthService {
   constructor(
     private prisma: PrismaService,
     private jwtService: JwtService,
+    private auditLogService: AuditLogService,
+    private refreshTokenService: RefreshTokenService,
+    private twoFactorService: TwoFactorService,
+    private loginThrottleService: LoginThrottleService,
+    private passwordPolicy: PasswordPolicyService,
   ) {}
 
   /**
    * Sign Up: Create new user with dynamic role
-   * IMPORTANT: Validates roleId exists before creating user
+   * IMPORTANT: Validates roleId exists and is offered for self sign-up
    */
   async signUp(signUpDto: SignUpDto) {
+    if (!PUBLIC_SIGN_UP_ENABLED) {
+      throw new ForbiddenException(
+        'Public sign-up is disabled. Ask an administrator for an invitation.',
+      );
+    }
+
     // 1. Check if user already exists
     const existingUser = await this.prisma.user.findUnique({
       where: { email: signUpDto.email },
@@ -42,6 +83,11 @@ export class AuthService {
         `Role with ID ${signUpDto.roleId} not found. Please use a valid roleId.`,
       );
     }
+    if (!role.selfSignUp) {
+      throw new ForbiddenException(
+        `The ${role.name} role cannot be requested at sign-up. Ask an administrator for an invitation.`,
+      );
+    }
 
     if (signUpDto.villageId) {
       const village = await this.prisma.village.findUnique({
@@ -54,7 +100,9 @@ export class AuthService {
       }
     }
 
-    // 3. Hash password
+    // 3. Enforce the password policy and hash the password
+    this.passwordPolicy.assertValid(signUpDto.password, signUpDto);
+
     // eslint-disable-next-line @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
     const hashedPassword = (await bcrypt.hash(
       signUpDto.password,
@@ -78,8 +126,15 @@ export class AuthService {
       },
     });
 
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { password, ...userWithoutPassword } = user;
+    await this.auditLogService.log({
+      action: 'AUTH_SIGN_UP',
+      details: `Registration submitted for role ${role.name}`,
+      userId: user.id,
+      targetType: 'USER',
+      targetId: user.id,
+    });
+
+    const userWithoutPassword = omitUserSecrets(user);
     return {
       message:
         'Registration submitted. You will be able to sign in once an administrator approves your account.',
@@ -90,8 +145,11 @@ export class AuthService {
   /**
    * Sign In: Authenticate user and return JWT with flattened permissions
    * This is the CORE of the Dynamic Permission System
+   * Failed attempts are throttled per account and per client IP.
    */
-  async signIn(signInDto: SignInDto) {
+  async signIn(signInDto: SignInDto, ip?: string) {
+    await this.loginThrottleService.assertAllowed(signInDto.email, ip);
+
     // 1. Find user with their role and permissions
     const user = await this.prisma.user.findUnique({
       where: { email: signInDto.email },
@@ -101,10 +159,23 @@ export class AuthService {
     });
 
     if (!user) {
+      await this.logFailedSignIn(signInDto.email, 'unknown email', ip);
       throw new UnauthorizedException('Invalid credentials');
     }
 
     const status = (user as { status?: string }).status;
+    if (
+      status === 'PENDING' ||
+      status === 'REJECTED' ||
+      status === 'DEACTIVATED'
+    ) {
+      await this.logFailedSignIn(
+        signInDto.email,
+        `account ${status.toLowerCase()}`,
+        ip,
+        user.id,
+      );
+    }
     if (status === 'PENDING') {
       throw new UnauthorizedException(
         'Your account is pending approval. Please wait for an administrator to approve your registration.',
@@ -115,6 +186,11 @@ export class AuthService {
         'Your registration was rejected. Contact an administrator for more information.',
       );
     }
+    if (status === 'DEACTIVATED') {
+      throw new UnauthorizedException(
+        'Your account has been deactivated. Contact an administrator.',
+      );
+    }
 
     // 2. Verify password
     // eslint-disable-next-line @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
@@ -124,23 +200,134 @@ export class AuthService {
     )) as boolean;
 
     if (!isPasswordValid) {
+      await this.logFailedSignIn(
+        signInDto.email,
+        'wrong password',
+        ip,
+        user.id,
+      );
       throw new UnauthorizedException('Invalid credentials');
     }
 
-    // 3. Create JWT payload with FLATTENED PERMISSIONS
+    // 3. Second factor: enrolled users confirm a code; roles requiring
+    // 2FA force enrolment before the first session is issued
+    if (user.twoFactorEnabled) {
+      return {
+        two_factor_required: true,
+        challenge_token: this.signTwoFactorChallenge(user.id, 'verify'),
+      };
+    }
+    if (user.role.requireTwoFactor) {
+      const enrolment = await this.twoFactorService.beginEnrolment(user.id);
+      return {
+        two_factor_setup_required: true,
+        challenge_token: this.signTwoFactorChallenge(user.id, 'enrol'),
+        ...enrolment,
+      };
+    }
+
+    return this.startSession(user);
+  }
+
+  /**
+   * Second sign-in step: exchange the challenge token and a TOTP or
+   * recovery code for a session. For a pending enrolment the first code
+   * enables 2FA and the recovery codes are returned once.
+   */
+  async verifyTwoFactor(dto: VerifyTwoFactorDto, ip?: string) {
+    let challenge: TwoFactorChallenge;
+    try {
+      challenge = this.jwtService.verify<TwoFactorChallenge>(
+        dto.challenge_token,
+        { secret: TWO_FACTOR_CHALLENGE_SECRET },
+      );
+    } catch {
+      throw new UnauthorizedException(
+        'Two-factor challenge is invalid or has expired. Sign in again.',
+      );
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: challenge.sub },
+      include: { role: true },
+    });
+    if (!user || user.status !== 'APPROVED') {
+      throw new UnauthorizedException('Account is no longer active');
+    }
+    // Codes are guessable too: they share the account's failure counter
+    await this.loginThrottleService.assertAllowed(user.email, ip);
+
+    if (challenge.purpose === 'enrol') {
+      let recoveryCodes: string[];
+      try {
+        recoveryCodes = await this.twoFactorService.confirmEnrolment(
+          user.id,
+          dto.code,
+        );
+      } catch (error) {
+        if (error instanceof UnauthorizedException) {
+          await this.logFailedSignIn(
+            user.email,
+            'invalid two-factor enrolment code',
+            ip,
+            user.id,
+          );
+        }
+        throw error;
+      }
+      return {
+        ...(await this.startSession(user, 'TOTP')),
+        recovery_codes: recoveryCodes,
+      };
+    }
+
+    const method = await this.twoFactorService.verify(user.id, dto.code);
+    if (!method) {
+      await this.logFailedSignIn(
+        user.email,
+        'invalid two-factor code',
+        ip,
+        user.id,
+      );
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+    return this.startSession(user, method);
+  }
+
+  /** Issue access and refresh tokens once every sign-in factor is verified */
+  private async startSession(
+    user: SessionUser,
+    twoFactorMethod?: TwoFactorMethod,
+  ) {
+    // Sign a short-lived JWT with FLATTENED PERMISSIONS
     // This is what makes the system dynamic and future-proof
-    const payload: JwtPayload = {
-      sub: user.id,
-      email: user.email,
-      role: user.role.name, // Role name for display
-      permissions: user.role.permissions, // Flattened permissions array
-    };
+    const accessToken = this.signAccessToken(user);
+
+    await this.loginThrottleService.recordSuccess(user.email);
 
-    // 4. Sign JWT token
-    const accessToken = this.jwtService.sign(payload);
+    // Start a refresh token session
+    const { token: refreshToken } = await this.refreshTokenService.issue(
+      user.id,
+    );
+
+    const secondFactor =
+      twoFactorMethod === 'RECOVERY_CODE'
+        ? ' (2FA recovery code)'
+        : twoFactorMethod
+          ? ' (2FA)'
+          : '';
+    await this.auditLogService.log({
+      action: 'AUTH_SIGN_IN',
+      details: `Signed in as ${user.role.name}${secondFactor}`,
+      userId: user.id,
+      targetType: 'USER',
+      targetId: user.id,
+    });
 
     return {
       access_token: accessToken,
+      refresh_token: refreshToken,
+      expires_in: ACCESS_TOKEN_TTL_SECONDS,
       user: {
         id: user.id,
         email: user.email,
@@ -152,12 +339,125 @@ export class AuthService {
     };
   }
 
+  /**
+   * Refresh: rotate the refresh token and sign a new access token
+   * with the user's current role and permissions
+   */
+  async refresh(refreshTokenDto: RefreshTokenDto) {
+    const { userId, token } = await this.refreshTokenService.rotate(
+      refreshTokenDto.refresh_token,
+    );
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      include: { role: true },
+    });
+
+    if (!user || user.status !== 'APPROVED') {
+      await this.refreshTokenService.revokeAllForUser(
+        userId,
+        user ? 'USER_REJECTED' : 'USER_DELETED',
+      );
+      throw new UnauthorizedException('Account is no longer active');
+    }
+
+    // Role started requiring 2FA: the session must be re-established with it
+    if (user.role.requireTwoFactor && !user.twoFactorEnabled) {
+      await this.refreshTokenService.revokeAllForUser(
+        userId,
+        'TWO_FACTOR_REQUIRED',
+      );
+      throw new UnauthorizedException(
+        'Two-factor authentication is now required for your role. Sign in again to enrol.',
+      );
+    }
+
+    return {
+      access_token: this.signAccessToken(user),
+      refresh_token: token,
+      expires_in: ACCESS_TOKEN_TTL_SECONDS,
+    };
+  }
+
+  /**
+   * Logout: revoke the session of the given refresh token.
+   * The current access token stays valid until it expires (short TTL).
+   */
+  async logout(refreshTokenDto: RefreshTokenDto) {
+    const userId = await this.refreshTokenService.revoke(
+      refreshTokenDto.refresh_token,
+    );
+
+    if (userId) {
+      await this.auditLogService.log({
+        action: 'AUTH_SIGN_OUT',
+        details: 'Session revoked',
+        userId,
+        targetType: 'USER',
+        targetId: userId,
+      });
+    }
+
+    return { message: 'Logged out successfully' };
+  }
+
+  private signTwoFactorChallenge(
+    userId: string,
+    purpose: TwoFactorChallenge['purpose'],
+  ) {
+    const challenge: TwoFactorChallenge = { sub: userId, purpose };
+    return this.jwtService.sign(challenge, {
+      secret: TWO_FACTOR_CHALLENGE_SECRET,
+      expiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS,
+    });
+  }
+
+  private signAccessToken(user: {
+    id: string;
+    email: string;
+    role: { name: string; permissions: string[] };
+  }) {
+    const payload: JwtPayload = {
+      sub: user.id,
+      email: user.email,
+      role: user.role.name, // Role name for display
+      permissions: user.role.permissions, // Flattened permissions array
+    };
+    return this.jwtService.sign(payload);
+  }
+
+  /**
+   * Record a rejected sign-in attempt. The actor is unknown (userId null);
+   * the target is the account when the email exists. The attempt also
+   * counts towards the account and IP lockout thresholds.
+   */
+  private async logFailedSignIn(
+    email: string,
+    reason: string,
+    ip?: string,
+    accountId?: string,
+  ) {
+    await this.auditLogService.log({
+      action: 'AUTH_SIGN_IN_FAILED',
+      details: `Failed sign-in for ${email}: ${reason}`,
+      userId: null,
+      targetType: 'USER',
+      targetId: accountId ?? null,
+    });
+    await this.loginThrottleService.recordFailure(email, ip, accountId);
+  }
+
   /**
    * List roles for sign-up form (public).
    * Returns only id, name, description so users can choose a role when registering.
+   * Only roles marked selfSignUp are offered (none when sign-up is disabled).
    */
   async getRolesForSignUp() {
+    if (!PUBLIC_SIGN_UP_ENABLED) {
+      return [];
+    }
     return this.prisma.role.findMany({
+      where: { selfSignUp: true },
       select: { id: true, name: true, description: true },
       orderBy: { name: 'asc' },
     });
@@ -176,8 +476,7 @@ export class AuthService {
       throw new UnauthorizedException('User not found');
     }
 
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { password, ...userWithoutPassword } = user;
+    const userWithoutPassword = omitUserSecrets(user);
     return userWithoutPassword;
   }
 }
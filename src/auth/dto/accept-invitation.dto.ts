@@ -0,0 +1,31 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AcceptInvitationDto {
+  @ApiProperty({
+    example: 'Yk2p8Vd0...',
+    description: 'Token from the invitation link sent by mail',
+  })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+
+  @ApiProperty({ example: 'Amira', description: 'User first name' })
+  @IsString()
+  @IsNotEmpty()
+  firstName: string;
+
+  @ApiProperty({ example: 'Ben Salah', description: 'User last name' })
+  @IsString()
+  @IsNotEmpty()
+  lastName: string;
+
+  @ApiProperty({
+    example: 'Gammarth-Village-2026',
+    description:
+      'Password for the new account. Must satisfy the password policy (GET /auth/password/policy).',
+  })
+  @IsString()
+  @IsNotEmpty()
+  password: string;
+}
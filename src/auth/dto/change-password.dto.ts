@@ -0,0 +1,21 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ChangePasswordDto {
+  @ApiProperty({
+    example: 'Gammarth-Village-2026',
+    description: 'Current password',
+  })
+  @IsString()
+  @IsNotEmpty()
+  currentPassword: string;
+
+  @ApiProperty({
+    example: 'Nouveau-Mot-2026',
+    description:
+      'New password. Must satisfy the password policy (GET /auth/password/policy).',
+  })
+  @IsString()
+  @IsNotEmpty()
+  newPassword: string;
+}
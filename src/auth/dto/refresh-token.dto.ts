@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RefreshTokenDto {
+  @ApiProperty({
+    example: 'q3Xz9k0V...',
+    description: 'Refresh token returned by sign-in or by the last refresh',
+  })
+  @IsString()
+  @IsNotEmpty()
+  refresh_token: string;
+}
@@ -0,0 +1,21 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ResetPasswordDto {
+  @ApiProperty({
+    example: 'tV0x3Jw9...',
+    description: 'Token from the reset link sent by mail (single use)',
+  })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+
+  @ApiProperty({
+    example: 'Nouveau-Mot-2026',
+    description:
+      'New password. Must satisfy the password policy (GET /auth/password/policy).',
+  })
+  @IsString()
+  @IsNotEmpty()
+  newPassword: string;
+}
@@ -17,8 +17,9 @@ export class SignUpDto {
   email: string;
 
   @ApiProperty({
-    example: 'securePassword123',
-    description: 'User password (minimum 8 characters)',
+    example: 'Gammarth-Village-2026',
+    description:
+      'User password (minimum 8 characters; the password policy from GET /auth/password/policy also applies)',
     minLength: 8,
   })
   @IsString()
@@ -0,0 +1,13 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TwoFactorCodeDto {
+  @ApiProperty({
+    example: '123456',
+    description:
+      'Current 6-digit code from the authenticator app, or an unused recovery code',
+  })
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+}
@@ -0,0 +1,13 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { TwoFactorCodeDto } from './two-factor-code.dto';
+
+export class VerifyTwoFactorDto extends TwoFactorCodeDto {
+  @ApiProperty({
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+    description: 'challenge_token returned by POST /auth/sign-in',
+  })
+  @IsString()
+  @IsNotEmpty()
+  challenge_token: string;
+}
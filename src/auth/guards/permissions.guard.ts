@@ -3,25 +3,46 @@ import {
   CanActivate,
   ExecutionContext,
   ForbiddenException,
+  UnauthorizedException,
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { PERMISSIONS_KEY } from '../decorators/permissions.decorator';
 import { JwtPayload } from '../dto/jwt-payload.dto';
+import { PermissionResolverService } from '../permission-resolver.service';
 
 /**
  * Guard that checks if user has required permissions
  * Works with @Permissions() decorator
  *
  * This implements the Dynamic Permissions system:
- * - Checks permissions array in JWT payload (not role name)
+ * - Resolves the user's CURRENT role permissions (not the ones frozen in the JWT)
+ * - Refreshes request.user so handlers see the live role and permissions
  * - Allows SuperAdmin to add/modify permissions without code changes
  * - Future-proof for 5+ years requirement
  */
 @Injectable()
 export class PermissionsGuard implements CanActivate {
-  constructor(private reflector: Reflector) {}
+  constructor(
+    private reflector: Reflector,
+    private permissionResolver: PermissionResolverService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    // Get user from request (set by JwtAuthGuard)
+    const request = context.switchToHttp().getRequest<{ user: JwtPayload }>();
+
+    if (request.user) {
+      const resolved = await this.permissionResolver.resolve(request.user.sub);
+      if (!resolved) {
+        throw new UnauthorizedException('Account is no longer active');
+      }
+      request.user = {
+        ...request.user,
+        role: resolved.role,
+        permissions: resolved.permissions,
+      };
+    }
 
-  canActivate(context: ExecutionContext): boolean {
     // Get required permissions from @Permissions() decorator
     const requiredPermissions = this.reflector.getAllAndOverride<string[]>(
       PERMISSIONS_KEY,
@@ -33,8 +54,6 @@ export class PermissionsGuard implements CanActivate {
       return true;
     }
 
-    // Get user from request (set by JwtAuthGuard)
-    const request = context.switchToHttp().getRequest<{ user: JwtPayload }>();
     const user: JwtPayload = request.user;
 
     if (!user || !user.permissions) {
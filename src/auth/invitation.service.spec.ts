@@ -0,0 +1,79 @@
+import { ForbiddenException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { InvitationService } from './invitation.service';
+import { PermissionResolverService } from './permission-resolver.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogService } from '../audit-log/audit-log.service';
+import { MailService } from '../mail/mail.service';
+
+const assignment = {
+  email: 'nouveau@sos.tn',
+  roleId: 'role1',
+  villageId: 'v1',
+};
+
+describe('InvitationService', () => {
+  let service: InvitationService;
+  const prisma = {
+    user: { findUnique: jest.fn() },
+    role: { findUnique: jest.fn() },
+    village: { count: jest.fn() },
+  };
+  const permissionResolver = {
+    resolve: jest.fn(),
+    assertVillageAccess: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InvitationService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: AuditLogService, useValue: { log: jest.fn() } },
+        { provide: MailService, useValue: { sendInvitation: jest.fn() } },
+        { provide: PermissionResolverService, useValue: permissionResolver },
+        { provide: PasswordPolicyService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<InvitationService>(InvitationService);
+    prisma.user.findUnique.mockResolvedValue(null);
+    prisma.village.count.mockResolvedValue(1);
+    permissionResolver.resolve.mockResolvedValue({
+      role: 'Directeur',
+      permissions: ['USER_CREATE', 'REPORT_READ', 'REPORT_CREATE'],
+      villageIds: ['v1'],
+    });
+  });
+
+  it('accepts a role within the administrator permissions', async () => {
+    prisma.role.findUnique.mockResolvedValue({
+      id: 'role1',
+      name: 'Mère SOS',
+      permissions: ['REPORT_CREATE', 'REPORT_READ'],
+    });
+
+    await expect(
+      service.validateAssignment('directeur', assignment),
+    ).resolves.toMatchObject({ name: 'Mère SOS' });
+  });
+
+  it('refuses a role granting permissions the administrator lacks', async () => {
+    prisma.role.findUnique.mockResolvedValue({
+      id: 'role1',
+      name: 'SuperAdmin',
+      permissions: ['REPORT_READ', 'ROLE_UPDATE', 'USER_DELETE'],
+    });
+
+    await expect(
+      service.validateAssignment('directeur', assignment),
+    ).rejects.toThrow(
+      new ForbiddenException(
+        'You cannot assign role "SuperAdmin": it grants permissions you do not hold (ROLE_UPDATE, USER_DELETE)',
+      ),
+    );
+    expect(permissionResolver.assertVillageAccess).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,229 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogService } from '../audit-log/audit-log.service';
+import { MailService } from '../mail/mail.service';
+import { PermissionResolverService } from './permission-resolver.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { APP_URL } from '../common/config/mail.config';
+import { INVITATION_TTL_HOURS } from '../common/config/sign-up.config';
+import { omitUserSecrets } from '../common/utils/omit-user-secrets';
+import { AcceptInvitationDto } from './dto/accept-invitation.dto';
+
+/** Role and villages an administrator gives to a new account */
+export interface AccountAssignment {
+  email: string;
+  roleId: string;
+  villageId?: string;
+  coveredVillageIds?: string[];
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Invitations: an administrator binds an email to a role and villages and
+ * the invitee creates the account (already approved) from the mailed link.
+ */
+@Injectable()
+export class InvitationService {
+  constructor(
+    private prisma: PrismaService,
+    private auditLogService: AuditLogService,
+    private mailService: MailService,
+    private permissionResolver: PermissionResolverService,
+    private passwordPolicy: PasswordPolicyService,
+  ) {}
+
+  /**
+   * Check an assignment made by an administrator: the email is free, the
+   * role and villages exist, the admin holds every permission of the role
+   * and the villages are within the admin's scope.
+   */
+  async validateAssignment(adminId: string, assignment: AccountAssignment) {
+    const existingUser = await this.prisma.user.findUnique({
+      where: { email: assignment.email },
+    });
+    if (existingUser) {
+      throw new BadRequestException('User with this email already exists');
+    }
+
+    const role = await this.prisma.role.findUnique({
+      where: { id: assignment.roleId },
+    });
+    if (!role) {
+      throw new NotFoundException(
+        `Role with ID ${assignment.roleId} not found`,
+      );
+    }
+
+    // Nobody grants more than they hold (e.g. SuperAdmin through USER_CREATE)
+    const admin = await this.permissionResolver.resolve(adminId);
+    const beyondAdmin = role.permissions.filter(
+      (p) => !admin?.permissions.includes(p),
+    );
+    if (beyondAdmin.length > 0) {
+      throw new ForbiddenException(
+        `You cannot assign role "${role.name}": it grants permissions you do not hold (${beyondAdmin.join(', ')})`,
+      );
+    }
+
+    const villageIds = [
+      ...new Set(
+        [assignment.villageId, ...(assignment.coveredVillageIds ?? [])].filter(
+          (id): id is string => !!id,
+        ),
+      ),
+    ];
+    const found = await this.prisma.village.count({
+      where: { id: { in: villageIds } },
+    });
+    if (found !== villageIds.length) {
+      throw new NotFoundException(
+        'One or more villages not found. Use GET /villages to list villages.',
+      );
+    }
+    for (const villageId of villageIds) {
+      await this.permissionResolver.assertVillageAccess(adminId, villageId);
+    }
+
+    return role;
+  }
+
+  /** Mail an invitation link; replaces any pending invitation for the email */
+  async invite(adminId: string, assignment: AccountAssignment) {
+    const role = await this.validateAssignment(adminId, assignment);
+
+    await this.prisma.userInvitation.deleteMany({
+      where: { email: assignment.email, acceptedAt: null },
+    });
+
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(
+      Date.now() + INVITATION_TTL_HOURS * 60 * 60 * 1000,
+    );
+    const invitation = await this.prisma.userInvitation.create({
+      data: {
+        tokenHash: hashToken(token),
+        email: assignment.email,
+        roleId: role.id,
+        villageId: assignment.villageId,
+        coveredVillageIds: [...new Set(assignment.coveredVillageIds ?? [])],
+        invitedById: adminId,
+        expiresAt,
+      },
+      omit: { tokenHash: true },
+    });
+
+    await this.mailService.sendInvitation(
+      assignment.email,
+      role.name,
+      `${APP_URL}/accept-invitation?token=${token}`,
+      expiresAt,
+    );
+
+    return {
+      message: `Invitation sent to ${assignment.email}`,
+      invitation: { ...invitation, role: { id: role.id, name: role.name } },
+    };
+  }
+
+  /** Invitations that were neither accepted nor have expired */
+  async findPending() {
+    return this.prisma.userInvitation.findMany({
+      where: { acceptedAt: null, expiresAt: { gt: new Date() } },
+      omit: { tokenHash: true },
+      include: { role: { select: { id: true, name: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async revoke(invitationId: string) {
+    const invitation = await this.prisma.userInvitation.findUnique({
+      where: { id: invitationId },
+    });
+    if (!invitation || invitation.acceptedAt) {
+      throw new NotFoundException(
+        `Pending invitation with ID ${invitationId} not found`,
+      );
+    }
+
+    await this.prisma.userInvitation.delete({ where: { id: invitationId } });
+    return { message: `Invitation for ${invitation.email} revoked` };
+  }
+
+  /** Create the invited account (approved, with the invitation's role) */
+  async accept(dto: AcceptInvitationDto) {
+    const invitation = await this.prisma.userInvitation.findUnique({
+      where: { tokenHash: hashToken(dto.token) },
+    });
+    if (
+      !invitation ||
+      invitation.acceptedAt ||
+      invitation.expiresAt <= new Date()
+    ) {
+      throw new BadRequestException('Invitation is invalid or has expired');
+    }
+
+    const existingUser = await this.prisma.user.findUnique({
+      where: { email: invitation.email },
+    });
+    if (existingUser) {
+      throw new BadRequestException('User with this email already exists');
+    }
+    this.passwordPolicy.assertValid(dto.password, {
+      email: invitation.email,
+      firstName: dto.firstName,
+      lastName: dto.lastName,
+    });
+
+    // Claim the invitation so the link cannot create a second account
+    const { count } = await this.prisma.userInvitation.updateMany({
+      where: { id: invitation.id, acceptedAt: null },
+      data: { acceptedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new BadRequestException('Invitation is invalid or has expired');
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+    const hashedPassword = (await bcrypt.hash(dto.password, 10)) as string;
+    const user = await this.prisma.user.create({
+      data: {
+        email: invitation.email,
+        password: hashedPassword,
+        firstName: dto.firstName,
+        lastName: dto.lastName,
+        roleId: invitation.roleId,
+        villageId: invitation.villageId,
+        coveredVillageIds: invitation.coveredVillageIds,
+        status: 'APPROVED',
+      },
+      include: { role: true, village: { select: { id: true, name: true } } },
+    });
+    await this.prisma.userInvitation.update({
+      where: { id: invitation.id },
+      data: { acceptedUserId: user.id },
+    });
+
+    await this.auditLogService.log({
+      action: 'AUTH_INVITATION_ACCEPTED',
+      details: `Account created from invitation as ${user.role.name}`,
+      userId: user.id,
+      targetType: 'USER',
+      targetId: user.id,
+    });
+
+    return {
+      message: 'Account created. You can now sign in.',
+      user: omitUserSecrets(user),
+    };
+  }
+}
@@ -0,0 +1,109 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  InMemoryLoginAttemptStore,
+  LOGIN_ATTEMPT_STORE,
+  LoginThrottleService,
+} from './login-throttle.service';
+import { AuditLogService } from '../audit-log/audit-log.service';
+
+describe('LoginThrottleService', () => {
+  let service: LoginThrottleService;
+  let now: number;
+  const auditLogService = { log: jest.fn() };
+
+  const fail = async (times: number, email: string, ip?: string) => {
+    for (let i = 0; i < times; i++) {
+      await service.recordFailure(email, ip, 'u1');
+      now += 60 * 1000; // wait out the backoff between attempts
+    }
+  };
+
+  beforeEach(async () => {
+    now = Date.UTC(2026, 0, 1);
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    auditLogService.log.mockClear();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginThrottleService,
+        { provide: LOGIN_ATTEMPT_STORE, useClass: InMemoryLoginAttemptStore },
+        { provide: AuditLogService, useValue: auditLogService },
+      ],
+    }).compile();
+
+    service = module.get<LoginThrottleService>(LoginThrottleService);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('doubles the wait after each failure', async () => {
+    await service.recordFailure('a@sos.tn', '10.0.0.1');
+    await expect(
+      service.assertAllowed('a@sos.tn', '10.0.0.1'),
+    ).resolves.toBeUndefined();
+
+    await service.recordFailure('a@sos.tn', '10.0.0.1');
+    await expect(service.assertAllowed('a@sos.tn')).rejects.toThrow(
+      'Please wait 1 seconds',
+    );
+
+    await service.recordFailure('a@sos.tn', '10.0.0.1');
+    await expect(service.assertAllowed('a@sos.tn')).rejects.toThrow(
+      'Please wait 2 seconds',
+    );
+    now += 2000;
+    await expect(service.assertAllowed('a@sos.tn')).resolves.toBeUndefined();
+  });
+
+  it('locks the account after 5 failures and audits it', async () => {
+    await fail(5, 'A@sos.tn', '10.0.0.1');
+
+    const error = await service
+      .assertAllowed('a@sos.tn', '10.0.0.2')
+      .catch((e: HttpException) => e);
+    expect(error).toBeInstanceOf(HttpException);
+    expect((error as HttpException).getStatus()).toBe(
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+    expect(auditLogService.log).toHaveBeenCalledTimes(1);
+    expect(auditLogService.log).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'AUTH_ACCOUNT_LOCKED',
+        targetId: 'u1',
+      }),
+    );
+
+    now += 15 * 60 * 1000;
+    await expect(service.assertAllowed('a@sos.tn')).resolves.toBeUndefined();
+  });
+
+  it('locks an IP that fails across many accounts', async () => {
+    for (let i = 0; i < 20; i++) {
+      await service.recordFailure(`user${i}@sos.tn`, '10.0.0.1');
+    }
+
+    await expect(
+      service.assertAllowed('new@sos.tn', '10.0.0.1'),
+    ).rejects.toThrow('from this address');
+    await expect(
+      service.assertAllowed('new@sos.tn', '10.0.0.2'),
+    ).resolves.toBeUndefined();
+    expect(auditLogService.log).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'AUTH_IP_LOCKED' }),
+    );
+  });
+
+  it('clears the account counter on success and on unlock', async () => {
+    await fail(4, 'a@sos.tn');
+    await service.recordSuccess('a@sos.tn');
+    await fail(4, 'a@sos.tn');
+    await expect(service.assertAllowed('a@sos.tn')).resolves.toBeUndefined();
+
+    await fail(1, 'a@sos.tn');
+    await expect(service.assertAllowed('a@sos.tn')).rejects.toThrow(
+      HttpException,
+    );
+    await service.unlock('a@sos.tn');
+    await expect(service.assertAllowed('a@sos.tn')).resolves.toBeUndefined();
+  });
+});
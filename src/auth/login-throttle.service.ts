@@ -0,0 +1,183 @@
+import {
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { AuditLogService } from '../audit-log/audit-log.service';
+import {
+  LOGIN_IP_MAX_FAILURES,
+  LOGIN_LOCKOUT_MINUTES,
+  LOGIN_MAX_FAILURES,
+} from '../common/config/login-throttle.config';
+
+export interface LoginAttempt {
+  failures: number;
+  lastFailureAt: number;
+  lockedUntil: number | null;
+}
+
+/**
+ * Storage of failed sign-in counters. The default implementation keeps them
+ * in process memory; a shared store (e.g. Redis) can be provided under
+ * LOGIN_ATTEMPT_STORE when running several instances.
+ */
+export interface LoginAttemptStore {
+  get(key: string): Promise<LoginAttempt | null>;
+  set(key: string, attempt: LoginAttempt, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export const LOGIN_ATTEMPT_STORE = 'LOGIN_ATTEMPT_STORE';
+
+@Injectable()
+export class InMemoryLoginAttemptStore implements LoginAttemptStore {
+  private entries = new Map<
+    string,
+    { attempt: LoginAttempt; expiresAt: number }
+  >();
+
+  get(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return Promise.resolve(null);
+    }
+    return Promise.resolve(entry.attempt);
+  }
+
+  set(key: string, attempt: LoginAttempt, ttlMs: number) {
+    this.entries.set(key, { attempt, expiresAt: Date.now() + ttlMs });
+    return Promise.resolve();
+  }
+
+  delete(key: string) {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+}
+
+const LOCKOUT_MS = LOGIN_LOCKOUT_MINUTES * 60 * 1000;
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 60 * 1000;
+
+type Scope = 'account' | 'ip';
+
+/**
+ * Brute-force protection for sign-in. Failed attempts are counted per
+ * account (email) and per client IP: each failure doubles the wait before
+ * the next attempt, and N failures lock the account or IP temporarily.
+ */
+@Injectable()
+export class LoginThrottleService {
+  private readonly logger = new Logger(LoginThrottleService.name);
+
+  constructor(
+    @Inject(LOGIN_ATTEMPT_STORE) private store: LoginAttemptStore,
+    private auditLogService: AuditLogService,
+  ) {}
+
+  /** Throw 429 while the account or IP is locked or backing off */
+  async assertAllowed(email: string, ip?: string) {
+    const now = Date.now();
+    for (const [scope, key] of this.keys(email, ip)) {
+      const attempt = await this.store.get(key);
+      if (!attempt) {
+        continue;
+      }
+
+      const retryAt = attempt.lockedUntil ?? this.backoffUntil(attempt);
+      if (retryAt > now) {
+        const seconds = Math.ceil((retryAt - now) / 1000);
+        throw new HttpException(
+          attempt.lockedUntil
+            ? `Too many failed sign-in attempts${scope === 'ip' ? ' from this address' : ''}. Try again in ${seconds} seconds or contact an administrator.`
+            : `Please wait ${seconds} seconds before trying again.`,
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      }
+    }
+  }
+
+  /** Count a failed attempt; locks and audits once a threshold is reached */
+  async recordFailure(email: string, ip?: string, accountId?: string) {
+    const now = Date.now();
+    for (const [scope, key] of this.keys(email, ip)) {
+      const previous = await this.store.get(key);
+      // A served lockout starts a fresh count
+      const failures =
+        previous && !(previous.lockedUntil && previous.lockedUntil <= now)
+          ? previous.failures + 1
+          : 1;
+      const max =
+        scope === 'account' ? LOGIN_MAX_FAILURES : LOGIN_IP_MAX_FAILURES;
+      const lockedUntil = failures >= max ? now + LOCKOUT_MS : null;
+
+      await this.store.set(
+        key,
+        { failures, lastFailureAt: now, lockedUntil },
+        LOCKOUT_MS,
+      );
+
+      if (lockedUntil) {
+        await this.logLockout(scope, email, ip, failures, accountId);
+      }
+    }
+  }
+
+  /** Successful sign-in: clear the account counter (the IP counter decays) */
+  async recordSuccess(email: string) {
+    await this.store.delete(this.accountKey(email));
+  }
+
+  /** Administrative unlock of an account */
+  async unlock(email: string) {
+    await this.store.delete(this.accountKey(email));
+  }
+
+  private backoffUntil(attempt: LoginAttempt) {
+    if (attempt.failures < 2) {
+      return 0;
+    }
+    const delay = Math.min(
+      BACKOFF_BASE_MS * 2 ** (attempt.failures - 2),
+      BACKOFF_MAX_MS,
+    );
+    return attempt.lastFailureAt + delay;
+  }
+
+  private keys(email: string, ip?: string): [Scope, string][] {
+    const keys: [Scope, string][] = [['account', this.accountKey(email)]];
+    if (ip) {
+      keys.push(['ip', `ip:${ip}`]);
+    }
+    return keys;
+  }
+
+  private accountKey(email: string) {
+    return `account:${email.trim().toLowerCase()}`;
+  }
+
+  private async logLockout(
+    scope: Scope,
+    email: string,
+    ip: string | undefined,
+    failures: number,
+    accountId?: string,
+  ) {
+    this.logger.warn(
+      `Sign-in locked for ${scope === 'account' ? email : ip} after ${failures} failures`,
+    );
+    await this.auditLogService.log({
+      action: scope === 'account' ? 'AUTH_ACCOUNT_LOCKED' : 'AUTH_IP_LOCKED',
+      details:
+        scope === 'account'
+          ? `Account ${email} locked for ${LOGIN_LOCKOUT_MINUTES} minutes after ${failures} failed sign-in attempts (last from ${ip ?? 'unknown address'})`
+          : `Address ${ip} locked for ${LOGIN_LOCKOUT_MINUTES} minutes after ${failures} failed sign-in attempts (last for ${email})`,
+      userId: null,
+      targetType: 'USER',
+      targetId: scope === 'account' ? (accountId ?? null) : null,
+    });
+  }
+}
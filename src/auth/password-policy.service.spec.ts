@@ -0,0 +1,35 @@
+import { BadRequestException } from '@nestjs/common';
+import { PasswordPolicyService } from './password-policy.service';
+
+describe('PasswordPolicyService', () => {
+  const service = new PasswordPolicyService();
+  const user = {
+    email: 'amira.ben@sos.tn',
+    firstName: 'Amira',
+    lastName: 'Ben',
+  };
+
+  it('accepts a password meeting every rule', () => {
+    expect(service.validate('Gammarth-Village-2026', user)).toEqual([]);
+  });
+
+  it('lists each broken rule', () => {
+    expect(service.validate('short', user)).toEqual([
+      'at least 10 characters',
+      'an uppercase letter',
+      'a digit',
+    ]);
+  });
+
+  it('rejects personal information and common passwords', () => {
+    expect(service.validate('Amira-2026-Tunis', user)).toEqual([
+      'no part of your name or email',
+    ]);
+    expect(service.validate('MyPassword2026', user)).toEqual([
+      'no common password',
+    ]);
+    expect(() => service.assertValid('Azerty12345', user)).toThrow(
+      BadRequestException,
+    );
+  });
+});
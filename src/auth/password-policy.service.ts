@@ -0,0 +1,97 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import {
+  PASSWORD_MIN_LENGTH,
+  PASSWORD_REQUIRE_DIGIT,
+  PASSWORD_REQUIRE_LOWERCASE,
+  PASSWORD_REQUIRE_SYMBOL,
+  PASSWORD_REQUIRE_UPPERCASE,
+} from '../common/config/password.config';
+
+// bcrypt ignores everything after 72 bytes
+const MAX_LENGTH = 72;
+
+const COMMON_PASSWORDS = [
+  'password',
+  'motdepasse',
+  'azerty',
+  'qwerty',
+  '123456',
+  'admin',
+  'welcome',
+  'bienvenue',
+  'sosvillage',
+];
+
+/** Personal details a password must not contain */
+export interface PasswordContext {
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+}
+
+/**
+ * Configurable password strength rules (see password.config.ts), applied
+ * whenever a password is set: sign-up, change and reset.
+ */
+@Injectable()
+export class PasswordPolicyService {
+  /** Rules in effect, for display next to password fields */
+  describe() {
+    return {
+      minLength: PASSWORD_MIN_LENGTH,
+      maxLength: MAX_LENGTH,
+      requireUppercase: PASSWORD_REQUIRE_UPPERCASE,
+      requireLowercase: PASSWORD_REQUIRE_LOWERCASE,
+      requireDigit: PASSWORD_REQUIRE_DIGIT,
+      requireSymbol: PASSWORD_REQUIRE_SYMBOL,
+      forbidsPersonalInformation: true,
+      forbidsCommonPasswords: true,
+    };
+  }
+
+  /** List the rules the password breaks (empty when it is acceptable) */
+  validate(password: string, context: PasswordContext = {}): string[] {
+    const problems: string[] = [];
+    if (password.length < PASSWORD_MIN_LENGTH) {
+      problems.push(`at least ${PASSWORD_MIN_LENGTH} characters`);
+    }
+    if (Buffer.byteLength(password) > MAX_LENGTH) {
+      problems.push(`at most ${MAX_LENGTH} bytes`);
+    }
+    if (PASSWORD_REQUIRE_UPPERCASE && !/[A-Z]/.test(password)) {
+      problems.push('an uppercase letter');
+    }
+    if (PASSWORD_REQUIRE_LOWERCASE && !/[a-z]/.test(password)) {
+      problems.push('a lowercase letter');
+    }
+    if (PASSWORD_REQUIRE_DIGIT && !/\d/.test(password)) {
+      problems.push('a digit');
+    }
+    if (PASSWORD_REQUIRE_SYMBOL && !/[^A-Za-z0-9]/.test(password)) {
+      problems.push('a symbol');
+    }
+
+    const lower = password.toLowerCase();
+    const personal = [
+      context.email?.split('@')[0],
+      context.firstName,
+      context.lastName,
+    ].filter((part): part is string => !!part && part.length >= 3);
+    if (personal.some((part) => lower.includes(part.toLowerCase()))) {
+      problems.push('no part of your name or email');
+    }
+    if (COMMON_PASSWORDS.some((common) => lower.includes(common))) {
+      problems.push('no common password');
+    }
+    return problems;
+  }
+
+  assertValid(password: string, context: PasswordContext = {}) {
+    const problems = this.validate(password, context);
+    if (problems.length > 0) {
+      throw new BadRequestException(
+        `Password must contain ${problems.join(', ')}`,
+      );
+    }
+  }
+}
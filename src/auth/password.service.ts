@@ -0,0 +1,166 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogService } from '../audit-log/audit-log.service';
+import { MailService } from '../mail/mail.service';
+import { RefreshTokenService } from './refresh-token.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { APP_URL } from '../common/config/mail.config';
+import { PASSWORD_RESET_TTL_MINUTES } from '../common/config/password.config';
+import { ChangePasswordDto } from './dto/change-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Password change by the signed-in user and administrator-initiated reset
+ * through a single-use, expiring link sent by mail. Setting a password
+ * signs the user out of every session.
+ */
+@Injectable()
+export class PasswordService {
+  constructor(
+    private prisma: PrismaService,
+    private auditLogService: AuditLogService,
+    private mailService: MailService,
+    private refreshTokenService: RefreshTokenService,
+    private passwordPolicy: PasswordPolicyService,
+    private loginThrottleService: LoginThrottleService,
+  ) {}
+
+  async changePassword(userId: string, dto: ChangePasswordDto) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+    const isCurrentValid = (await bcrypt.compare(
+      dto.currentPassword,
+      user.password,
+    )) as boolean;
+    if (!isCurrentValid) {
+      await this.log(
+        'AUTH_PASSWORD_CHANGE_FAILED',
+        'Password change refused: wrong current password',
+        userId,
+      );
+      throw new UnauthorizedException('Current password is incorrect');
+    }
+    if (dto.newPassword === dto.currentPassword) {
+      throw new BadRequestException(
+        'New password must differ from the current one',
+      );
+    }
+
+    await this.setPassword(user, dto.newPassword, 'PASSWORD_CHANGED');
+    await this.log('AUTH_PASSWORD_CHANGED', 'Password changed', userId);
+
+    return {
+      message:
+        'Password changed. All sessions were signed out; sign in again with the new password.',
+    };
+  }
+
+  /**
+   * Mail a reset link to the user. Earlier unused links stop working;
+   * the token itself is never returned to the administrator.
+   */
+  async issueReset(userId: string, issuedById: string) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+
+    await this.prisma.passwordResetToken.deleteMany({
+      where: { userId, usedAt: null },
+    });
+
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(
+      Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000,
+    );
+    await this.prisma.passwordResetToken.create({
+      data: { tokenHash: hashToken(token), userId, issuedById, expiresAt },
+    });
+
+    await this.mailService.sendPasswordReset(
+      user.email,
+      user.firstName,
+      `${APP_URL}/reset-password?token=${token}`,
+      expiresAt,
+    );
+
+    return {
+      message: `Password reset link sent to ${user.email}`,
+      expires_at: expiresAt,
+    };
+  }
+
+  /** Consume a reset token and set the new password */
+  async resetPassword(dto: ResetPasswordDto) {
+    const record = await this.prisma.passwordResetToken.findUnique({
+      where: { tokenHash: hashToken(dto.token) },
+      include: { user: true },
+    });
+    if (!record || record.usedAt || record.expiresAt <= new Date()) {
+      throw new BadRequestException('Reset link is invalid or has expired');
+    }
+
+    // Check the policy before spending the token so the user can retry
+    this.passwordPolicy.assertValid(dto.newPassword, record.user);
+
+    const { count } = await this.prisma.passwordResetToken.updateMany({
+      where: { id: record.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new BadRequestException('Reset link is invalid or has expired');
+    }
+
+    await this.setPassword(record.user, dto.newPassword, 'PASSWORD_RESET');
+    await this.loginThrottleService.unlock(record.user.email);
+    await this.log(
+      'AUTH_PASSWORD_RESET',
+      'Password reset with an emailed link',
+      record.userId,
+    );
+
+    return { message: 'Password reset. You can now sign in.' };
+  }
+
+  private async setPassword(
+    user: { id: string; email: string; firstName: string; lastName: string },
+    password: string,
+    reason: 'PASSWORD_CHANGED' | 'PASSWORD_RESET',
+  ) {
+    this.passwordPolicy.assertValid(password, user);
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+    const hashedPassword = (await bcrypt.hash(password, 10)) as string;
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: { password: hashedPassword, passwordChangedAt: new Date() },
+    });
+    await this.refreshTokenService.revokeAllForUser(user.id, reason);
+  }
+
+  private async log(action: string, details: string, userId: string) {
+    await this.auditLogService.log({
+      action,
+      details,
+      userId,
+      targetType: 'USER',
+      targetId: userId,
+    });
+  }
+}
@@ -0,0 +1,70 @@
+import { ForbiddenException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PermissionResolverService } from './permission-resolver.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('PermissionResolverService', () => {
+  let service: PermissionResolverService;
+
+  const users: Record<string, object> = {
+    national: {
+      status: 'APPROVED',
+      villageId: 'v1',
+      coveredVillageIds: [],
+      role: { name: 'SuperAdmin', permissions: [], scope: 'NATIONAL' },
+    },
+    village: {
+      status: 'APPROVED',
+      villageId: 'v1',
+      coveredVillageIds: ['v2', 'v1'],
+      role: { name: 'Psychologue', permissions: [], scope: 'VILLAGE' },
+    },
+    pending: {
+      status: 'PENDING',
+      villageId: 'v1',
+      coveredVillageIds: [],
+      role: { name: 'Psychologue', permissions: [], scope: 'VILLAGE' },
+    },
+  };
+
+  const prisma = {
+    user: {
+      findUnique: jest.fn(
+        ({ where }: { where: { id: string } }) => users[where.id] ?? null,
+      ),
+    },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PermissionResolverService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<PermissionResolverService>(PermissionResolverService);
+  });
+
+  it('does not restrict national roles', async () => {
+    await expect(service.villageScope('national')).resolves.toBeNull();
+    await expect(service.canAccessVillage('national', 'v9')).resolves.toBe(
+      true,
+    );
+  });
+
+  it('restricts village roles to home and covered villages', async () => {
+    await expect(service.villageScope('village')).resolves.toEqual([
+      'v1',
+      'v2',
+    ]);
+    await expect(service.canAccessVillage('village', 'v2')).resolves.toBe(true);
+    await expect(service.assertVillageAccess('village', 'v3')).rejects.toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('gives inactive users an empty scope', async () => {
+    await expect(service.villageScope('pending')).resolves.toEqual([]);
+  });
+});
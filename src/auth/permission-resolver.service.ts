@@ -0,0 +1,113 @@
+import { ForbiddenException, Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+export interface ResolvedPermissions {
+  role: string;
+  permissions: string[];
+  /** Villages a VILLAGE-scoped role is restricted to; null for NATIONAL roles */
+  villageIds: string[] | null;
+}
+
+/** Users whose scope includes villageId: national roles or village staff covering it */
+export function coversVillageWhere(villageId: string): Prisma.UserWhereInput {
+  return {
+    OR: [
+      { role: { scope: 'NATIONAL' } },
+      { villageId },
+      { coveredVillageIds: { has: villageId } },
+    ],
+  };
+}
+
+// Upper bound on staleness when another instance changed a role
+const CACHE_TTL_MS =
+  (Number(process.env.PERMISSION_CACHE_TTL_SECONDS) || 60) * 1000;
+
+/**
+ * Resolves a user's current role, permissions and village scope from the
+ * database, so role edits apply immediately instead of at next sign-in.
+ * Results are cached in memory; RoleService and UserService invalidate
+ * the cache when roles or role assignments change.
+ */
+@Injectable()
+export class PermissionResolverService {
+  private cache = new Map<
+    string,
+    { value: ResolvedPermissions | null; expiresAt: number }
+  >();
+
+  constructor(private prisma: PrismaService) {}
+
+  /** Current role and permissions, or null if the user no longer exists or is not approved */
+  async resolve(userId: string): Promise<ResolvedPermissions | null> {
+    const cached = this.cache.get(userId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.value;
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        status: true,
+        villageId: true,
+        coveredVillageIds: true,
+        role: { select: { name: true, permissions: true, scope: true } },
+      },
+    });
+
+    const value =
+      user && user.status === 'APPROVED'
+        ? {
+            role: user.role.name,
+            permissions: user.role.permissions,
+            villageIds:
+              user.role.scope === 'VILLAGE'
+                ? [
+                    ...new Set(
+                      [user.villageId, ...user.coveredVillageIds].filter(
+                        (id): id is string => !!id,
+                      ),
+                    ),
+                  ]
+                : null,
+          }
+        : null;
+
+    this.cache.set(userId, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+    return value;
+  }
+
+  /**
+   * Villages the user may access, or null when not restricted (national role).
+   * Unknown or inactive users get an empty scope.
+   */
+  async villageScope(userId: string): Promise<string[] | null> {
+    const resolved = await this.resolve(userId);
+    return resolved ? resolved.villageIds : [];
+  }
+
+  /** Whether a record belonging to villageId is within the user's scope */
+  async canAccessVillage(userId: string, villageId: string): Promise<boolean> {
+    const villageIds = await this.villageScope(userId);
+    return villageIds === null || villageIds.includes(villageId);
+  }
+
+  /** Throw when a record belonging to villageId is outside the user's scope */
+  async assertVillageAccess(userId: string, villageId: string) {
+    if (!(await this.canAccessVillage(userId, villageId))) {
+      throw new ForbiddenException(
+        'This record belongs to a village outside your scope',
+      );
+    }
+  }
+
+  invalidateUser(userId: string) {
+    this.cache.delete(userId);
+  }
+
+  /** Role permissions changed: every user of that role is affected */
+  invalidateAll() {
+    this.cache.clear();
+  }
+}
@@ -0,0 +1,89 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { RefreshToken } from '@prisma/client';
+import { RefreshTokenService } from './refresh-token.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogService } from '../audit-log/audit-log.service';
+
+describe('RefreshTokenService', () => {
+  let service: RefreshTokenService;
+  let tokens: RefreshToken[];
+  const auditLogService = { log: jest.fn() };
+
+  const matches = (token: RefreshToken, where: Partial<RefreshToken>) =>
+    Object.entries(where).every(
+      ([key, value]) => token[key as keyof RefreshToken] === value,
+    );
+
+  const prisma = {
+    refreshToken: {
+      create: jest.fn(({ data }: { data: RefreshToken }) => {
+        const token = {
+          ...data,
+          id: `t${tokens.length + 1}`,
+          revokedAt: null,
+          revokedReason: null,
+          replacedById: null,
+        };
+        tokens.push(token);
+        return token;
+      }),
+      findUnique: jest.fn(
+        ({ where }: { where: Partial<RefreshToken> }) =>
+          tokens.find((t) => matches(t, where)) ?? null,
+      ),
+      update: jest.fn(),
+      updateMany: jest.fn(
+        ({
+          where,
+          data,
+        }: {
+          where: Partial<RefreshToken>;
+          data: Partial<RefreshToken>;
+        }) => {
+          const hits = tokens.filter((t) => matches(t, where));
+          hits.forEach((t) => Object.assign(t, data));
+          return { count: hits.length };
+        },
+      ),
+    },
+  };
+
+  beforeEach(async () => {
+    tokens = [];
+    auditLogService.log.mockClear();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RefreshTokenService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: AuditLogService, useValue: auditLogService },
+      ],
+    }).compile();
+
+    service = module.get<RefreshTokenService>(RefreshTokenService);
+  });
+
+  it('rotates a token within the same session', async () => {
+    const { token } = await service.issue('u1');
+    const rotated = await service.rotate(token);
+
+    expect(rotated.userId).toBe('u1');
+    expect(rotated.token).not.toBe(token);
+    expect(tokens[0].revokedReason).toBe('ROTATED');
+    expect(tokens[1].familyId).toBe(tokens[0].familyId);
+  });
+
+  it('revokes the whole session when a rotated token is reused', async () => {
+    const { token } = await service.issue('u1');
+    const rotated = await service.rotate(token);
+
+    await expect(service.rotate(token)).rejects.toThrow(UnauthorizedException);
+    await expect(service.rotate(rotated.token)).rejects.toThrow(
+      UnauthorizedException,
+    );
+    expect(tokens[1].revokedReason).toBe('REUSE_DETECTED');
+    expect(auditLogService.log).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'AUTH_REFRESH_TOKEN_REUSED' }),
+    );
+  });
+});
@@ -0,0 +1,131 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogService } from '../audit-log/audit-log.service';
+import { REFRESH_TOKEN_TTL_DAYS } from '../common/config/jwt.config';
+
+export type RevokeReason =
+  | 'ROTATED'
+  | 'LOGOUT'
+  | 'REUSE_DETECTED'
+  | 'ROLE_CHANGED'
+  | 'USER_REJECTED'
+  | 'USER_DELETED'
+  | 'USER_DEACTIVATED'
+  | 'TWO_FACTOR_REQUIRED'
+  | 'TWO_FACTOR_RESET'
+  | 'PASSWORD_CHANGED'
+  | 'PASSWORD_RESET';
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Server-side refresh token sessions with rotation.
+ * Each refresh consumes the token and issues a new one in the same family;
+ * presenting an already rotated token revokes the whole family (token theft).
+ */
+@Injectable()
+export class RefreshTokenService {
+  constructor(
+    private prisma: PrismaService,
+    private auditLogService: AuditLogService,
+  ) {}
+
+  /** Create a refresh token. A new familyId starts a new session. */
+  async issue(userId: string, familyId: string = randomUUID()) {
+    const token = randomBytes(48).toString('base64url');
+    const record = await this.prisma.refreshToken.create({
+      data: {
+        tokenHash: hashToken(token),
+        familyId,
+        userId,
+        expiresAt: new Date(
+          Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000,
+        ),
+      },
+    });
+    return { token, record };
+  }
+
+  /** Consume a refresh token and return its replacement */
+  async rotate(token: string) {
+    const current = await this.prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+    });
+
+    if (!current) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    if (current.revokedAt) {
+      if (current.revokedReason === 'ROTATED') {
+        await this.revokeReusedFamily(current.familyId, current.userId);
+      }
+      throw new UnauthorizedException('Refresh token has been revoked');
+    }
+
+    if (current.expiresAt < new Date()) {
+      throw new UnauthorizedException('Refresh token has expired');
+    }
+
+    // Claim the token atomically so two concurrent refreshes cannot both succeed
+    const claimed = await this.prisma.refreshToken.updateMany({
+      where: { id: current.id, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: 'ROTATED' },
+    });
+    if (claimed.count === 0) {
+      await this.revokeReusedFamily(current.familyId, current.userId);
+      throw new UnauthorizedException('Refresh token has been revoked');
+    }
+
+    const next = await this.issue(current.userId, current.familyId);
+    await this.prisma.refreshToken.update({
+      where: { id: current.id },
+      data: { replacedById: next.record.id },
+    });
+
+    return { userId: current.userId, token: next.token };
+  }
+
+  /** Revoke the session a refresh token belongs to (logout) */
+  async revoke(token: string) {
+    const current = await this.prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+    });
+    if (!current) {
+      return null;
+    }
+
+    await this.revokeFamily(current.familyId, 'LOGOUT');
+    return current.userId;
+  }
+
+  /** Revoke every active session of a user (role change, rejection, deletion) */
+  async revokeAllForUser(userId: string, reason: RevokeReason) {
+    const { count } = await this.prisma.refreshToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+    return count;
+  }
+
+  private async revokeFamily(familyId: string, reason: RevokeReason) {
+    await this.prisma.refreshToken.updateMany({
+      where: { familyId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+  }
+
+  private async revokeReusedFamily(familyId: string, userId: string) {
+    await this.revokeFamily(familyId, 'REUSE_DETECTED');
+    await this.auditLogService.log({
+      action: 'AUTH_REFRESH_TOKEN_REUSED',
+      details: `Rotated refresh token presented again; session ${familyId} revoked`,
+      userId: null,
+      targetType: 'USER',
+      targetId: userId,
+    });
+  }
+}
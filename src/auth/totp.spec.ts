@@ -0,0 +1,37 @@
+import {
+  generateTotpSecret,
+  totpCode,
+  totpProvisioningUri,
+  totpStep,
+  verifyTotp,
+} from './totp';
+
+// RFC 6238 test secret "12345678901234567890" in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('totp', () => {
+  it('matches the RFC 6238 test vectors (6 digits)', () => {
+    expect(totpCode(RFC_SECRET, totpStep(59 * 1000))).toBe('287082');
+    expect(totpCode(RFC_SECRET, totpStep(1111111109 * 1000))).toBe('081804');
+  });
+
+  it('accepts one step of clock drift and returns the matched step', () => {
+    const now = 1111111109 * 1000;
+    const previous = totpCode(RFC_SECRET, totpStep(now) - 1);
+
+    expect(verifyTotp(RFC_SECRET, previous, now)).toBe(totpStep(now) - 1);
+    expect(
+      verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, totpStep(now) - 2), now),
+    ).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abc123', now)).toBeNull();
+  });
+
+  it('builds a provisioning URI for a new secret', () => {
+    const secret = generateTotpSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(totpProvisioningUri(secret, 'admin@sos.tn', 'SOS Villages')).toBe(
+      `otpauth://totp/SOS%20Villages%3Aadmin%40sos.tn?secret=${secret}&issuer=SOS+Villages&algorithm=SHA1&digits=6&period=30`,
+    );
+  });
+});
@@ -0,0 +1,106 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/** RFC 6238 defaults understood by every authenticator app */
+const PERIOD_SECONDS = 30;
+const DIGITS = 6;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.replace(/=+$/, '').toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/** New random shared secret (160 bits, base32 as expected by authenticator apps) */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+/** Time step for a timestamp (number of 30s periods since the epoch) */
+export function totpStep(at: number = Date.now()): number {
+  return Math.floor(at / 1000 / PERIOD_SECONDS);
+}
+
+/** HOTP value (RFC 4226) of the secret for a given time step */
+export function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac('sha1', base32Decode(secret))
+    .update(counter)
+    .digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+}
+
+/**
+ * Check a code against the current step and one step either side (clock drift).
+ * Returns the matching step so callers can reject replays, or null.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  at: number = Date.now(),
+): number | null {
+  if (!/^\d{6}$/.test(code)) {
+    return null;
+  }
+  const current = totpStep(at);
+  for (const step of [current - 1, current, current + 1]) {
+    if (
+      timingSafeEqual(Buffer.from(totpCode(secret, step)), Buffer.from(code))
+    ) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/** otpauth:// URI that authenticator apps import from a QR code */
+export function totpProvisioningUri(
+  secret: string,
+  accountName: string,
+  issuer: string,
+): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
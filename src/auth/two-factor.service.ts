@@ -0,0 +1,266 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogService } from '../audit-log/audit-log.service';
+import {
+  JWT_SECRET,
+  TWO_FACTOR_ENCRYPTION_KEY,
+  TWO_FACTOR_ISSUER,
+} from '../common/config/jwt.config';
+import { generateTotpSecret, totpProvisioningUri, verifyTotp } from './totp';
+
+const RECOVERY_CODE_COUNT = 10;
+
+export type TwoFactorMethod = 'TOTP' | 'RECOVERY_CODE';
+
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(code.trim().toLowerCase()).digest('hex');
+}
+
+/**
+ * TOTP two-factor authentication: enrolment, code verification with replay
+ * protection, and single-use recovery codes. Secrets are encrypted at rest
+ * (AES-256-GCM); recovery codes are only stored as hashes.
+ */
+@Injectable()
+export class TwoFactorService {
+  private readonly key = TWO_FACTOR_ENCRYPTION_KEY
+    ? Buffer.from(TWO_FACTOR_ENCRYPTION_KEY, 'hex')
+    : createHash('sha256').update(`${JWT_SECRET}:totp`).digest();
+
+  constructor(
+    private prisma: PrismaService,
+    private auditLogService: AuditLogService,
+  ) {}
+
+  /**
+   * Start (or restart) enrolment with a new secret. Nothing changes for
+   * sign-in until the first code is confirmed.
+   */
+  async beginEnrolment(userId: string) {
+    const user = await this.findUser(userId);
+    if (user.twoFactorEnabled) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    const secret = generateTotpSecret();
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorSecret: this.encrypt(secret) },
+    });
+
+    return {
+      secret,
+      otpauth_url: totpProvisioningUri(secret, user.email, TWO_FACTOR_ISSUER),
+    };
+  }
+
+  /** Enable 2FA with the first valid code; returns the recovery codes (shown once) */
+  async confirmEnrolment(userId: string, code: string) {
+    const user = await this.findUser(userId);
+    if (user.twoFactorEnabled) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+    if (!user.twoFactorSecret) {
+      throw new BadRequestException(
+        'Start enrolment first (POST /auth/2fa/setup)',
+      );
+    }
+
+    const step = verifyTotp(this.decrypt(user.twoFactorSecret), code);
+    if (step === null) {
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorEnabled: true,
+        twoFactorLastUsedStep: step,
+        twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+      },
+    });
+
+    await this.log(
+      'AUTH_2FA_ENABLED',
+      'Two-factor authentication enabled',
+      userId,
+    );
+    return recoveryCodes;
+  }
+
+  /**
+   * Check a sign-in code: a TOTP code (each time step accepted once) or an
+   * unused recovery code, which is consumed. Returns null when invalid.
+   */
+  async verify(userId: string, code: string): Promise<TwoFactorMethod | null> {
+    const user = await this.findUser(userId);
+    if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+      return null;
+    }
+
+    const step = verifyTotp(this.decrypt(user.twoFactorSecret), code.trim());
+    if (step !== null) {
+      // Claim the step atomically so the same code cannot be replayed
+      const { count } = await this.prisma.user.updateMany({
+        where: {
+          id: userId,
+          OR: [
+            { twoFactorLastUsedStep: null },
+            { twoFactorLastUsedStep: { isSet: false } },
+            { twoFactorLastUsedStep: { lt: step } },
+          ],
+        },
+        data: { twoFactorLastUsedStep: step },
+      });
+      return count > 0 ? 'TOTP' : null;
+    }
+
+    const hash = hashRecoveryCode(code);
+    if (!user.twoFactorRecoveryCodes.includes(hash)) {
+      return null;
+    }
+    const { count } = await this.prisma.user.updateMany({
+      where: { id: userId, twoFactorRecoveryCodes: { has: hash } },
+      data: {
+        twoFactorRecoveryCodes: user.twoFactorRecoveryCodes.filter(
+          (h) => h !== hash,
+        ),
+      },
+    });
+    return count > 0 ? 'RECOVERY_CODE' : null;
+  }
+
+  /** Replace all recovery codes; requires a current code */
+  async regenerateRecoveryCodes(userId: string, code: string) {
+    await this.assertValidCode(userId, code);
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode) },
+    });
+
+    await this.log(
+      'AUTH_2FA_RECOVERY_CODES_REGENERATED',
+      'Recovery codes regenerated',
+      userId,
+    );
+    return recoveryCodes;
+  }
+
+  /** Turn 2FA off; not allowed while the user's role requires it */
+  async disable(userId: string, code: string) {
+    const user = await this.findUser(userId);
+    if (user.role.requireTwoFactor) {
+      throw new BadRequestException(
+        `Two-factor authentication is required for the ${user.role.name} role`,
+      );
+    }
+    await this.assertValidCode(userId, code);
+
+    await this.clear(userId);
+    await this.log(
+      'AUTH_2FA_DISABLED',
+      'Two-factor authentication disabled',
+      userId,
+    );
+  }
+
+  /** Administrative reset (lost device and recovery codes); the user re-enrols */
+  async reset(userId: string) {
+    await this.findUser(userId);
+    await this.clear(userId);
+    return {
+      message:
+        'Two-factor authentication reset. The user must enrol again at next sign-in if their role requires it.',
+    };
+  }
+
+  private async assertValidCode(userId: string, code: string) {
+    if (!(await this.verify(userId, code))) {
+      await this.log(
+        'AUTH_2FA_FAILED',
+        'Invalid two-factor code for account change',
+        userId,
+      );
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+  }
+
+  private async clear(userId: string) {
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorLastUsedStep: null,
+        twoFactorRecoveryCodes: [],
+      },
+    });
+  }
+
+  private async findUser(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      include: { role: true },
+    });
+    if (!user) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+    return user;
+  }
+
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const hex = randomBytes(5).toString('hex');
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+  }
+
+  private encrypt(secret: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+    const encrypted = Buffer.concat([cipher.update(secret), cipher.final()]);
+    return [iv, cipher.getAuthTag(), encrypted]
+      .map((part) => part.toString('base64'))
+      .join('.');
+  }
+
+  private decrypt(stored: string): string {
+    const [iv, tag, encrypted] = stored
+      .split('.')
+      .map((part) => Buffer.from(part, 'base64'));
+    const decipher = createDecipheriv('aes-256-gcm', this.key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([
+      decipher.update(encrypted),
+      decipher.final(),
+    ]).toString();
+  }
+
+  private async log(action: string, details: string, userId: string) {
+    await this.auditLogService.log({
+      action,
+      details,
+      userId,
+      targetType: 'USER',
+      targetId: userId,
+    });
+  }
+}
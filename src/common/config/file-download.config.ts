@@ -0,0 +1,9 @@
+import { JWT_SECRET } from './jwt.config';
+
+// Separate key so a download link can never be used as an access token
+export const FILE_DOWNLOAD_SECRET =
+  process.env.FILE_DOWNLOAD_SECRET || `${JWT_SECRET}:file-download`;
+
+// Lifetime of signed download URLs
+export const FILE_DOWNLOAD_TTL_SECONDS =
+  Number(process.env.FILE_DOWNLOAD_TTL_SECONDS) || 5 * 60;
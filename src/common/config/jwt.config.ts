@@ -0,0 +1,22 @@
+// JWT signing secret (shared by JwtModule and JwtStrategy)
+export const JWT_SECRET =
+  process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+
+// Access tokens are short-lived; sessions are extended with refresh tokens
+export const ACCESS_TOKEN_TTL_SECONDS =
+  Number(process.env.ACCESS_TOKEN_TTL_SECONDS) || 15 * 60;
+
+export const REFRESH_TOKEN_TTL_DAYS =
+  Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 7;
+
+// Separate key so a 2FA challenge token can never be used as an access token
+export const TWO_FACTOR_CHALLENGE_SECRET =
+  process.env.TWO_FACTOR_CHALLENGE_SECRET || `${JWT_SECRET}:two-factor`;
+
+export const TWO_FACTOR_CHALLENGE_TTL_SECONDS = 5 * 60;
+
+// 32-byte hex key encrypting TOTP secrets at rest (derived from JWT_SECRET if unset)
+export const TWO_FACTOR_ENCRYPTION_KEY = process.env.TWO_FACTOR_ENCRYPTION_KEY;
+
+export const TWO_FACTOR_ISSUER =
+  process.env.TWO_FACTOR_ISSUER || 'SOS Villages';
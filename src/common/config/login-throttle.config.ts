@@ -0,0 +1,10 @@
+// Failed sign-ins per account before it is locked
+export const LOGIN_MAX_FAILURES = Number(process.env.LOGIN_MAX_FAILURES) || 5;
+
+// Failed sign-ins per client IP (any account) before the IP is locked
+export const LOGIN_IP_MAX_FAILURES =
+  Number(process.env.LOGIN_IP_MAX_FAILURES) || 20;
+
+// Lockout duration; failure counters are also forgotten after this long
+export const LOGIN_LOCKOUT_MINUTES =
+  Number(process.env.LOGIN_LOCKOUT_MINUTES) || 15;
@@ -0,0 +1,10 @@
+// Mail delivery: "console" logs messages, "file" writes them to MAIL_OUTBOX_DIR
+export const MAIL_TRANSPORT = process.env.MAIL_TRANSPORT || 'console';
+
+export const MAIL_FROM =
+  process.env.MAIL_FROM || 'SOS Villages <no-reply@sos-villages.tn>';
+
+export const MAIL_OUTBOX_DIR = process.env.MAIL_OUTBOX_DIR || './mail-outbox';
+
+// Frontend base URL used in links sent by mail
+export const APP_URL = process.env.APP_URL || 'http://localhost:4200';
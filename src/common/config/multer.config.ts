@@ -4,7 +4,7 @@ import { BadRequestException } from '@nestjs/common';
 import { Request } from 'express';
 
 // Allowed file types for attachments
-const ALLOWED_MIME_TYPES = {
+export const ALLOWED_MIME_TYPES = {
   images: ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp'],
   audio: ['audio/mpeg', 'audio/mp3', 'audio/wav', 'audio/ogg', 'audio/webm'],
   documents: [
@@ -14,18 +14,26 @@ const ALLOWED_MIME_TYPES = {
   ],
 };
 
-const ALL_ALLOWED_TYPES = [
+export const ALL_ALLOWED_TYPES = [
   ...ALLOWED_MIME_TYPES.images,
   ...ALLOWED_MIME_TYPES.audio,
   ...ALLOWED_MIME_TYPES.documents,
 ];
 
 // Max file size: 10MB
-const MAX_FILE_SIZE = 10 * 1024 * 1024;
+export const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+// Uploads are stored here and only served through GET /files/:id
+export const UPLOAD_DIR = './uploads';
+
+/** URL stored for an uploaded file (attachment or procedure document) */
+export function storedFileUrl(filename: string): string {
+  return `/files/${filename}`;
+}
 
 export const multerConfig = {
   storage: diskStorage({
-    destination: './uploads',
+    destination: UPLOAD_DIR,
     filename: (
       req: Request,
       file: Express.Multer.File,
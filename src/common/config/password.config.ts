@@ -0,0 +1,27 @@
+const flag = (value: string | undefined, fallback: boolean) =>
+  value === undefined ? fallback : value === 'true';
+
+// Password strength policy applied on sign-up, change and reset
+export const PASSWORD_MIN_LENGTH =
+  Number(process.env.PASSWORD_MIN_LENGTH) || 10;
+
+export const PASSWORD_REQUIRE_UPPERCASE = flag(
+  process.env.PASSWORD_REQUIRE_UPPERCASE,
+  true,
+);
+export const PASSWORD_REQUIRE_LOWERCASE = flag(
+  process.env.PASSWORD_REQUIRE_LOWERCASE,
+  true,
+);
+export const PASSWORD_REQUIRE_DIGIT = flag(
+  process.env.PASSWORD_REQUIRE_DIGIT,
+  true,
+);
+export const PASSWORD_REQUIRE_SYMBOL = flag(
+  process.env.PASSWORD_REQUIRE_SYMBOL,
+  false,
+);
+
+// Single-use reset links sent by administrators
+export const PASSWORD_RESET_TTL_MINUTES =
+  Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 60;
@@ -0,0 +1,8 @@
+// Public self-registration (POST /auth/sign-up). When disabled, accounts are
+// only created by administrators or through invitations.
+export const PUBLIC_SIGN_UP_ENABLED =
+  process.env.PUBLIC_SIGN_UP_ENABLED !== 'false';
+
+// Lifetime of invitation links sent by administrators
+export const INVITATION_TTL_HOURS =
+  Number(process.env.INVITATION_TTL_HOURS) || 72;
@@ -0,0 +1,7 @@
+// How often the escalation job looks for breached report deadlines
+export const SLA_CHECK_INTERVAL_MINUTES =
+  Number(process.env.SLA_CHECK_INTERVAL_MINUTES) || 15;
+
+// Set to "false" to disable the escalation job (e.g. on extra API replicas)
+export const SLA_ESCALATION_ENABLED =
+  process.env.SLA_ESCALATION_ENABLED !== 'false';
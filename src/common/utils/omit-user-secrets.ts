@@ -0,0 +1,12 @@
+/** Strip credentials (password hash, 2FA secret and recovery codes) from a user returned by the API */
+export function omitUserSecrets<
+  T extends {
+    password: string;
+    twoFactorSecret: string | null;
+    twoFactorRecoveryCodes: string[];
+  },
+>(user: T) {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { password, twoFactorSecret, twoFactorRecoveryCodes, ...rest } = user;
+  return rest;
+}
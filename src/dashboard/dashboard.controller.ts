@@ -32,7 +32,10 @@ export class DashboardController {
     description: 'Analyst dashboard data',
   })
   getMyDashboard(@CurrentUser() user: JwtPayload) {
-    return this.dashboardService.getAnalystDashboard(user.sub, user.role);
+    return this.dashboardService.getAnalystDashboard(
+      user.sub,
+      user.permissions,
+    );
   }
 
   @Get('global')
@@ -46,8 +49,8 @@ export class DashboardController {
     status: 200,
     description: 'Global dashboard data',
   })
-  getGlobalDashboard() {
-    return this.dashboardService.getGlobalDashboard();
+  getGlobalDashboard(@CurrentUser() user: JwtPayload) {
+    return this.dashboardService.getGlobalDashboard(user.sub);
   }
 
   @Get('process-tracking/:reportId')
@@ -90,7 +93,18 @@ export class DashboardController {
     },
   })
   @ApiResponse({ status: 404, description: 'Report not found' })
-  getProcessTracking(@Param('reportId') reportId: string) {
-    return this.dashboardService.getProcessTracking(reportId);
+  @ApiResponse({
+    status: 403,
+    description: 'Missing permission or not your report',
+  })
+  getProcessTracking(
+    @Param('reportId') reportId: string,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.dashboardService.getProcessTracking(
+      reportId,
+      user.sub,
+      user.permissions,
+    );
   }
 }
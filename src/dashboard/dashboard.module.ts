@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
 import { DashboardService } from './dashboard.service';
 import { DashboardController } from './dashboard.controller';
+import { ProcedureTemplateModule } from '../procedure-template/procedure-template.module';
 
 @Module({
+  imports: [ProcedureTemplateModule],
   controllers: [DashboardController],
   providers: [DashboardService],
   exports: [DashboardService],
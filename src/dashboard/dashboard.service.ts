@@ -1,14 +1,42 @@
 import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import { PermissionResolverService } from '../auth/permission-resolver.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
+import {
+  CURRENT_DOCUMENT,
+  DocumentStatus,
+  DocumentType,
+  isApproved,
+} from '../document/document-type';
+import {
+  ProcedureTemplateService,
+  uploadableSteps,
+} from '../procedure-template/procedure-template.service';
+import { reportTeamWhere } from '../report/report-team.service';
+import {
+  AssignmentPeriod,
+  assignmentPeriods,
+} from '../report/report-assignment.service';
+import { DeadlineKind, OPEN_REPORT_STATUSES } from '../sla/sla.service';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const HOUR_MS = 1000 * 60 * 60;
 
 @Injectable()
 export class DashboardService {
-  constructor(private prisma: PrismaService) {}
-
-  async getAnalystDashboard(userId: string, userRole: string) {
-    // Get reports assigned to this analyst
+  constructor(
+    private prisma: PrismaService,
+    private permissionResolver: PermissionResolverService,
+    private accessPolicy: AccessPolicyService,
+    private templateService: ProcedureTemplateService,
+  ) {}
+
+  async getAnalystDashboard(userId: string, userPermissions: string[]) {
+    // Reports this analyst leads or contributes to
+    const teamWhere = reportTeamWhere(userId);
     const assignedReports = await this.prisma.report.findMany({
-      where: { analystId: userId },
+      where: teamWhere,
       include: {
         reporter: {
           select: {
@@ -26,14 +54,14 @@ export class DashboardService {
     // Count by status
     const statusCounts = await this.prisma.report.groupBy({
       by: ['status'],
-      where: { analystId: userId },
+      where: teamWhere,
       _count: true,
     });
 
     // Count by urgency
     const urgencyCounts = await this.prisma.report.groupBy({
       by: ['urgency'],
-      where: { analystId: userId },
+      where: teamWhere,
       _count: true,
     });
 
@@ -45,7 +73,7 @@ export class DashboardService {
     // Calculate average processing time
     const closedReports = await this.prisma.report.findMany({
       where: {
-        analystId: userId,
+        ...teamWhere,
         status: { in: ['CLOTURE', 'FAUSSE'] },
         closedAt: { not: null },
       },
@@ -68,7 +96,17 @@ export class DashboardService {
     // Process tracking - reports with missing documents
     const reportsNeedingAction = await this.getReportsNeedingAction(
       userId,
-      userRole,
+      userPermissions,
+    );
+
+    // Assignment durations from the assignment history
+    const changes = await this.prisma.reportAssignment.findMany({
+      where: { OR: [{ toAnalystId: userId }, { fromAnalystId: userId }] },
+      include: { report: { select: { createdAt: true, closedAt: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+    const periods = assignmentPeriods(changes).filter(
+      (p) => p.analystId === userId,
     );
 
     return {
@@ -82,39 +120,66 @@ export class DashboardService {
       urgencyBreakdown: urgencyCounts,
       recentReports: assignedReports.slice(0, 10),
       reportsNeedingAction,
+      assignments: {
+        ...this.summarizePeriods(periods),
+        reassignedAway: changes.filter(
+          (c) => c.fromAnalystId === userId && c.action === 'REASSIGNED',
+        ).length,
+        unassigned: changes.filter(
+          (c) => c.fromAnalystId === userId && c.action === 'UNASSIGNED',
+        ).length,
+      },
     };
   }
 
-  async getReportsNeedingAction(userId: string, userRole: string) {
+  async getReportsNeedingAction(userId: string, userPermissions: string[]) {
     const assignedReports = await this.prisma.report.findMany({
       where: {
-        analystId: userId,
+        ...reportTeamWhere(userId),
         status: 'EN_COURS',
       },
       include: {
         village: { select: { id: true, name: true } },
-        documents: true,
+        documents: { where: CURRENT_DOCUMENT },
+        team: { where: { userId } },
       },
     });
 
+    const stepsByReport =
+      await this.templateService.stepsByReport(assignedReports);
+
     return assignedReports
       .map((report) => {
-        const missing: string[] = [];
-        const docTypes = report.documents.map((d) => d.type);
-
-        // Check what documents are missing based on role
-        if (userRole === 'Psychologue') {
-          if (!docTypes.includes('RAPPORT_DPE')) missing.push('Rapport DPE');
-
-          if (!docTypes.includes('EVALUATION'))
-            missing.push('Évaluation complète');
-        }
-
-        if (userRole === 'Assistant Social') {
-          if (!docTypes.includes('PLAN_ACTION')) missing.push("Plan d'action");
-
-          if (!docTypes.includes('SUIVI')) missing.push('Rapport de suivi');
-        }
+        // A rejected document has to be uploaded again
+        const docTypes = report.documents
+          .filter((d) => d.status !== (DocumentStatus.REJECTED as string))
+          .map((d) => d.type);
+        const drafts = report.documents
+          .filter((d) => d.status === (DocumentStatus.DRAFT as string))
+          .map((d) => d.type);
+        const membership = report.team[0];
+
+        // Steps of the report's procedure this user can upload; the closure
+        // notice only becomes due when the case is being closed
+        const ownSteps = uploadableSteps(
+          stepsByReport.get(report.id)!,
+          userPermissions,
+        ).filter((step) => step.docType !== (DocumentType.CLOTURE as string));
+
+        // Documents the user's role is allowed to upload, narrowed to their
+        // responsibilities on the case team when they have any
+        const responsibleSteps = ownSteps.filter(
+          (step) =>
+            !membership?.responsibilities.length ||
+            membership.responsibilities.includes(step.docType),
+        );
+        const missing = responsibleSteps
+          .filter((step) => !docTypes.includes(step.docType))
+          .map((step) => step.name);
+        // Drafts still to be submitted for review
+        const toSubmit = responsibleSteps
+          .filter((step) => drafts.includes(step.docType))
+          .map((step) => step.name);
 
         // Calculate days since assignment
         const daysSince = Math.floor(
@@ -129,13 +194,21 @@ export class DashboardService {
           urgency: report.urgency,
           daysSinceCreated: daysSince,
           missingDocuments: missing,
+          draftDocuments: toSubmit,
+          teamRole: membership?.role ?? 'LEAD',
           status: report.status,
         };
       })
-      .filter((r) => r.missingDocuments.length > 0);
+      .filter(
+        (r) => r.missingDocuments.length > 0 || r.draftDocuments.length > 0,
+      );
   }
 
-  async getGlobalDashboard() {
+  async getGlobalDashboard(userId: string) {
+    // Village-scoped roles get a dashboard of their own villages
+    const villageIds = await this.permissionResolver.villageScope(userId);
+    const where = villageIds ? { villageId: { in: villageIds } } : {};
+
     const [
       totalReports,
       statusCounts,
@@ -144,20 +217,24 @@ export class DashboardService {
       recentReports,
       byVillage,
     ] = await Promise.all([
-      this.prisma.report.count(),
+      this.prisma.report.count({ where }),
       this.prisma.report.groupBy({
         by: ['status'],
+        where,
         _count: true,
       }),
       this.prisma.report.groupBy({
         by: ['incidentType'],
+        where,
         _count: true,
       }),
       this.prisma.report.groupBy({
         by: ['urgency'],
+        where,
         _count: true,
       }),
       this.prisma.report.findMany({
+        where,
         take: 10,
         orderBy: { createdAt: 'desc' },
         include: {
@@ -173,6 +250,7 @@ export class DashboardService {
       }),
       this.prisma.report.groupBy({
         by: ['villageId'],
+        where,
         _count: true,
       }),
     ]);
@@ -180,6 +258,7 @@ export class DashboardService {
     // Calculate response time metrics
     const urgentReports = await this.prisma.report.findMany({
       where: {
+        ...where,
         urgency: { in: ['HAUTE', 'CRITIQUE'] },
         analystId: { not: null },
       },
@@ -200,6 +279,8 @@ export class DashboardService {
     const avgResponseHours =
       Math.round((avgResponseTime / (1000 * 60 * 60)) * 10) / 10;
 
+    const assignments = await this.getAssignmentMetrics(where);
+
     return {
       summary: {
         total: totalReports,
@@ -209,6 +290,7 @@ export class DashboardService {
       byType: typeCounts,
       byUrgency: urgencyCounts,
       byVillage,
+      assignments,
       recentReports: recentReports.map((r) => ({
         id: r.id,
         incidentType: r.incidentType,
@@ -223,13 +305,79 @@ export class DashboardService {
     };
   }
 
-  async getProcessTracking(reportId: string) {
+  /** Time to first assignment, assignment durations and handovers */
+  private async getAssignmentMetrics(where: Prisma.ReportWhereInput) {
+    const changes = await this.prisma.reportAssignment.findMany({
+      where: { report: where },
+      include: { report: { select: { createdAt: true, closedAt: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    // First assignment of each report, measured from its creation
+    const firstAssigned = new Map<string, number>();
+    for (const change of changes) {
+      if (change.toAnalystId && !firstAssigned.has(change.reportId)) {
+        firstAssigned.set(
+          change.reportId,
+          change.createdAt.getTime() - change.report.createdAt.getTime(),
+        );
+      }
+    }
+    const waits = [...firstAssigned.values()];
+    const avgWait = waits.length
+      ? waits.reduce((acc, w) => acc + w, 0) / waits.length
+      : 0;
+
+    return {
+      averageHoursToFirstAssignment: Math.round((avgWait / HOUR_MS) * 10) / 10,
+      ...this.summarizePeriods(assignmentPeriods(changes)),
+      reassignments: changes.filter((c) => c.action === 'REASSIGNED').length,
+      unassignments: changes.filter((c) => c.action === 'UNASSIGNED').length,
+    };
+  }
+
+  /** Count and average length of finished and ongoing assignments */
+  private summarizePeriods(periods: AssignmentPeriod[]) {
+    const now = Date.now();
+    const finished = periods.filter((p) => p.end);
+    const ongoing = periods.filter((p) => !p.end);
+    const averageDays = (list: AssignmentPeriod[]) =>
+      list.length
+        ? Math.round(
+            (list.reduce(
+              (acc, p) => acc + ((p.end?.getTime() ?? now) - p.start.getTime()),
+              0,
+            ) /
+              list.length /
+              DAY_MS) *
+              10,
+          ) / 10
+        : 0;
+
+    return {
+      completedAssignments: finished.length,
+      averageAssignmentDays: averageDays(finished),
+      ongoingAssignments: ongoing.length,
+      averageOngoingDays: averageDays(ongoing),
+    };
+  }
+
+  async getProcessTracking(
+    reportId: string,
+    userId: string,
+    userPermissions: string[],
+  ) {
     const report = await this.prisma.report.findUnique({
       where: { id: reportId },
       include: {
         documents: {
-          orderBy: { createdAt: 'asc' },
+          where: CURRENT_DOCUMENT,
+          orderBy: { createdAt: 'desc' },
+        },
+        deadlines: {
+          orderBy: { dueAt: 'asc' },
         },
+        procedureTemplate: { select: { id: true, name: true } },
         auditLogs: {
           orderBy: { timestamp: 'asc' },
           include: {
@@ -249,30 +397,44 @@ export class DashboardService {
       return null;
     }
 
-    // Define procedure steps
-    const procedureSteps = [
-      { name: 'Signalement initial', docType: 'FICHE_INITIAL', required: true },
-      { name: 'Rapport DPE', docType: 'RAPPORT_DPE', required: true },
-      { name: 'Évaluation complète', docType: 'EVALUATION', required: true },
-      { name: "Plan d'action", docType: 'PLAN_ACTION', required: true },
-      { name: 'Rapport de suivi', docType: 'SUIVI', required: false },
-      { name: 'Rapport final', docType: 'RAPPORT_FINAL', required: true },
-      { name: 'Avis de clôture', docType: 'CLOTURE', required: false },
-    ];
-
-    const stepsStatus = procedureSteps.map((step) => {
+    // Same rules as ReportService.findOne (own reports, village scope)
+    await this.accessPolicy.assertReportAccess(userId, userPermissions, report);
+
+    const steps = await this.templateService.stepsFor(report);
+    const now = Date.now();
+    const enforced = OPEN_REPORT_STATUSES.includes(report.status);
+    const deadlines = report.deadlines.map((deadline) => ({
+      kind: deadline.kind,
+      docType: deadline.docType,
+      dueAt: deadline.dueAt,
+      metAt: deadline.metAt,
+      breached: enforced && !deadline.metAt && deadline.dueAt.getTime() < now,
+      escalationLevel: deadline.escalationLevel,
+    }));
+
+    const stepsStatus = steps.map((step) => {
       const doc = report.documents.find((d) => d.type === step.docType);
+      const deadline = deadlines.find(
+        (d) =>
+          d.kind === (DeadlineKind.STEP as string) &&
+          d.docType === step.docType,
+      );
       return {
         step: step.name,
         required: step.required,
-        completed: !!doc,
-        completedAt: doc?.createdAt,
+        completed: !!doc && isApproved(doc),
+        completedAt: doc && isApproved(doc) ? doc.createdAt : undefined,
+        reviewStatus: doc ? (doc.status ?? DocumentStatus.APPROVED) : undefined,
         uploadedBy: doc?.uploadedBy,
+        documentId: doc?.id,
+        version: doc?.version,
+        dueAt: deadline?.dueAt,
+        breached: deadline?.breached ?? false,
       };
     });
 
     const completedSteps = stepsStatus.filter((s) => s.completed).length;
-    const totalSteps = procedureSteps.length;
+    const totalSteps = steps.length;
     const progress = Math.round((completedSteps / totalSteps) * 100);
 
     // Calculate delays
@@ -290,7 +452,11 @@ export class DashboardService {
             ? 14
             : 30;
 
-    const isDelayed = daysSinceCreation > expectedDays;
+    // Reports created before SLA deadlines were persisted use the estimate
+    const isDelayed =
+      deadlines.length > 0
+        ? deadlines.some((d) => d.breached)
+        : daysSinceCreation > expectedDays;
 
     return {
       report: {
@@ -300,6 +466,8 @@ export class DashboardService {
         status: report.status,
         createdAt: report.createdAt,
         closedAt: report.closedAt,
+        // Null: built-in default procedure
+        procedureTemplate: report.procedureTemplate,
       },
       progress: {
         percentage: progress,
@@ -310,11 +478,14 @@ export class DashboardService {
         isDelayed,
       },
       procedureSteps: stepsStatus,
+      deadlines,
       timeline: report.auditLogs.map((log) => ({
         action: log.action,
         details: log.details,
         timestamp: log.timestamp,
-        user: `${log.user.firstName} ${log.user.lastName} (${log.user.role.name})`,
+        user: log.user
+          ? `${log.user.firstName} ${log.user.lastName} (${log.user.role.name})`
+          : 'Unknown user',
       })),
     };
   }
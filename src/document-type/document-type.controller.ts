@@ -0,0 +1,121 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiBody,
+} from '@nestjs/swagger';
+import { DocumentTypeService } from './document-type.service';
+import { CreateDocumentTypeDto } from './dto/create-document-type.dto';
+import { UpdateDocumentTypeDto } from './dto/update-document-type.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { Permissions } from '../auth/decorators/permissions.decorator';
+import { Audit } from '../audit-log/decorators/audit.decorator';
+
+@ApiTags('document-types')
+@ApiBearerAuth('JWT-auth')
+@Controller('document-types')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+export class DocumentTypeController {
+  constructor(private readonly documentTypeService: DocumentTypeService) {}
+
+  @Get()
+  @Permissions('DOC_READ')
+  @ApiOperation({
+    summary: 'List document types',
+    description:
+      'Built-in procedure documents (with their overrides) and custom types, with the upload slug, permission and accepted files of each.',
+  })
+  @ApiResponse({ status: 200, description: 'Document types' })
+  @ApiResponse({ status: 403, description: 'Missing DOC_READ permission' })
+  findAll() {
+    return this.documentTypeService.findAll();
+  }
+
+  @Get(':code')
+  @Permissions('DOC_READ')
+  @ApiOperation({ summary: 'Get document type by code or slug' })
+  @ApiParam({ name: 'code', description: 'Document type code or slug' })
+  @ApiResponse({ status: 200, description: 'Document type' })
+  @ApiResponse({ status: 404, description: 'Unknown document type' })
+  @ApiResponse({ status: 403, description: 'Missing DOC_READ permission' })
+  findOne(@Param('code') code: string) {
+    return this.documentTypeService.resolve(code);
+  }
+
+  @Post()
+  @Audit('DOCUMENT_TYPE_CREATED', 'DOCUMENT_TYPE')
+  @Permissions('DOC_TYPE_MANAGE')
+  @ApiOperation({
+    summary: 'Create document type (SuperAdmin)',
+    description:
+      'Adds a procedure document that templates can use as a step and that is uploaded through POST /documents/reports/:reportId/:slug.',
+  })
+  @ApiBody({ type: CreateDocumentTypeDto })
+  @ApiResponse({ status: 201, description: 'Document type created' })
+  @ApiResponse({ status: 400, description: 'Validation error' })
+  @ApiResponse({ status: 409, description: 'Code or slug already used' })
+  @ApiResponse({
+    status: 403,
+    description: 'Missing DOC_TYPE_MANAGE permission',
+  })
+  create(@Body() dto: CreateDocumentTypeDto) {
+    return this.documentTypeService.create(dto);
+  }
+
+  @Patch(':code')
+  @Audit('DOCUMENT_TYPE_UPDATED', 'DOCUMENT_TYPE')
+  @Permissions('DOC_TYPE_MANAGE')
+  @ApiOperation({
+    summary: 'Update document type (SuperAdmin)',
+    description:
+      'Built-in types are overridden; the change applies to uploads from now on.',
+  })
+  @ApiParam({ name: 'code', description: 'Document type code' })
+  @ApiBody({ type: UpdateDocumentTypeDto })
+  @ApiResponse({ status: 200, description: 'Document type updated' })
+  @ApiResponse({ status: 404, description: 'Document type not found' })
+  @ApiResponse({ status: 409, description: 'Slug already used' })
+  @ApiResponse({
+    status: 403,
+    description: 'Missing DOC_TYPE_MANAGE permission',
+  })
+  update(@Param('code') code: string, @Body() dto: UpdateDocumentTypeDto) {
+    return this.documentTypeService.update(code, dto);
+  }
+
+  @Delete(':code')
+  @Audit('DOCUMENT_TYPE_DELETED', 'DOCUMENT_TYPE')
+  @Permissions('DOC_TYPE_MANAGE')
+  @ApiOperation({
+    summary: 'Delete document type (SuperAdmin)',
+    description:
+      'Resets a built-in type to its defaults. Custom types cannot be deleted while documents or procedure templates use them.',
+  })
+  @ApiParam({ name: 'code', description: 'Document type code' })
+  @ApiResponse({ status: 200, description: 'Document type deleted or reset' })
+  @ApiResponse({
+    status: 400,
+    description: 'Built-in type without override, or type in use',
+  })
+  @ApiResponse({ status: 404, description: 'Document type not found' })
+  @ApiResponse({
+    status: 403,
+    description: 'Missing DOC_TYPE_MANAGE permission',
+  })
+  remove(@Param('code') code: string) {
+    return this.documentTypeService.remove(code);
+  }
+}
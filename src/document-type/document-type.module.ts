@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { DocumentTypeService } from './document-type.service';
+import { DocumentTypeController } from './document-type.controller';
+
+@Module({
+  controllers: [DocumentTypeController],
+  providers: [DocumentTypeService],
+  exports: [DocumentTypeService],
+})
+export class DocumentTypeModule {}
@@ -0,0 +1,124 @@
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BUILT_IN_DOCUMENT_TYPES,
+  DocumentTypeService,
+} from './document-type.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+const custom = {
+  code: 'CERTIFICAT_MEDICAL',
+  slug: 'certificat-medical',
+  label: 'Certificat médical',
+  permission: 'DOC_UPLOAD_MEDICAL',
+  allowedMimeTypes: ['application/pdf'],
+  maxSizeBytes: 1024,
+  allowVersions: false,
+};
+
+describe('DocumentTypeService', () => {
+  let service: DocumentTypeService;
+  const prisma = {
+    documentTypeDefinition: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      upsert: jest.fn(),
+      delete: jest.fn(),
+    },
+    document: { count: jest.fn() },
+    procedureTemplate: { count: jest.fn() },
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DocumentTypeService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<DocumentTypeService>(DocumentTypeService);
+    prisma.documentTypeDefinition.findMany.mockResolvedValue([custom]);
+  });
+
+  it('resolves built-in and custom types by slug or code', async () => {
+    await expect(service.resolve('dpe')).resolves.toMatchObject({
+      code: 'RAPPORT_DPE',
+      permission: 'DOC_UPLOAD_DPE',
+    });
+    await expect(service.resolve('rapport_dpe')).resolves.toMatchObject({
+      code: 'RAPPORT_DPE',
+    });
+    await expect(service.resolve('certificat-medical')).resolves.toBe(custom);
+    await expect(service.resolve('radiographie')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('lists built-in types first, with their overrides', async () => {
+    const suivi = { ...BUILT_IN_DOCUMENT_TYPES[4], allowVersions: false };
+    prisma.documentTypeDefinition.findMany.mockResolvedValue([custom, suivi]);
+
+    const types = await service.findAll();
+
+    expect(types).toHaveLength(BUILT_IN_DOCUMENT_TYPES.length + 1);
+    expect(types[4]).toMatchObject({
+      code: 'SUIVI',
+      allowVersions: false,
+      builtIn: true,
+      customized: true,
+    });
+    expect(types[types.length - 1]).toMatchObject({
+      code: 'CERTIFICAT_MEDICAL',
+      builtIn: false,
+    });
+  });
+
+  it('refuses a code or slug already in use', async () => {
+    await expect(
+      service.create({ ...custom, code: 'RAPPORT_DPE', slug: 'autre' }),
+    ).rejects.toThrow(ConflictException);
+    await expect(
+      service.create({ ...custom, code: 'DPE', slug: 'nouveau' }),
+    ).rejects.toThrow(ConflictException);
+    await expect(
+      service.create({ ...custom, code: 'NOUVEAU', slug: 'dpe' }),
+    ).rejects.toThrow(ConflictException);
+    expect(prisma.documentTypeDefinition.create).not.toHaveBeenCalled();
+  });
+
+  it('stores an override when a built-in type is updated', async () => {
+    await service.update('RAPPORT_FINAL', { allowVersions: false });
+
+    expect(prisma.documentTypeDefinition.upsert).toHaveBeenCalledWith({
+      where: { code: 'RAPPORT_FINAL' },
+      create: expect.objectContaining({
+        code: 'RAPPORT_FINAL',
+        slug: 'rapport-final',
+        allowVersions: false,
+      }) as object,
+      update: { allowVersions: false },
+    });
+  });
+
+  it('keeps built-in types and custom types in use', async () => {
+    prisma.documentTypeDefinition.findUnique.mockResolvedValue(null);
+    await expect(service.remove('RAPPORT_DPE')).rejects.toThrow(
+      BadRequestException,
+    );
+
+    prisma.documentTypeDefinition.findUnique.mockResolvedValue(custom);
+    prisma.document.count.mockResolvedValue(0);
+    prisma.procedureTemplate.count.mockResolvedValue(1);
+    await expect(service.remove('CERTIFICAT_MEDICAL')).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(prisma.documentTypeDefinition.delete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,276 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  DOCUMENT_UPLOAD_PERMISSIONS,
+  DocumentType,
+} from '../document/document-type';
+import {
+  ALLOWED_MIME_TYPES,
+  MAX_FILE_SIZE,
+} from '../common/config/multer.config';
+import { CreateDocumentTypeDto } from './dto/create-document-type.dto';
+import { UpdateDocumentTypeDto } from './dto/update-document-type.dto';
+
+export interface DocumentTypeDefinition {
+  code: string;
+  /** Route segment of POST /documents/reports/:reportId/:type */
+  slug: string;
+  label: string;
+  /** Permission needed to upload the document outside procedure templates */
+  permission: string;
+  allowedMimeTypes: string[];
+  maxSizeBytes: number;
+  /** Several documents of the type can be uploaded for a report */
+  allowVersions: boolean;
+  /** Uploads need DOC_APPROVE sign-off before the step is complete */
+  requiresApproval: boolean;
+}
+
+const builtIn = (
+  code: DocumentType,
+  slug: string,
+  label: string,
+  requiresApproval = false,
+): DocumentTypeDefinition => ({
+  code,
+  slug,
+  label,
+  permission: DOCUMENT_UPLOAD_PERMISSIONS[code],
+  allowedMimeTypes: [
+    ...ALLOWED_MIME_TYPES.documents,
+    ...ALLOWED_MIME_TYPES.images,
+  ],
+  maxSizeBytes: MAX_FILE_SIZE,
+  allowVersions: true,
+  requiresApproval,
+});
+
+/** Procedure documents known without any stored definition */
+export const BUILT_IN_DOCUMENT_TYPES: DocumentTypeDefinition[] = [
+  builtIn(DocumentType.FICHE_INITIAL, 'fiche-initial', 'Fiche initiale'),
+  builtIn(DocumentType.RAPPORT_DPE, 'dpe', 'Rapport DPE', true),
+  builtIn(DocumentType.EVALUATION, 'evaluation', 'Évaluation complète'),
+  builtIn(DocumentType.PLAN_ACTION, 'plan-action', "Plan d'action", true),
+  builtIn(DocumentType.SUIVI, 'suivi', 'Rapport de suivi'),
+  builtIn(DocumentType.RAPPORT_FINAL, 'rapport-final', 'Rapport final'),
+  builtIn(DocumentType.CLOTURE, 'cloture', 'Avis de clôture'),
+];
+
+/**
+ * Registry of procedure document types: route slug, upload permission and
+ * accepted files. Stored definitions override the built-in type with the
+ * same code or add new types, so SuperAdmin can introduce documents
+ * without a release.
+ */
+@Injectable()
+export class DocumentTypeService {
+  constructor(private prisma: PrismaService) {}
+
+  /** Every document type, flagged builtIn and customized (overridden) */
+  async findAll() {
+    const stored = await this.prisma.documentTypeDefinition.findMany();
+    const overridden = (code: string) => stored.some((t) => t.code === code);
+
+    return [
+      ...BUILT_IN_DOCUMENT_TYPES.map((type) => ({
+        ...(stored.find((t) => t.code === type.code) ?? type),
+        builtIn: true,
+        customized: overridden(type.code),
+      })),
+      ...stored
+        .filter((t) => !this.builtIn(t.code))
+        .map((type) => ({ ...type, builtIn: false, customized: false }))
+        .sort((a, b) => a.label.localeCompare(b.label)),
+    ];
+  }
+
+  /** Document type by code (RAPPORT_DPE) or slug (dpe) */
+  async resolve(codeOrSlug: string): Promise<DocumentTypeDefinition> {
+    const type = (await this.definitions()).find(
+      (t) =>
+        t.code === codeOrSlug.toUpperCase() ||
+        t.slug === codeOrSlug.toLowerCase(),
+    );
+    if (!type) {
+      throw new NotFoundException(`Unknown document type "${codeOrSlug}"`);
+    }
+    return type;
+  }
+
+  /** Definitions of these codes, by code; unknown codes are refused */
+  async findByCodes(codes: string[]) {
+    const definitions = await this.definitions();
+    const unknown = codes.filter(
+      (code) => !definitions.some((t) => t.code === code),
+    );
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Unknown document type(s): ${[...new Set(unknown)].join(', ')}`,
+      );
+    }
+    return new Map(
+      definitions.filter((t) => codes.includes(t.code)).map((t) => [t.code, t]),
+    );
+  }
+
+  async create(dto: CreateDocumentTypeDto) {
+    const code = dto.code.toUpperCase();
+    const definitions = await this.definitions();
+    const existing = definitions.find(
+      (t) => t.code === code || t.slug === code.toLowerCase(),
+    );
+    if (existing) {
+      throw new ConflictException(
+        `Document type ${existing.code} already uses "${code}"`,
+      );
+    }
+    this.assertSlugAvailable(definitions, dto.slug, code);
+
+    return this.prisma.documentTypeDefinition.create({
+      data: {
+        code,
+        slug: dto.slug,
+        label: dto.label.trim(),
+        permission: dto.permission,
+        allowedMimeTypes: dto.allowedMimeTypes,
+        maxSizeBytes: dto.maxSizeBytes ?? MAX_FILE_SIZE,
+        allowVersions: dto.allowVersions ?? true,
+        requiresApproval: dto.requiresApproval ?? false,
+      },
+    });
+  }
+
+  /** Updating a built-in type stores an override of it */
+  async update(code: string, dto: UpdateDocumentTypeDto) {
+    const current = await this.resolveCode(code);
+    if (dto.slug !== undefined) {
+      this.assertSlugAvailable(
+        await this.definitions(),
+        dto.slug,
+        current.code,
+      );
+    }
+
+    const data = {
+      ...(dto.slug !== undefined && { slug: dto.slug }),
+      ...(dto.label !== undefined && { label: dto.label.trim() }),
+      ...(dto.permission !== undefined && { permission: dto.permission }),
+      ...(dto.allowedMimeTypes !== undefined && {
+        allowedMimeTypes: dto.allowedMimeTypes,
+      }),
+      ...(dto.maxSizeBytes !== undefined && {
+        maxSizeBytes: dto.maxSizeBytes,
+      }),
+      ...(dto.allowVersions !== undefined && {
+        allowVersions: dto.allowVersions,
+      }),
+      ...(dto.requiresApproval !== undefined && {
+        requiresApproval: dto.requiresApproval,
+      }),
+    };
+
+    return this.prisma.documentTypeDefinition.upsert({
+      where: { code: current.code },
+      create: { ...current, ...data },
+      update: data,
+    });
+  }
+
+  /**
+   * Deleting the override of a built-in type restores its defaults.
+   * Custom types are kept while documents or procedure templates use them.
+   */
+  async remove(code: string) {
+    const current = await this.resolveCode(code);
+    const stored = await this.prisma.documentTypeDefinition.findUnique({
+      where: { code: current.code },
+    });
+
+    if (this.builtIn(current.code)) {
+      if (!stored) {
+        throw new BadRequestException(
+          `${current.code} is a built-in document type and cannot be deleted`,
+        );
+      }
+      await this.prisma.documentTypeDefinition.delete({
+        where: { code: current.code },
+      });
+      return { message: `Document type ${current.code} reset to defaults` };
+    }
+
+    const [documents, templates] = await Promise.all([
+      this.prisma.document.count({ where: { type: current.code } }),
+      this.prisma.procedureTemplate.count({
+        where: { steps: { some: { docType: current.code } } },
+      }),
+    ]);
+    if (documents > 0 || templates > 0) {
+      throw new BadRequestException(
+        `Cannot delete document type ${current.code}. It is used by ${documents} document(s) and ${templates} procedure template(s).`,
+      );
+    }
+
+    await this.prisma.documentTypeDefinition.delete({
+      where: { code: current.code },
+    });
+    return { message: 'Document type deleted successfully' };
+  }
+
+  private builtIn(code: string) {
+    return BUILT_IN_DOCUMENT_TYPES.some((t) => t.code === code);
+  }
+
+  private async resolveCode(code: string) {
+    const type = (await this.definitions()).find(
+      (t) => t.code === code.toUpperCase(),
+    );
+    if (!type) {
+      throw new NotFoundException(`Document type ${code} not found`);
+    }
+    return type;
+  }
+
+  /** Built-in types with their overrides applied, then custom types */
+  private async definitions(): Promise<DocumentTypeDefinition[]> {
+    const stored = await this.prisma.documentTypeDefinition.findMany({
+      select: {
+        code: true,
+        slug: true,
+        label: true,
+        permission: true,
+        allowedMimeTypes: true,
+        maxSizeBytes: true,
+        allowVersions: true,
+        requiresApproval: true,
+      },
+    });
+    return [
+      ...BUILT_IN_DOCUMENT_TYPES.map(
+        (type) => stored.find((t) => t.code === type.code) ?? type,
+      ),
+      ...stored.filter((t) => !this.builtIn(t.code)),
+    ];
+  }
+
+  private assertSlugAvailable(
+    definitions: DocumentTypeDefinition[],
+    slug: string,
+    code: string,
+  ) {
+    // Upload routes accept codes and slugs alike
+    const owner = definitions.find(
+      (t) =>
+        (t.slug === slug || t.code === slug.toUpperCase()) && t.code !== code,
+    );
+    if (owner) {
+      throw new ConflictException(
+        `Slug "${slug}" is already used by document type ${owner.code}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ALL_ALLOWED_TYPES,
+  MAX_FILE_SIZE,
+} from '../../common/config/multer.config';
+
+export class CreateDocumentTypeDto {
+  @ApiProperty({
+    example: 'CERTIFICAT_MEDICAL',
+    description: 'Stored in Document.type and procedure template steps',
+  })
+  @Matches(/^[A-Z][A-Z0-9_]*$/, {
+    message: 'code must be upper-case letters, digits and underscores',
+  })
+  code: string;
+
+  @ApiProperty({
+    example: 'certificat-medical',
+    description: 'Route segment of POST /documents/reports/:reportId/:type',
+  })
+  @Matches(/^[a-z0-9]+(-[a-z0-9]+)*$/, {
+    message: 'slug must be lower-case words separated by hyphens',
+  })
+  slug: string;
+
+  @ApiProperty({ example: 'Certificat médical' })
+  @IsString()
+  @IsNotEmpty()
+  label: string;
+
+  @ApiProperty({
+    example: 'DOC_UPLOAD_CERTIFICAT_MEDICAL',
+    description:
+      'Permission needed to upload the document, unless a procedure template step sets another one. Grant it to roles afterwards.',
+  })
+  @Matches(/^[A-Z][A-Z0-9_]*$/, {
+    message: 'permission must be an upper-case permission name',
+  })
+  permission: string;
+
+  @ApiProperty({ example: ['application/pdf', 'image/jpeg'] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsIn(ALL_ALLOWED_TYPES, { each: true })
+  allowedMimeTypes: string[];
+
+  @ApiPropertyOptional({
+    example: 5 * 1024 * 1024,
+    description: `Maximum file size in bytes. Defaults to ${MAX_FILE_SIZE} (10MB), the upload limit.`,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(MAX_FILE_SIZE)
+  @IsOptional()
+  maxSizeBytes?: number;
+
+  @ApiPropertyOptional({
+    example: true,
+    description:
+      'Several documents of the type can be uploaded for a report. Defaults to true.',
+  })
+  @IsBoolean()
+  @IsOptional()
+  allowVersions?: boolean;
+
+  @ApiPropertyOptional({
+    example: false,
+    description:
+      'Uploads start as drafts and need DOC_APPROVE sign-off before the procedure step is complete. Defaults to false.',
+  })
+  @IsBoolean()
+  @IsOptional()
+  requiresApproval?: boolean;
+}
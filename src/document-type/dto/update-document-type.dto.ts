@@ -0,0 +1,6 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateDocumentTypeDto } from './create-document-type.dto';
+
+export class UpdateDocumentTypeDto extends PartialType(
+  OmitType(CreateDocumentTypeDto, ['code'] as const),
+) {}
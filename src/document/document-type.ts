@@ -0,0 +1,62 @@
+import { Prisma } from '@prisma/client';
+
+export enum DocumentType {
+  FICHE_INITIAL = 'FICHE_INITIAL',
+  RAPPORT_DPE = 'RAPPORT_DPE',
+  EVALUATION = 'EVALUATION',
+  PLAN_ACTION = 'PLAN_ACTION',
+  SUIVI = 'SUIVI',
+  RAPPORT_FINAL = 'RAPPORT_FINAL',
+  CLOTURE = 'CLOTURE',
+}
+
+/** Default permission required to upload each procedure document */
+export const DOCUMENT_UPLOAD_PERMISSIONS: Record<DocumentType, string> = {
+  [DocumentType.FICHE_INITIAL]: 'DOC_UPLOAD_FICHE_INITIAL',
+  [DocumentType.RAPPORT_DPE]: 'DOC_UPLOAD_DPE',
+  [DocumentType.EVALUATION]: 'DOC_UPLOAD_EVALUATION',
+  [DocumentType.PLAN_ACTION]: 'DOC_UPLOAD_PLAN_ACTION',
+  [DocumentType.SUIVI]: 'DOC_UPLOAD_SUIVI',
+  [DocumentType.RAPPORT_FINAL]: 'DOC_UPLOAD_RAPPORT_FINAL',
+  [DocumentType.CLOTURE]: 'DOC_UPLOAD_CLOTURE',
+};
+
+/**
+ * Current version of each (report, type) chain: neither replaced by a newer
+ * upload nor withdrawn. Documents stored before versioning have no
+ * supersededAt field at all.
+ */
+export const CURRENT_DOCUMENT = {
+  OR: [{ supersededAt: null }, { supersededAt: { isSet: false } }],
+} satisfies Prisma.DocumentWhereInput;
+
+export enum DocumentStatus {
+  DRAFT = 'DRAFT',
+  SUBMITTED = 'SUBMITTED',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+}
+
+/**
+ * Current versions that complete their procedure step: approved, or stored
+ * before the review workflow existed (no status)
+ */
+export const APPROVED_DOCUMENT = {
+  AND: [
+    CURRENT_DOCUMENT,
+    {
+      OR: [
+        { status: DocumentStatus.APPROVED },
+        { status: null },
+        { status: { isSet: false } },
+      ],
+    },
+  ],
+} satisfies Prisma.DocumentWhereInput;
+
+/** Same rule as APPROVED_DOCUMENT for a document already loaded */
+export function isApproved(document: { status?: string | null }) {
+  return (
+    !document.status || document.status === (DocumentStatus.APPROVED as string)
+  );
+}
@@ -2,8 +2,10 @@ import {
   Controller,
   Post,
   Get,
+  Patch,
   Delete,
   Param,
+  Body,
   UseGuards,
   UseInterceptors,
   UploadedFile,
@@ -18,7 +20,10 @@ import {
   ApiBody,
   ApiParam,
 } from '@nestjs/swagger';
-import { DocumentService, DocumentType } from './document.service';
+import { DocumentService } from './document.service';
+import { UploadDocumentDto } from './dto/upload-document.dto';
+import { SupersedeDocumentDto } from './dto/supersede-document.dto';
+import { ReviewDocumentDto } from './dto/review-document.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { PermissionsGuard } from '../auth/guards/permissions.guard';
 import { Permissions } from '../auth/decorators/permissions.decorator';
@@ -33,285 +38,286 @@ import { multerConfig } from '../common/config/multer.config';
 export class DocumentController {
   constructor(private readonly documentService: DocumentService) {}
 
-  @Post('reports/:reportId/fiche-initial')
-  @Permissions('DOC_UPLOAD_FICHE_INITIAL')
+  @Post('reports/:reportId/:type')
   @UseInterceptors(FileInterceptor('file', multerConfig))
   @ApiOperation({
-    summary: 'Upload Fiche Initial',
-    description: 'Upload initial form document for a report',
+    summary: 'Upload a procedure document',
+    description:
+      "Upload a document of a registered type (see GET /document-types) for a report. The type must be a step of the report's procedure and the uploader needs the step's permission (DOC_UPLOAD_* by default). The upload becomes the current version and supersedes the previous one. Types requiring approval start as DRAFT.",
   })
   @ApiConsumes('multipart/form-data')
   @ApiParam({ name: 'reportId', description: 'Report ID' })
+  @ApiParam({
+    name: 'type',
+    description: 'Document type slug or code (e.g. dpe or RAPPORT_DPE)',
+  })
   @ApiBody({
     schema: {
       type: 'object',
       properties: {
         file: { type: 'string', format: 'binary' },
+        note: { type: 'string', description: 'Note on this version' },
+        submit: {
+          type: 'boolean',
+          description:
+            'Submit for review right away (types requiring approval)',
+        },
       },
+      required: ['file'],
     },
   })
   @ApiResponse({ status: 201, description: 'Document uploaded successfully' })
-  @ApiResponse({ status: 404, description: 'Report not found' })
-  @ApiResponse({ status: 403, description: 'Missing permission' })
-  uploadFicheInitial(
+  @ApiResponse({
+    status: 400,
+    description:
+      "Missing file, file type or size not accepted for the document type, or document is not a step of the report's procedure",
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Report or document type not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description:
+      'Document type does not allow versions and a current document exists',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Missing the upload permission of the step',
+  })
+  upload(
     @Param('reportId') reportId: string,
+    @Param('type') type: string,
     @UploadedFile() file: Express.Multer.File,
+    @Body() dto: UploadDocumentDto,
     @CurrentUser() user: JwtPayload,
   ) {
     return this.documentService.upload(
       reportId,
-      DocumentType.FICHE_INITIAL,
+      type,
       file,
+      dto,
       user.sub,
       `${user.email}`,
+      user.permissions,
     );
   }
 
-  @Post('reports/:reportId/dpe')
-  @Permissions('DOC_UPLOAD_DPE')
-  @UseInterceptors(FileInterceptor('file', multerConfig))
+  @Get('reports/:reportId')
+  @Permissions('DOC_READ')
   @ApiOperation({
-    summary: 'Upload DPE Report (Psychologue)',
-    description: "Upload DPE (Diagnostic Psychologique d'Évaluation) report",
+    summary: 'Get all documents for a report',
+    description:
+      'Retrieve every version of the procedure documents of a report, newest first, flagged current or superseded',
   })
-  @ApiConsumes('multipart/form-data')
   @ApiParam({ name: 'reportId', description: 'Report ID' })
-  @ApiBody({
-    schema: {
-      type: 'object',
-      properties: {
-        file: { type: 'string', format: 'binary' },
-      },
-    },
+  @ApiResponse({
+    status: 200,
+    description: 'List of documents',
   })
-  @ApiResponse({ status: 201, description: 'Document uploaded successfully' })
   @ApiResponse({ status: 404, description: 'Report not found' })
   @ApiResponse({
     status: 403,
-    description: 'Missing DOC_UPLOAD_DPE permission',
+    description: 'Missing permission or not your report',
   })
-  uploadDPE(
+  findByReport(
     @Param('reportId') reportId: string,
-    @UploadedFile() file: Express.Multer.File,
     @CurrentUser() user: JwtPayload,
   ) {
-    return this.documentService.upload(
+    return this.documentService.findByReport(
       reportId,
-      DocumentType.RAPPORT_DPE,
-      file,
       user.sub,
-      `${user.email}`,
+      user.permissions,
     );
   }
 
-  @Post('reports/:reportId/evaluation')
-  @Permissions('DOC_UPLOAD_EVALUATION')
-  @UseInterceptors(FileInterceptor('file', multerConfig))
+  @Get('reviews/pending')
+  @Permissions('DOC_APPROVE')
   @ApiOperation({
-    summary: 'Upload Evaluation',
-    description: 'Upload evaluation document',
+    summary: 'List documents awaiting review (Directeur)',
+    description:
+      'Submitted current versions on open reports of your villages, oldest first',
   })
-  @ApiConsumes('multipart/form-data')
-  @ApiParam({ name: 'reportId', description: 'Report ID' })
-  @ApiBody({
-    schema: {
-      type: 'object',
-      properties: {
-        file: { type: 'string', format: 'binary' },
-      },
-    },
-  })
-  @ApiResponse({ status: 201, description: 'Document uploaded successfully' })
-  uploadEvaluation(
-    @Param('reportId') reportId: string,
-    @UploadedFile() file: Express.Multer.File,
-    @CurrentUser() user: JwtPayload,
-  ) {
-    return this.documentService.upload(
-      reportId,
-      DocumentType.EVALUATION,
-      file,
-      user.sub,
-      `${user.email}`,
-    );
+  @ApiResponse({ status: 200, description: 'Documents awaiting review' })
+  @ApiResponse({ status: 403, description: 'Missing DOC_APPROVE permission' })
+  findPendingReviews(@CurrentUser() user: JwtPayload) {
+    return this.documentService.findPendingReviews(user.sub);
   }
 
-  @Post('reports/:reportId/plan-action')
-  @Permissions('DOC_UPLOAD_PLAN_ACTION')
-  @UseInterceptors(FileInterceptor('file', multerConfig))
+  @Get(':id')
+  @Permissions('DOC_READ')
   @ApiOperation({
-    summary: 'Upload Action Plan (Assistant Social)',
-    description: 'Upload action plan document',
-  })
-  @ApiConsumes('multipart/form-data')
-  @ApiParam({ name: 'reportId', description: 'Report ID' })
-  @ApiBody({
-    schema: {
-      type: 'object',
-      properties: {
-        file: { type: 'string', format: 'binary' },
-      },
-    },
+    summary: 'Get document by ID',
+    description: 'Retrieve specific document details',
   })
-  @ApiResponse({ status: 201, description: 'Document uploaded successfully' })
+  @ApiParam({ name: 'id', description: 'Document ID' })
+  @ApiResponse({ status: 200, description: 'Document found' })
+  @ApiResponse({ status: 404, description: 'Document not found' })
   @ApiResponse({
     status: 403,
-    description: 'Missing DOC_UPLOAD_PLAN_ACTION permission',
+    description: 'Missing permission or not your report',
   })
-  uploadPlanAction(
-    @Param('reportId') reportId: string,
-    @UploadedFile() file: Express.Multer.File,
-    @CurrentUser() user: JwtPayload,
-  ) {
-    return this.documentService.upload(
-      reportId,
-      DocumentType.PLAN_ACTION,
-      file,
-      user.sub,
-      `${user.email}`,
-    );
+  findOne(@Param('id') id: string, @CurrentUser() user: JwtPayload) {
+    return this.documentService.findOne(id, user.sub, user.permissions);
   }
 
-  @Post('reports/:reportId/suivi')
-  @Permissions('DOC_UPLOAD_SUIVI')
-  @UseInterceptors(FileInterceptor('file', multerConfig))
+  @Get(':id/versions')
+  @Permissions('DOC_READ')
   @ApiOperation({
-    summary: 'Upload Follow-up Report',
-    description: 'Upload follow-up/monitoring document',
+    summary: 'Get the versions of a document',
+    description:
+      'Every version of the same document type for the report, newest first, with the current version ID',
   })
-  @ApiConsumes('multipart/form-data')
-  @ApiParam({ name: 'reportId', description: 'Report ID' })
-  @ApiBody({
-    schema: {
-      type: 'object',
-      properties: {
-        file: { type: 'string', format: 'binary' },
-      },
-    },
+  @ApiParam({ name: 'id', description: 'ID of any version of the document' })
+  @ApiResponse({ status: 200, description: 'Version chain' })
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  @ApiResponse({
+    status: 403,
+    description: 'Missing permission or not your report',
   })
-  @ApiResponse({ status: 201, description: 'Document uploaded successfully' })
-  uploadSuivi(
-    @Param('reportId') reportId: string,
-    @UploadedFile() file: Express.Multer.File,
-    @CurrentUser() user: JwtPayload,
-  ) {
-    return this.documentService.upload(
-      reportId,
-      DocumentType.SUIVI,
-      file,
-      user.sub,
-      `${user.email}`,
-    );
+  findVersions(@Param('id') id: string, @CurrentUser() user: JwtPayload) {
+    return this.documentService.findVersions(id, user.sub, user.permissions);
   }
 
-  @Post('reports/:reportId/rapport-final')
-  @Permissions('DOC_UPLOAD_RAPPORT_FINAL')
-  @UseInterceptors(FileInterceptor('file', multerConfig))
+  @Patch(':id/submit')
   @ApiOperation({
-    summary: 'Upload Final Report (Directeur)',
-    description: 'Upload final report document',
+    summary: 'Submit a draft for review',
+    description:
+      "Moves a DRAFT document to SUBMITTED and notifies the village's reviewers. Requires the upload permission of the step.",
   })
-  @ApiConsumes('multipart/form-data')
-  @ApiParam({ name: 'reportId', description: 'Report ID' })
-  @ApiBody({
-    schema: {
-      type: 'object',
-      properties: {
-        file: { type: 'string', format: 'binary' },
-      },
-    },
+  @ApiParam({ name: 'id', description: 'Document ID' })
+  @ApiResponse({ status: 200, description: 'Document submitted' })
+  @ApiResponse({
+    status: 400,
+    description: 'Document is not a current draft',
   })
-  @ApiResponse({ status: 201, description: 'Document uploaded successfully' })
+  @ApiResponse({ status: 404, description: 'Document not found' })
   @ApiResponse({
     status: 403,
-    description: 'Missing DOC_UPLOAD_RAPPORT_FINAL permission',
+    description: 'Missing the upload permission of the step',
   })
-  uploadRapportFinal(
-    @Param('reportId') reportId: string,
-    @UploadedFile() file: Express.Multer.File,
-    @CurrentUser() user: JwtPayload,
-  ) {
-    return this.documentService.upload(
-      reportId,
-      DocumentType.RAPPORT_FINAL,
-      file,
+  submit(@Param('id') id: string, @CurrentUser() user: JwtPayload) {
+    return this.documentService.submit(
+      id,
       user.sub,
       `${user.email}`,
+      user.permissions,
     );
   }
 
-  @Post('reports/:reportId/cloture')
-  @Permissions('DOC_UPLOAD_CLOTURE')
-  @UseInterceptors(FileInterceptor('file', multerConfig))
+  @Patch(':id/approve')
+  @Permissions('DOC_APPROVE')
   @ApiOperation({
-    summary: 'Upload Closure Document',
-    description: 'Upload case closure document',
+    summary: 'Approve a submitted document (Directeur)',
+    description:
+      'The procedure step counts as complete once its document is approved.',
   })
-  @ApiConsumes('multipart/form-data')
-  @ApiParam({ name: 'reportId', description: 'Report ID' })
-  @ApiBody({
-    schema: {
-      type: 'object',
-      properties: {
-        file: { type: 'string', format: 'binary' },
-      },
-    },
+  @ApiParam({ name: 'id', description: 'Document ID' })
+  @ApiBody({ type: ReviewDocumentDto })
+  @ApiResponse({ status: 200, description: 'Document approved' })
+  @ApiResponse({ status: 400, description: 'Document is not submitted' })
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  @ApiResponse({
+    status: 403,
+    description: 'Missing DOC_APPROVE permission or own document',
   })
-  @ApiResponse({ status: 201, description: 'Document uploaded successfully' })
-  uploadCloture(
-    @Param('reportId') reportId: string,
-    @UploadedFile() file: Express.Multer.File,
+  approve(
+    @Param('id') id: string,
+    @Body() dto: ReviewDocumentDto,
     @CurrentUser() user: JwtPayload,
   ) {
-    return this.documentService.upload(
-      reportId,
-      DocumentType.CLOTURE,
-      file,
+    return this.documentService.review(
+      id,
+      true,
+      dto,
       user.sub,
       `${user.email}`,
     );
   }
 
-  @Get('reports/:reportId')
-  @Permissions('DOC_READ')
+  @Patch(':id/reject')
+  @Permissions('DOC_APPROVE')
   @ApiOperation({
-    summary: 'Get all documents for a report',
-    description: 'Retrieve all procedure documents associated with a report',
+    summary: 'Reject a submitted document (Directeur)',
+    description:
+      'The uploader is notified and a new version is expected. A comment is required.',
   })
-  @ApiParam({ name: 'reportId', description: 'Report ID' })
+  @ApiParam({ name: 'id', description: 'Document ID' })
+  @ApiBody({ type: ReviewDocumentDto })
+  @ApiResponse({ status: 200, description: 'Document rejected' })
   @ApiResponse({
-    status: 200,
-    description: 'List of documents',
+    status: 400,
+    description: 'Document is not submitted or comment missing',
   })
-  @ApiResponse({ status: 404, description: 'Report not found' })
-  findByReport(@Param('reportId') reportId: string) {
-    return this.documentService.findByReport(reportId);
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  @ApiResponse({
+    status: 403,
+    description: 'Missing DOC_APPROVE permission or own document',
+  })
+  reject(
+    @Param('id') id: string,
+    @Body() dto: ReviewDocumentDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.documentService.review(
+      id,
+      false,
+      dto,
+      user.sub,
+      `${user.email}`,
+    );
   }
 
-  @Get(':id')
-  @Permissions('DOC_READ')
+  @Post(':id/supersede')
+  @Permissions('DOC_DELETE')
   @ApiOperation({
-    summary: 'Get document by ID',
-    description: 'Retrieve specific document details',
+    summary: 'Withdraw document',
+    description:
+      'Supersede the current version without a replacement. The record is kept in the version chain. Creates audit log.',
   })
   @ApiParam({ name: 'id', description: 'Document ID' })
-  @ApiResponse({ status: 200, description: 'Document found' })
+  @ApiBody({ type: SupersedeDocumentDto })
+  @ApiResponse({ status: 201, description: 'Document superseded' })
+  @ApiResponse({ status: 400, description: 'Version already superseded' })
   @ApiResponse({ status: 404, description: 'Document not found' })
-  findOne(@Param('id') id: string) {
-    return this.documentService.findOne(id);
+  @ApiResponse({
+    status: 403,
+    description: 'Missing DOC_DELETE permission or archived report',
+  })
+  supersede(
+    @Param('id') id: string,
+    @Body() dto: SupersedeDocumentDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.documentService.supersede(
+      id,
+      dto.reason,
+      user.sub,
+      `${user.email}`,
+      user.permissions,
+    );
   }
 
   @Delete(':id')
   @Permissions('DOC_DELETE')
   @ApiOperation({
     summary: 'Delete document',
-    description: 'Permanently delete a procedure document. Creates audit log.',
+    description:
+      'Documents are no longer deleted: withdraws the current version like POST /documents/:id/supersede, without a reason.',
+    deprecated: true,
   })
   @ApiParam({ name: 'id', description: 'Document ID' })
-  @ApiResponse({ status: 200, description: 'Document deleted successfully' })
+  @ApiResponse({ status: 200, description: 'Document superseded' })
+  @ApiResponse({ status: 400, description: 'Version already superseded' })
   @ApiResponse({ status: 404, description: 'Document not found' })
   @ApiResponse({ status: 403, description: 'Missing DOC_DELETE permission' })
   remove(@Param('id') id: string, @CurrentUser() user: JwtPayload) {
-    return this.documentService.remove(id, user.sub, user.permissions);
+    return this.documentService.supersede(
+      id,
+      null,
+      user.sub,
+      `${user.email}`,
+      user.permissions,
+    );
   }
 }
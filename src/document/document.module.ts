@@ -2,9 +2,19 @@ import { Module, forwardRef } from '@nestjs/common';
 import { DocumentService } from './document.service';
 import { DocumentController } from './document.controller';
 import { NotificationModule } from '../notification/notification.module';
+import { AuditLogModule } from '../audit-log/audit-log.module';
+import { SlaModule } from '../sla/sla.module';
+import { ProcedureTemplateModule } from '../procedure-template/procedure-template.module';
+import { DocumentTypeModule } from '../document-type/document-type.module';
 
 @Module({
-  imports: [forwardRef(() => NotificationModule)],
+  imports: [
+    forwardRef(() => NotificationModule),
+    AuditLogModule,
+    SlaModule,
+    ProcedureTemplateModule,
+    DocumentTypeModule,
+  ],
   controllers: [DocumentController],
   providers: [DocumentService],
   exports: [DocumentService],
@@ -0,0 +1,282 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { DocumentService } from './document.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogService } from '../audit-log/audit-log.service';
+import { NotificationService } from '../notification/notification.service';
+import { PermissionResolverService } from '../auth/permission-resolver.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
+import { SlaService } from '../sla/sla.service';
+import {
+  DEFAULT_PROCEDURE_STEPS,
+  ProcedureTemplateService,
+} from '../procedure-template/procedure-template.service';
+import {
+  BUILT_IN_DOCUMENT_TYPES,
+  DocumentTypeService,
+} from '../document-type/document-type.service';
+
+const submitted = {
+  id: 'doc1',
+  type: 'RAPPORT_DPE',
+  version: 1,
+  reportId: 'r1',
+  status: 'SUBMITTED',
+  supersededAt: null,
+  report: { villageId: 'v1', isArchived: false, procedureTemplateId: null },
+};
+
+describe('DocumentService', () => {
+  let service: DocumentService;
+  const prisma = {
+    report: { findUnique: jest.fn() },
+    document: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+      update: jest.fn(),
+      create: jest.fn(),
+      count: jest.fn(),
+    },
+    reportTeamMember: { findMany: jest.fn() },
+    user: { findMany: jest.fn() },
+    $transaction: jest.fn(),
+  };
+  const auditLogService = { log: jest.fn() };
+  const accessPolicy = {
+    documentReviewersWhere: jest.fn(),
+    assertReportAccess: jest.fn(),
+  };
+  const slaService = { markStepDone: jest.fn() };
+  const notificationService = {
+    notifyDocumentUploaded: jest.fn(),
+    notifyDocumentSubmitted: jest.fn(),
+    notifyDocumentReviewed: jest.fn(),
+  };
+
+  const file = {
+    filename: 'file-2.pdf',
+    path: '/nonexistent/file-2.pdf',
+    mimetype: 'application/pdf',
+    size: 2048,
+  } as Express.Multer.File;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DocumentService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: AuditLogService, useValue: auditLogService },
+        { provide: NotificationService, useValue: notificationService },
+        {
+          provide: PermissionResolverService,
+          useValue: { assertVillageAccess: jest.fn() },
+        },
+        {
+          provide: AccessPolicyService,
+          useValue: accessPolicy,
+        },
+        { provide: SlaService, useValue: slaService },
+        {
+          provide: ProcedureTemplateService,
+          useValue: {
+            stepsFor: jest.fn().mockResolvedValue(DEFAULT_PROCEDURE_STEPS),
+          },
+        },
+        {
+          provide: DocumentTypeService,
+          useValue: {
+            resolve: jest.fn().mockResolvedValue(BUILT_IN_DOCUMENT_TYPES[1]),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<DocumentService>(DocumentService);
+    prisma.report.findUnique.mockResolvedValue({
+      id: 'r1',
+      villageId: 'v1',
+      isArchived: false,
+      analystId: null,
+    });
+    prisma.reportTeamMember.findMany.mockResolvedValue([]);
+    prisma.$transaction.mockImplementation((queries: unknown[]) =>
+      Promise.all(queries),
+    );
+    prisma.document.create.mockImplementation(
+      ({ data }: { data: object }) => data,
+    );
+  });
+
+  it('uploads a new version and supersedes the current one', async () => {
+    prisma.document.findFirst
+      .mockResolvedValueOnce({ version: 1 })
+      .mockResolvedValueOnce({ id: 'doc1' });
+
+    const { document } = await service.upload(
+      'r1',
+      'dpe',
+      file,
+      { note: ' Version corrigée ' },
+      'psy',
+      'psy@sos.tn',
+      ['DOC_UPLOAD_DPE'],
+    );
+
+    expect(document).toMatchObject({
+      type: 'RAPPORT_DPE',
+      version: 2,
+      previousVersionId: 'doc1',
+      note: 'Version corrigée',
+      status: 'DRAFT',
+    });
+    // The Rapport DPE needs sign-off before its step is complete
+    expect(slaService.markStepDone).not.toHaveBeenCalled();
+    expect(prisma.document.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          reportId: 'r1',
+          type: 'RAPPORT_DPE',
+        }) as object,
+        data: expect.objectContaining({
+          supersedeReason: 'Replaced by version 2',
+        }) as object,
+      }),
+    );
+  });
+
+  it('notifies reviewers of a document submitted on upload', async () => {
+    prisma.user.findMany.mockResolvedValue([{ id: 'directeur' }]);
+
+    const { document } = await service.upload(
+      'r1',
+      'dpe',
+      file,
+      { submit: true },
+      'psy',
+      'psy@sos.tn',
+      ['DOC_UPLOAD_DPE'],
+    );
+
+    expect(document).toMatchObject({ status: 'SUBMITTED', version: 1 });
+    expect(notificationService.notifyDocumentSubmitted).toHaveBeenCalledWith(
+      ['directeur'],
+      'r1',
+      'Rapport DPE',
+      'psy@sos.tn',
+    );
+  });
+
+  it('completes the step once the document is approved', async () => {
+    prisma.document.findUnique.mockResolvedValue({
+      ...submitted,
+      uploadedById: 'psy',
+    });
+
+    await service.review('doc1', true, {}, 'directeur', 'directeur@sos.tn');
+
+    expect(prisma.document.update).toHaveBeenCalledWith({
+      where: { id: 'doc1' },
+      data: expect.objectContaining({
+        status: 'APPROVED',
+        reviewedById: 'directeur',
+      }) as object,
+    });
+    expect(slaService.markStepDone).toHaveBeenCalledWith('r1', 'RAPPORT_DPE');
+    expect(notificationService.notifyDocumentReviewed).toHaveBeenCalledWith(
+      'psy',
+      'r1',
+      'Rapport DPE',
+      true,
+      'directeur@sos.tn',
+    );
+  });
+
+  it('refuses self-review and rejection without comment', async () => {
+    prisma.document.findUnique.mockResolvedValue({
+      ...submitted,
+      uploadedById: 'directeur',
+    });
+    await expect(
+      service.review('doc1', true, {}, 'directeur', 'directeur@sos.tn'),
+    ).rejects.toThrow(ForbiddenException);
+
+    prisma.document.findUnique.mockResolvedValue({
+      ...submitted,
+      uploadedById: 'psy',
+    });
+    await expect(
+      service.review('doc1', false, { comment: ' ' }, 'directeur', 'x'),
+    ).rejects.toThrow(BadRequestException);
+    expect(prisma.document.update).not.toHaveBeenCalled();
+  });
+
+  it('withdraws a document instead of deleting it', async () => {
+    prisma.document.findUnique.mockResolvedValue({
+      id: 'doc2',
+      type: 'RAPPORT_DPE',
+      version: 2,
+      reportId: 'r1',
+      supersededAt: null,
+      report: { villageId: 'v1', isArchived: false },
+    });
+
+    await service.supersede(
+      'doc2',
+      'Rapport déposé sur le mauvais dossier.',
+      'directeur',
+      'directeur@sos.tn',
+      ['DOC_DELETE'],
+    );
+
+    expect(prisma.document.update).toHaveBeenCalledWith({
+      where: { id: 'doc2' },
+      data: expect.objectContaining({
+        supersedeReason: 'Rapport déposé sur le mauvais dossier.',
+      }) as object,
+    });
+    expect(auditLogService.log).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'DOCUMENT_SUPERSEDED' }),
+    );
+  });
+
+  it('refuses to supersede a version twice', async () => {
+    prisma.document.findUnique.mockResolvedValue({
+      id: 'doc1',
+      type: 'RAPPORT_DPE',
+      version: 1,
+      reportId: 'r1',
+      supersededAt: new Date(),
+      report: { villageId: 'v1', isArchived: false },
+    });
+
+    await expect(
+      service.supersede('doc1', null, 'directeur', 'directeur@sos.tn', [
+        'DOC_DELETE',
+      ]),
+    ).rejects.toThrow(BadRequestException);
+    expect(prisma.document.update).not.toHaveBeenCalled();
+  });
+
+  it('applies the report read rules to document metadata', async () => {
+    prisma.document.findUnique.mockResolvedValue({
+      ...submitted,
+      report: { ...submitted.report, reporterId: 'educateur' },
+    });
+    accessPolicy.assertReportAccess.mockRejectedValue(
+      new ForbiddenException('You can only view your own reports'),
+    );
+
+    await expect(
+      service.findVersions('doc1', 'autre-educateur', ['DOC_READ']),
+    ).rejects.toThrow(ForbiddenException);
+    expect(accessPolicy.assertReportAccess).toHaveBeenCalledWith(
+      'autre-educateur',
+      ['DOC_READ'],
+      expect.objectContaining({ reporterId: 'educateur', villageId: 'v1' }),
+    );
+    expect(prisma.document.findMany).not.toHaveBeenCalled();
+  });
+});
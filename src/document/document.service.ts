@@ -2,21 +2,24 @@ import {
   Injectable,
   NotFoundException,
   ForbiddenException,
+  BadRequestException,
+  ConflictException,
   Inject,
   forwardRef,
 } from '@nestjs/common';
+import { existsSync, unlinkSync } from 'fs';
 import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogService } from '../audit-log/audit-log.service';
 import { NotificationService } from '../notification/notification.service';
-
-export enum DocumentType {
-  FICHE_INITIAL = 'FICHE_INITIAL',
-  RAPPORT_DPE = 'RAPPORT_DPE',
-  EVALUATION = 'EVALUATION',
-  PLAN_ACTION = 'PLAN_ACTION',
-  SUIVI = 'SUIVI',
-  RAPPORT_FINAL = 'RAPPORT_FINAL',
-  CLOTURE = 'CLOTURE',
-}
+import { PermissionResolverService } from '../auth/permission-resolver.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
+import { SlaService } from '../sla/sla.service';
+import { ProcedureTemplateService } from '../procedure-template/procedure-template.service';
+import { DocumentTypeService } from '../document-type/document-type.service';
+import { storedFileUrl } from '../common/config/multer.config';
+import { CURRENT_DOCUMENT, DocumentStatus } from './document-type';
+import { UploadDocumentDto } from './dto/upload-document.dto';
+import { ReviewDocumentDto } from './dto/review-document.dto';
 
 @Injectable()
 export class DocumentService {
@@ -24,54 +27,127 @@ export class DocumentService {
     private prisma: PrismaService,
     @Inject(forwardRef(() => NotificationService))
     private notificationService: NotificationService,
+    private auditLogService: AuditLogService,
+    private permissionResolver: PermissionResolverService,
+    private accessPolicy: AccessPolicyService,
+    private slaService: SlaService,
+    private templateService: ProcedureTemplateService,
+    private documentTypeService: DocumentTypeService,
   ) {}
 
+  /**
+   * Store an uploaded procedure document as the new current version of its
+   * (report, type) chain; the previous current version is superseded.
+   * Types requiring approval start as drafts (or submitted with dto.submit).
+   * @param type - Document type slug or code, checked against the registry
+   */
   async upload(
     reportId: string,
-    documentType: DocumentType,
+    type: string,
     file: Express.Multer.File,
+    dto: UploadDocumentDto,
     userId: string,
     userName: string,
+    userPermissions: string[],
   ) {
-    // Verify report exists
-    const report = await this.prisma.report.findUnique({
-      where: { id: reportId },
+    if (!file) {
+      throw new BadRequestException('File is required');
+    }
+
+    const { report, definition } = await this.checkUpload(
+      reportId,
+      type,
+      file,
+      userId,
+      userPermissions,
+    ).catch((error: unknown) => {
+      // Multer already stored the refused file
+      if (existsSync(file.path)) {
+        unlinkSync(file.path);
+      }
+      throw error;
     });
+    const documentType = definition.code;
+    const status = !definition.requiresApproval
+      ? DocumentStatus.APPROVED
+      : dto.submit
+        ? DocumentStatus.SUBMITTED
+        : DocumentStatus.DRAFT;
 
-    if (!report) {
-      throw new NotFoundException(`Report with ID ${reportId} not found`);
-    }
+    const [latest, current] = await Promise.all([
+      this.prisma.document.findFirst({
+        where: { reportId, type: documentType },
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      }),
+      this.prisma.document.findFirst({
+        where: { reportId, type: documentType, ...CURRENT_DOCUMENT },
+        orderBy: { createdAt: 'desc' },
+        select: { id: true },
+      }),
+    ]);
+    const version = (latest?.version ?? 0) + 1;
 
-    if (report.isArchived) {
-      throw new ForbiddenException(
-        'Cannot add documents to archived report. Case is closed and sealed.',
-      );
-    }
+    const [, document] = await this.prisma.$transaction([
+      this.prisma.document.updateMany({
+        where: { reportId, type: documentType, ...CURRENT_DOCUMENT },
+        data: {
+          supersededAt: new Date(),
+          supersededBy: userName,
+          supersedeReason: `Replaced by version ${version}`,
+        },
+      }),
+      this.prisma.document.create({
+        data: {
+          type: documentType,
+          fileUrl: storedFileUrl(file.filename),
+          uploadedBy: userName,
+          uploadedById: userId,
+          reportId,
+          version,
+          previousVersionId: current?.id ?? null,
+          note: dto.note?.trim() || null,
+          status,
+          submittedAt: status === DocumentStatus.DRAFT ? null : new Date(),
+        },
+      }),
+    ]);
 
-    // Create document record
-    const document = await this.prisma.document.create({
-      data: {
-        type: documentType,
-        fileUrl: `/uploads/${file.filename}`,
-        uploadedBy: userName,
-        reportId,
-      },
+    // Create audit log
+    await this.auditLogService.log({
+      action: 'DOCUMENT_UPLOADED',
+      details: `Document uploaded: ${documentType} (version ${version})`,
+      userId,
+      reportId,
     });
 
-    // Create audit log
-    await this.prisma.auditLog.create({
-      data: {
-        action: 'DOCUMENT_UPLOADED',
-        details: `Document uploaded: ${documentType}`,
-        userId,
+    // A document needing sign-off completes its step once approved
+    if (status === DocumentStatus.APPROVED) {
+      await this.slaService.markStepDone(reportId, documentType);
+    }
+    if (status === DocumentStatus.SUBMITTED) {
+      await this.notifyReviewers(
+        report.villageId,
         reportId,
-      },
-    });
+        definition.label,
+        userId,
+        userName,
+      );
+    }
 
-    // Notify the analyst if report is assigned
-    if (report.analystId && report.analystId !== userId) {
+    // Notify the case team (lead analyst and contributors)
+    const team = await this.prisma.reportTeamMember.findMany({
+      where: { reportId },
+      select: { userId: true },
+    });
+    const recipients = new Set(
+      [report.analystId, ...team.map((m) => m.userId)].filter(
+        (id): id is string => !!id && id !== userId,
+      ),
+    );
+    for (const recipientId of recipients) {
       await this.notificationService.notifyDocumentUploaded(
-        report.analystId,
+        recipientId,
         reportId,
         documentType,
         userName,
@@ -84,7 +160,11 @@ export class DocumentService {
     };
   }
 
-  async findByReport(reportId: string) {
+  async findByReport(
+    reportId: string,
+    userId: string,
+    userPermissions: string[],
+  ) {
     const report = await this.prisma.report.findUnique({
       where: { id: reportId },
     });
@@ -93,19 +173,45 @@ export class DocumentService {
       throw new NotFoundException(`Report with ID ${reportId} not found`);
     }
 
-    return this.prisma.document.findMany({
+    await this.accessPolicy.assertReportAccess(userId, userPermissions, report);
+
+    const documents = await this.prisma.document.findMany({
       where: { reportId },
       orderBy: { createdAt: 'desc' },
     });
+    return documents.map((document) => ({
+      ...document,
+      current: !document.supersededAt,
+    }));
   }
 
-  async findOne(id: string) {
+  /** Every version of the document's (report, type) chain, newest first */
+  async findVersions(id: string, userId: string, userPermissions: string[]) {
+    const document = await this.findOne(id, userId, userPermissions);
+
+    const versions = await this.prisma.document.findMany({
+      where: { reportId: document.reportId, type: document.type },
+      orderBy: [{ version: 'desc' }, { createdAt: 'desc' }],
+    });
+    return {
+      reportId: document.reportId,
+      type: document.type,
+      currentVersionId:
+        versions.find((version) => !version.supersededAt)?.id ?? null,
+      versions,
+    };
+  }
+
+  /** Same report access rules as ReportService.findOne */
+  async findOne(id: string, userId: string, userPermissions: string[]) {
     const document = await this.prisma.document.findUnique({
       where: { id },
       include: {
         report: {
           select: {
             id: true,
+            villageId: true,
+            reporterId: true,
             incidentType: true,
             village: { select: { id: true, name: true } },
             status: true,
@@ -118,41 +224,343 @@ export class DocumentService {
       throw new NotFoundException(`Document with ID ${id} not found`);
     }
 
-    return document;
+    // The reporter stays hidden for anonymous reports
+    const { reporterId, ...report } = document.report;
+    await this.accessPolicy.assertReportAccess(userId, userPermissions, {
+      ...report,
+      reporterId,
+    });
+
+    return { ...document, report };
   }
 
-  async remove(id: string, userId: string, userPermissions: string[]) {
+  /**
+   * Withdraw the current version of a document. The record and its file
+   * are kept in the version chain; the step has no current document until
+   * a new version is uploaded.
+   */
+  async supersede(
+    id: string,
+    reason: string | null,
+    userId: string,
+    userName: string,
+    userPermissions: string[],
+  ) {
     const document = await this.prisma.document.findUnique({
       where: { id },
+      include: { report: { select: { villageId: true, isArchived: true } } },
     });
 
     if (!document) {
       throw new NotFoundException(`Document with ID ${id} not found`);
     }
 
-    // Only users with DOC_DELETE permission can delete
+    await this.permissionResolver.assertVillageAccess(
+      userId,
+      document.report.villageId,
+    );
+
+    // Only users with DOC_DELETE permission can withdraw documents
     if (!userPermissions.includes('DOC_DELETE')) {
       throw new ForbiddenException(
-        'You do not have permission to delete documents',
+        'You do not have permission to withdraw documents',
+      );
+    }
+
+    if (document.report.isArchived) {
+      throw new ForbiddenException(
+        'Cannot withdraw documents of archived report. Case is closed and sealed.',
+      );
+    }
+
+    if (document.supersededAt) {
+      throw new BadRequestException(
+        `Version ${document.version} of ${document.type} is already superseded`,
       );
     }
 
-    // Create audit log before deletion
-    await this.prisma.auditLog.create({
+    const superseded = await this.prisma.document.update({
+      where: { id },
       data: {
-        action: 'DOCUMENT_DELETED',
-        details: `Document deleted: ${document.type}`,
-        userId,
-        reportId: document.reportId,
+        supersededAt: new Date(),
+        supersededBy: userName,
+        supersedeReason: reason?.trim() || 'Withdrawn',
       },
     });
 
-    await this.prisma.document.delete({
+    await this.auditLogService.log({
+      action: 'DOCUMENT_SUPERSEDED',
+      details: `Document withdrawn: ${document.type} (version ${document.version})${reason ? `. Reason: ${reason.trim()}` : ''}`,
+      userId,
+      reportId: document.reportId,
+    });
+
+    return {
+      message: 'Document superseded successfully',
+      document: superseded,
+    };
+  }
+
+  /** Send a draft to the reviewers (DOC_APPROVE holders of the village) */
+  async submit(
+    id: string,
+    userId: string,
+    userName: string,
+    userPermissions: string[],
+  ) {
+    const document = await this.findReviewable(id, userId);
+    if (document.status !== (DocumentStatus.DRAFT as string)) {
+      throw new BadRequestException(
+        `Only drafts can be submitted (document is ${document.status ?? DocumentStatus.APPROVED})`,
+      );
+    }
+
+    const steps = await this.templateService.stepsFor(document.report);
+    const step = steps.find((s) => s.docType === document.type);
+    if (step && !userPermissions.includes(step.permission)) {
+      throw new ForbiddenException(
+        `Submitting "${step.name}" requires ${step.permission} permission`,
+      );
+    }
+
+    const submitted = await this.prisma.document.update({
       where: { id },
+      data: { status: DocumentStatus.SUBMITTED, submittedAt: new Date() },
     });
 
+    await this.auditLogService.log({
+      action: 'DOCUMENT_SUBMITTED',
+      details: `Document submitted for review: ${document.type} (version ${document.version})`,
+      userId,
+      reportId: document.reportId,
+    });
+
+    const { label } = await this.documentTypeService.resolve(document.type);
+    await this.notifyReviewers(
+      document.report.villageId,
+      document.reportId,
+      label,
+      userId,
+      userName,
+    );
+
     return {
-      message: 'Document deleted successfully',
+      message: 'Document submitted for review',
+      document: submitted,
     };
   }
+
+  /**
+   * Approve or reject a submitted document. The uploader cannot review
+   * their own document; rejecting requires a comment and a new version.
+   */
+  async review(
+    id: string,
+    approved: boolean,
+    dto: ReviewDocumentDto,
+    userId: string,
+    userName: string,
+  ) {
+    const document = await this.findReviewable(id, userId);
+    if (document.status !== (DocumentStatus.SUBMITTED as string)) {
+      throw new BadRequestException(
+        `Only submitted documents can be reviewed (document is ${document.status ?? DocumentStatus.APPROVED})`,
+      );
+    }
+    if (document.uploadedById === userId) {
+      throw new ForbiddenException('You cannot review your own document');
+    }
+    const comment = dto.comment?.trim() || null;
+    if (!approved && !comment) {
+      throw new BadRequestException('A comment is required to reject');
+    }
+
+    const status = approved ? DocumentStatus.APPROVED : DocumentStatus.REJECTED;
+    const reviewed = await this.prisma.document.update({
+      where: { id },
+      data: {
+        status,
+        reviewedById: userId,
+        reviewedBy: userName,
+        reviewedAt: new Date(),
+        reviewComment: comment,
+      },
+    });
+
+    await this.auditLogService.log({
+      action: approved ? 'DOCUMENT_APPROVED' : 'DOCUMENT_REJECTED',
+      details: `Document ${approved ? 'approved' : 'rejected'}: ${document.type} (version ${document.version})${comment ? `. Comment: ${comment}` : ''}`,
+      userId,
+      reportId: document.reportId,
+    });
+
+    if (approved) {
+      await this.slaService.markStepDone(document.reportId, document.type);
+    }
+
+    if (document.uploadedById) {
+      const { label } = await this.documentTypeService.resolve(document.type);
+      await this.notificationService.notifyDocumentReviewed(
+        document.uploadedById,
+        document.reportId,
+        label,
+        approved,
+        userName,
+      );
+    }
+
+    return {
+      message: `Document ${approved ? 'approved' : 'rejected'}`,
+      document: reviewed,
+    };
+  }
+
+  /** Submitted documents awaiting review in the user's villages, oldest first */
+  async findPendingReviews(userId: string) {
+    const villageIds = await this.permissionResolver.villageScope(userId);
+
+    return this.prisma.document.findMany({
+      where: {
+        ...CURRENT_DOCUMENT,
+        status: DocumentStatus.SUBMITTED,
+        report: {
+          isArchived: false,
+          ...(villageIds && { villageId: { in: villageIds } }),
+        },
+      },
+      include: {
+        report: {
+          select: {
+            id: true,
+            incidentType: true,
+            urgency: true,
+            status: true,
+            village: { select: { id: true, name: true } },
+          },
+        },
+      },
+      orderBy: { submittedAt: 'asc' },
+    });
+  }
+
+  /** Report and document type of an upload, once the procedure and the type accept it */
+  private async checkUpload(
+    reportId: string,
+    type: string,
+    file: Express.Multer.File,
+    userId: string,
+    userPermissions: string[],
+  ) {
+    const definition = await this.documentTypeService.resolve(type);
+
+    // Verify report exists
+    const report = await this.prisma.report.findUnique({
+      where: { id: reportId },
+    });
+
+    if (!report) {
+      throw new NotFoundException(`Report with ID ${reportId} not found`);
+    }
+
+    await this.permissionResolver.assertVillageAccess(userId, report.villageId);
+
+    if (report.isArchived) {
+      throw new ForbiddenException(
+        'Cannot add documents to archived report. Case is closed and sealed.',
+      );
+    }
+
+    // The report's procedure decides which documents exist and who uploads them
+    const steps = await this.templateService.stepsFor(report);
+    const step = steps.find((s) => s.docType === definition.code);
+    if (!step) {
+      throw new BadRequestException(
+        `${definition.code} is not a step of this report's procedure (${steps.map((s) => s.docType).join(', ')})`,
+      );
+    }
+    if (!userPermissions.includes(step.permission)) {
+      throw new ForbiddenException(
+        `Uploading "${step.name}" requires ${step.permission} permission`,
+      );
+    }
+
+    if (!definition.allowedMimeTypes.includes(file.mimetype)) {
+      throw new BadRequestException(
+        `File type ${file.mimetype} not allowed for ${definition.label}. Allowed types: ${definition.allowedMimeTypes.join(', ')}`,
+      );
+    }
+    if (file.size > definition.maxSizeBytes) {
+      throw new BadRequestException(
+        `${definition.label} files are limited to ${definition.maxSizeBytes} bytes`,
+      );
+    }
+    if (!definition.allowVersions) {
+      const existing = await this.prisma.document.count({
+        where: { reportId, type: definition.code, ...CURRENT_DOCUMENT },
+      });
+      if (existing > 0) {
+        throw new ConflictException(
+          `${definition.label} has already been uploaded for this report; withdraw it before uploading another file`,
+        );
+      }
+    }
+
+    return { report, definition };
+  }
+
+  /** Current version of a document on an open report in the user's villages */
+  private async findReviewable(id: string, userId: string) {
+    const document = await this.prisma.document.findUnique({
+      where: { id },
+      include: {
+        report: {
+          select: {
+            villageId: true,
+            isArchived: true,
+            procedureTemplateId: true,
+          },
+        },
+      },
+    });
+
+    if (!document) {
+      throw new NotFoundException(`Document with ID ${id} not found`);
+    }
+
+    await this.permissionResolver.assertVillageAccess(
+      userId,
+      document.report.villageId,
+    );
+
+    if (document.report.isArchived) {
+      throw new ForbiddenException(
+        'Cannot review documents of archived report. Case is closed and sealed.',
+      );
+    }
+    if (document.supersededAt) {
+      throw new BadRequestException(
+        `Version ${document.version} of ${document.type} is superseded`,
+      );
+    }
+    return document;
+  }
+
+  private async notifyReviewers(
+    villageId: string,
+    reportId: string,
+    label: string,
+    submitterId: string,
+    submittedBy: string,
+  ) {
+    const reviewers = await this.prisma.user.findMany({
+      where: this.accessPolicy.documentReviewersWhere(villageId),
+      select: { id: true },
+    });
+    await this.notificationService.notifyDocumentSubmitted(
+      reviewers.map((r) => r.id).filter((id) => id !== submitterId),
+      reportId,
+      label,
+      submittedBy,
+    );
+  }
 }
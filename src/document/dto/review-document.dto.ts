@@ -0,0 +1,15 @@
+import { IsString, IsOptional, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ReviewDocumentDto {
+  @ApiPropertyOptional({
+    example: "Objectifs du plan d'action à préciser pour chaque enfant.",
+    description:
+      'Reviewer comment recorded with the decision. Required to reject.',
+    maxLength: 2000,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(2000)
+  comment?: string;
+}
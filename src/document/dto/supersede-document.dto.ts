@@ -0,0 +1,15 @@
+import { IsString, IsNotEmpty, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SupersedeDocumentDto {
+  @ApiProperty({
+    example: 'Rapport déposé sur le mauvais dossier.',
+    description:
+      'Why the document is withdrawn (kept with the superseded version)',
+    minLength: 10,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(10)
+  reason: string;
+}
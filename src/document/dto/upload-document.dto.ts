@@ -0,0 +1,26 @@
+import { IsString, IsOptional, IsBoolean, MaxLength } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class UploadDocumentDto {
+  @ApiPropertyOptional({
+    example: 'Version corrigée après relecture du Directeur',
+    description: 'Note on this version, e.g. what changed',
+    maxLength: 1000,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(1000)
+  note?: string;
+
+  @ApiPropertyOptional({
+    example: true,
+    description:
+      'Submit the document for review right away instead of keeping it as a draft (document types requiring approval only)',
+  })
+  @IsOptional()
+  // Multipart fields arrive as strings
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsBoolean()
+  submit?: boolean;
+}
@@ -0,0 +1,95 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { FileService } from './file.service';
+import type { StoredFile } from './file.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { Permissions } from '../auth/decorators/permissions.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { Public } from '../auth/decorators/public.decorator';
+import type { JwtPayload } from '../auth/dto/jwt-payload.dto';
+
+@ApiTags('files')
+@ApiBearerAuth('JWT-auth')
+@Controller('files')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+export class FileController {
+  constructor(private readonly fileService: FileService) {}
+
+  @Get(':id/signed-url')
+  @Permissions('REPORT_READ')
+  @ApiOperation({
+    summary: 'Create a short-lived download link',
+    description:
+      'Link that downloads the file without an access token, e.g. for an <img> tag or a mobile viewer. Expires after FILE_DOWNLOAD_TTL_SECONDS (5 minutes by default).',
+  })
+  @ApiParam({ name: 'id', description: 'Stored filename (last URL segment)' })
+  @ApiResponse({ status: 200, description: 'Signed URL and expiry' })
+  @ApiResponse({ status: 404, description: 'File not found' })
+  @ApiResponse({
+    status: 403,
+    description: 'Missing permission or no access to the report',
+  })
+  createSignedUrl(@Param('id') id: string, @CurrentUser() user: JwtPayload) {
+    return this.fileService.createSignedUrl(id, user.sub, user.permissions);
+  }
+
+  @Get(':id/signed')
+  @Public()
+  @ApiOperation({
+    summary: 'Download a file through a signed link',
+    description:
+      'Token from GET /files/:id/signed-url. The link stops working if the user who created it is deactivated or can no longer read the report; the download is recorded in the audit log under that user.',
+  })
+  @ApiParam({ name: 'id', description: 'Stored filename (last URL segment)' })
+  @ApiQuery({ name: 'token', description: 'Signed download token' })
+  @ApiResponse({ status: 200, description: 'File content' })
+  @ApiResponse({ status: 401, description: 'Invalid or expired link' })
+  @ApiResponse({ status: 404, description: 'File not found' })
+  async downloadSigned(@Param('id') id: string, @Query('token') token: string) {
+    return this.toStreamableFile(
+      await this.fileService.downloadSigned(id, token),
+    );
+  }
+
+  @Get(':id')
+  @Permissions('REPORT_READ')
+  @ApiOperation({
+    summary: 'Download a report attachment or procedure document',
+    description:
+      'Same access rules as GET /reports/:id; procedure documents also need DOC_READ. Every download is recorded in the audit log.',
+  })
+  @ApiParam({ name: 'id', description: 'Stored filename (last URL segment)' })
+  @ApiResponse({ status: 200, description: 'File content' })
+  @ApiResponse({ status: 404, description: 'File not found' })
+  @ApiResponse({
+    status: 403,
+    description: 'Missing permission or no access to the report',
+  })
+  async download(@Param('id') id: string, @CurrentUser() user: JwtPayload) {
+    return this.toStreamableFile(
+      await this.fileService.download(id, user.sub, user.permissions),
+    );
+  }
+
+  private toStreamableFile(file: StoredFile) {
+    return new StreamableFile(file.stream, {
+      type: file.type,
+      disposition: `attachment; filename*=UTF-8''${encodeURIComponent(file.filename)}`,
+    });
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { FileService } from './file.service';
+import { FileController } from './file.controller';
+import { AuditLogModule } from '../audit-log/audit-log.module';
+import {
+  FILE_DOWNLOAD_SECRET,
+  FILE_DOWNLOAD_TTL_SECONDS,
+} from '../common/config/file-download.config';
+
+@Module({
+  imports: [
+    AuditLogModule,
+    JwtModule.register({
+      secret: FILE_DOWNLOAD_SECRET,
+      signOptions: { expiresIn: FILE_DOWNLOAD_TTL_SECONDS },
+    }),
+  ],
+  controllers: [FileController],
+  providers: [FileService],
+})
+export class FileModule {}
@@ -0,0 +1,156 @@
+import {
+  ForbiddenException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { Test, TestingModule } from '@nestjs/testing';
+import { existsSync, unlinkSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { FileService } from './file.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogService } from '../audit-log/audit-log.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
+import { PermissionResolverService } from '../auth/permission-resolver.service';
+import { UPLOAD_DIR } from '../common/config/multer.config';
+
+const FILENAME = 'attachments-spec-download.png';
+const report = {
+  id: 'r1',
+  villageId: 'v1',
+  attachments: [
+    { url: `/files/${FILENAME}`, type: 'image', filename: 'photo.png' },
+  ],
+};
+
+async function read(stream: NodeJS.ReadableStream) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+describe('FileService', () => {
+  let service: FileService;
+  const prisma = {
+    document: { findFirst: jest.fn() },
+    report: { findFirst: jest.fn() },
+  };
+  const accessPolicy = { assertReportAccess: jest.fn() };
+  const auditLogService = { log: jest.fn() };
+  const permissionResolver = { resolve: jest.fn() };
+  const path = resolve(UPLOAD_DIR, FILENAME);
+
+  beforeAll(() => writeFileSync(path, 'png'));
+  afterAll(() => existsSync(path) && unlinkSync(path));
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [
+        JwtModule.register({ secret: 'test', signOptions: { expiresIn: 60 } }),
+      ],
+      providers: [
+        FileService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: AccessPolicyService, useValue: accessPolicy },
+        { provide: AuditLogService, useValue: auditLogService },
+        { provide: PermissionResolverService, useValue: permissionResolver },
+      ],
+    }).compile();
+
+    service = module.get<FileService>(FileService);
+    prisma.document.findFirst.mockResolvedValue(null);
+    prisma.report.findFirst.mockResolvedValue(report);
+    permissionResolver.resolve.mockResolvedValue({
+      permissions: ['REPORT_READ'],
+    });
+  });
+
+  it('streams an attachment of a readable report and audits it', async () => {
+    const file = await service.download(FILENAME, 'u1', ['REPORT_READ']);
+    await expect(read(file.stream)).resolves.toBe('png');
+
+    expect(file).toMatchObject({ filename: 'photo.png', type: 'image/png' });
+    expect(accessPolicy.assertReportAccess).toHaveBeenCalledWith(
+      'u1',
+      ['REPORT_READ'],
+      report,
+    );
+    expect(auditLogService.log).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'FILE_DOWNLOADED',
+        userId: 'u1',
+        reportId: 'r1',
+      }),
+    );
+  });
+
+  it('does not serve files of reports the user cannot read', async () => {
+    accessPolicy.assertReportAccess.mockRejectedValue(new ForbiddenException());
+
+    await expect(
+      service.download(FILENAME, 'u1', ['REPORT_READ']),
+    ).rejects.toThrow(ForbiddenException);
+    expect(auditLogService.log).not.toHaveBeenCalled();
+  });
+
+  it('requires DOC_READ for procedure documents', async () => {
+    prisma.document.findFirst.mockResolvedValue({
+      type: 'RAPPORT_DPE',
+      version: 2,
+      reportId: 'r1',
+      report,
+    });
+
+    await expect(
+      service.download(FILENAME, 'u1', ['REPORT_READ']),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('rejects names that could leave the upload directory', async () => {
+    await expect(
+      service.download('..%2F.env', 'u1', ['REPORT_READ']),
+    ).rejects.toThrow(NotFoundException);
+    await expect(service.download('..', 'u1', ['REPORT_READ'])).rejects.toThrow(
+      NotFoundException,
+    );
+    expect(prisma.report.findFirst).not.toHaveBeenCalled();
+  });
+
+  it('downloads through a signed link for that file only', async () => {
+    const { url } = await service.createSignedUrl(FILENAME, 'u1', [
+      'REPORT_READ',
+    ]);
+    const token = new URL(url, 'http://localhost').searchParams.get('token')!;
+
+    const file = await service.downloadSigned(FILENAME, token);
+    await expect(read(file.stream)).resolves.toBe('png');
+    expect(auditLogService.log).toHaveBeenLastCalledWith(
+      expect.objectContaining({ action: 'FILE_DOWNLOADED', userId: 'u1' }),
+    );
+
+    await expect(
+      service.downloadSigned('other-file.png', token),
+    ).rejects.toThrow(UnauthorizedException);
+    await expect(service.downloadSigned(FILENAME, 'forged')).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('stops a signed link once its creator is deactivated', async () => {
+    const { url } = await service.createSignedUrl(FILENAME, 'u1', [
+      'REPORT_READ',
+    ]);
+    const token = new URL(url, 'http://localhost').searchParams.get('token')!;
+    permissionResolver.resolve.mockResolvedValue(null);
+
+    await expect(service.downloadSigned(FILENAME, token)).rejects.toThrow(
+      UnauthorizedException,
+    );
+    expect(auditLogService.log).not.toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'FILE_DOWNLOADED' }),
+    );
+  });
+});
@@ -0,0 +1,203 @@
+import {
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { ReadStream, createReadStream, existsSync } from 'fs';
+import { extname, resolve } from 'path';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogService } from '../audit-log/audit-log.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
+import { PermissionResolverService } from '../auth/permission-resolver.service';
+import { UPLOAD_DIR, storedFileUrl } from '../common/config/multer.config';
+import { FILE_DOWNLOAD_TTL_SECONDS } from '../common/config/file-download.config';
+
+interface FileDownloadToken {
+  sub: string;
+  file: string;
+  purpose: 'file-download';
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.ogg': 'audio/ogg',
+  '.webm': 'audio/webm',
+  '.pdf': 'application/pdf',
+  '.doc': 'application/msword',
+  '.docx':
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+export interface StoredFile {
+  stream: ReadStream;
+  /** Name offered to the browser */
+  filename: string;
+  type: string;
+}
+
+/** Names multer gives stored files; anything else could escape UPLOAD_DIR */
+const STORED_FILENAME = /^[\w-]+(\.[\w-]+)*$/;
+
+/**
+ * Downloads of report attachments and procedure documents. A file is only
+ * served to users who can read the report it belongs to (same rules as
+ * ReportService.findOne), and every access is written to the audit log.
+ * Files are identified by their stored filename, the last segment of the
+ * attachment or document URL.
+ */
+@Injectable()
+export class FileService {
+  constructor(
+    private prisma: PrismaService,
+    private accessPolicy: AccessPolicyService,
+    private permissionResolver: PermissionResolverService,
+    private auditLogService: AuditLogService,
+    private jwtService: JwtService,
+  ) {}
+
+  /** Stream a file the user may read */
+  async download(id: string, userId: string, userPermissions: string[]) {
+    const owner = await this.findReadable(id, userId, userPermissions);
+    return this.open(id, owner, userId, false);
+  }
+
+  /** Short-lived URL that downloads the file without an access token */
+  async createSignedUrl(id: string, userId: string, userPermissions: string[]) {
+    const owner = await this.findReadable(id, userId, userPermissions);
+
+    const payload: FileDownloadToken = {
+      sub: userId,
+      file: id,
+      purpose: 'file-download',
+    };
+    const token = this.jwtService.sign(payload);
+
+    await this.auditLogService.log({
+      action: 'FILE_LINK_CREATED',
+      details: `Download link created for ${owner.label} (${id}), valid ${FILE_DOWNLOAD_TTL_SECONDS}s`,
+      userId,
+      reportId: owner.reportId,
+    });
+
+    return {
+      url: `${storedFileUrl(id)}/signed?token=${token}`,
+      expiresAt: new Date(Date.now() + FILE_DOWNLOAD_TTL_SECONDS * 1000),
+    };
+  }
+
+  /** Stream a file through a signed URL, as the user who created it */
+  async downloadSigned(id: string, token: string | undefined) {
+    let payload: FileDownloadToken;
+    try {
+      payload = this.jwtService.verify<FileDownloadToken>(token ?? '');
+    } catch {
+      throw new UnauthorizedException(
+        'Download link is invalid or has expired',
+      );
+    }
+    if (payload.purpose !== 'file-download' || payload.file !== id) {
+      throw new UnauthorizedException(
+        'Download link is not valid for this file',
+      );
+    }
+
+    // The link dies with its creator's account or access to the report
+    const creator = await this.permissionResolver.resolve(payload.sub);
+    if (!creator || !creator.permissions.includes('REPORT_READ')) {
+      throw new UnauthorizedException('Download link is no longer valid');
+    }
+    const owner = await this.findReadable(id, payload.sub, creator.permissions);
+    return this.open(id, owner, payload.sub, true);
+  }
+
+  private async findReadable(
+    id: string,
+    userId: string,
+    userPermissions: string[],
+  ) {
+    const owner = await this.findOwner(id);
+    await this.accessPolicy.assertReportAccess(
+      userId,
+      userPermissions,
+      owner.report,
+    );
+    if (owner.isDocument && !userPermissions.includes('DOC_READ')) {
+      throw new ForbiddenException(
+        'Reading procedure documents requires DOC_READ permission',
+      );
+    }
+    return owner;
+  }
+
+  /** Report the file belongs to, as a procedure document or an attachment */
+  private async findOwner(id: string) {
+    if (!STORED_FILENAME.test(id)) {
+      throw new NotFoundException(`File ${id} not found`);
+    }
+    // Files stored before GET /files were referenced as /uploads/<name>
+    const urls = [storedFileUrl(id), `/uploads/${id}`];
+
+    const document = await this.prisma.document.findFirst({
+      where: { fileUrl: { in: urls } },
+      include: { report: true },
+    });
+    if (document) {
+      return {
+        report: document.report,
+        reportId: document.reportId,
+        isDocument: true,
+        label: `${document.type} (version ${document.version})`,
+        filename: `${document.type.toLowerCase()}-v${document.version}${extname(id)}`,
+      };
+    }
+
+    const report = await this.prisma.report.findFirst({
+      where: { attachments: { some: { url: { in: urls } } } },
+    });
+    if (!report) {
+      throw new NotFoundException(`File ${id} not found`);
+    }
+    const attachment = report.attachments.find((a) => urls.includes(a.url));
+    return {
+      report,
+      reportId: report.id,
+      isDocument: false,
+      label: `attachment ${attachment?.filename ?? id}`,
+      filename: attachment?.filename ?? id,
+    };
+  }
+
+  private async open(
+    id: string,
+    owner: { reportId: string; label: string; filename: string },
+    userId: string,
+    signed: boolean,
+  ): Promise<StoredFile> {
+    const path = resolve(UPLOAD_DIR, id);
+    if (!existsSync(path)) {
+      throw new NotFoundException(`File ${id} not found`);
+    }
+
+    await this.auditLogService.log({
+      action: 'FILE_DOWNLOADED',
+      details: `Downloaded ${owner.label} (${id})${signed ? ' via signed link' : ''}`,
+      userId,
+      reportId: owner.reportId,
+    });
+
+    return {
+      stream: createReadStream(path),
+      filename: owner.filename,
+      type:
+        CONTENT_TYPES[extname(id).toLowerCase()] ?? 'application/octet-stream',
+    };
+  }
+}
@@ -0,0 +1,51 @@
+import { Logger } from '@nestjs/common';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Delivery backend used by MailService. Provide another implementation
+ * (SMTP, provider API...) under MAIL_TRANSPORT_PROVIDER to send real mail.
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export const MAIL_TRANSPORT_PROVIDER = 'MAIL_TRANSPORT_PROVIDER';
+
+/** Local development: print messages to the application log */
+export class ConsoleMailTransport implements MailTransport {
+  private readonly logger = new Logger('Mail');
+
+  send(message: MailMessage) {
+    this.logger.log(
+      `To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`,
+    );
+    return Promise.resolve();
+  }
+}
+
+/** Local development and tests: write each message to a file in the outbox */
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly outboxDir: string) {}
+
+  async send(message: MailMessage) {
+    await mkdir(this.outboxDir, { recursive: true });
+    const name = `${Date.now()}-${Math.round(Math.random() * 1e9)}.eml`;
+    const content = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      '',
+      message.text,
+    ].join('\n');
+    await writeFile(join(this.outboxDir, name), content, 'utf8');
+  }
+}
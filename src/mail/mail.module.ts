@@ -0,0 +1,24 @@
+import { Global, Module } from '@nestjs/common';
+import { MailService } from './mail.service';
+import {
+  ConsoleMailTransport,
+  FileMailTransport,
+  MAIL_TRANSPORT_PROVIDER,
+} from './mail-transport';
+import { MAIL_OUTBOX_DIR, MAIL_TRANSPORT } from '../common/config/mail.config';
+
+@Global()
+@Module({
+  providers: [
+    MailService,
+    {
+      provide: MAIL_TRANSPORT_PROVIDER,
+      useFactory: () =>
+        MAIL_TRANSPORT === 'file'
+          ? new FileMailTransport(MAIL_OUTBOX_DIR)
+          : new ConsoleMailTransport(),
+    },
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
@@ -0,0 +1,64 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { MAIL_FROM } from '../common/config/mail.config';
+import { MAIL_TRANSPORT_PROVIDER } from './mail-transport';
+import type { MailMessage, MailTransport } from './mail-transport';
+
+/**
+ * Outgoing mail. Messages are composed here and delivered by the
+ * configured transport (console or file outbox by default).
+ */
+@Injectable()
+export class MailService {
+  constructor(
+    @Inject(MAIL_TRANSPORT_PROVIDER) private transport: MailTransport,
+  ) {}
+
+  async send(message: Omit<MailMessage, 'from'>) {
+    await this.transport.send({ from: MAIL_FROM, ...message });
+  }
+
+  async sendPasswordReset(
+    to: string,
+    firstName: string,
+    link: string,
+    expiresAt: Date,
+  ) {
+    await this.send({
+      to,
+      subject: 'Reset your SOS Villages password',
+      text: [
+        `Hello ${firstName},`,
+        '',
+        'An administrator requested a password reset for your account.',
+        'Choose a new password with the link below (it can only be used once):',
+        '',
+        link,
+        '',
+        `The link expires on ${expiresAt.toUTCString()}.`,
+        'If you did not expect this message, contact your administrator.',
+      ].join('\n'),
+    });
+  }
+
+  async sendInvitation(
+    to: string,
+    roleName: string,
+    link: string,
+    expiresAt: Date,
+  ) {
+    await this.send({
+      to,
+      subject: 'Your SOS Villages account invitation',
+      text: [
+        'Hello,',
+        '',
+        `You have been invited to join SOS Villages as ${roleName}.`,
+        'Create your account with the link below:',
+        '',
+        link,
+        '',
+        `The invitation expires on ${expiresAt.toUTCString()}.`,
+      ].join('\n'),
+    });
+  }
+}
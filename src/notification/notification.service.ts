@@ -1,17 +1,30 @@
 import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import { PermissionResolverService } from '../auth/permission-resolver.service';
 
 export enum NotificationType {
   REPORT_ASSIGNED = 'REPORT_ASSIGNED',
+  REPORT_UNASSIGNED = 'REPORT_UNASSIGNED',
   REPORT_UPDATED = 'REPORT_UPDATED',
   DOCUMENT_UPLOADED = 'DOCUMENT_UPLOADED',
   REPORT_CLASSIFIED = 'REPORT_CLASSIFIED',
   URGENT_REPORT = 'URGENT_REPORT',
+  REOPEN_REQUESTED = 'REOPEN_REQUESTED',
+  REOPEN_DECIDED = 'REOPEN_DECIDED',
+  TEAM_MEMBER_ADDED = 'TEAM_MEMBER_ADDED',
+  TEAM_MEMBER_REMOVED = 'TEAM_MEMBER_REMOVED',
+  SLA_BREACH = 'SLA_BREACH',
+  DOCUMENT_SUBMITTED = 'DOCUMENT_SUBMITTED',
+  DOCUMENT_REVIEWED = 'DOCUMENT_REVIEWED',
 }
 
 @Injectable()
 export class NotificationService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private permissionResolver: PermissionResolverService,
+  ) {}
 
   async create(
     userId: string,
@@ -47,6 +60,24 @@ export class NotificationService {
     );
   }
 
+  async notifyReportUnassigned(
+    analystId: string,
+    reportId: string,
+    reportType: string,
+    reason: string,
+    newAnalyst?: string,
+  ) {
+    await this.create(
+      analystId,
+      NotificationType.REPORT_UNASSIGNED,
+      'Signalement retiré',
+      newAnalyst
+        ? `Le signalement de type "${reportType}" a été réassigné à ${newAnalyst}. Motif: ${reason}`
+        : `Le signalement de type "${reportType}" ne vous est plus assigné. Motif: ${reason}`,
+      reportId,
+    );
+  }
+
   async notifyUrgentReport(
     userIds: string[],
     reportId: string,
@@ -83,11 +114,136 @@ export class NotificationService {
     );
   }
 
+  async notifyDocumentSubmitted(
+    reviewerIds: string[],
+    reportId: string,
+    document: string,
+    submittedBy: string,
+  ) {
+    await Promise.all(
+      reviewerIds.map((userId) =>
+        this.create(
+          userId,
+          NotificationType.DOCUMENT_SUBMITTED,
+          'Document à valider',
+          `${submittedBy} a soumis le document "${document}". Validation requise.`,
+          reportId,
+        ),
+      ),
+    );
+  }
+
+  async notifyDocumentReviewed(
+    userId: string,
+    reportId: string,
+    document: string,
+    approved: boolean,
+    reviewedBy: string,
+  ) {
+    await this.create(
+      userId,
+      NotificationType.DOCUMENT_REVIEWED,
+      approved ? 'Document approuvé' : 'Document rejeté',
+      approved
+        ? `${reviewedBy} a approuvé le document "${document}".`
+        : `${reviewedBy} a rejeté le document "${document}". Une nouvelle version est attendue.`,
+      reportId,
+    );
+  }
+
+  async notifyTeamMemberAdded(
+    userId: string,
+    reportId: string,
+    reportType: string,
+    responsibilities: string[],
+  ) {
+    const tasks = responsibilities.length
+      ? ` Documents attendus de votre part: ${responsibilities.join(', ')}.`
+      : '';
+    await this.create(
+      userId,
+      NotificationType.TEAM_MEMBER_ADDED,
+      "Ajout à l'équipe d'un dossier",
+      `Vous avez été ajouté à l'équipe du signalement "${reportType}".${tasks}`,
+      reportId,
+    );
+  }
+
+  async notifyTeamMemberRemoved(
+    userId: string,
+    reportId: string,
+    reportType: string,
+  ) {
+    await this.create(
+      userId,
+      NotificationType.TEAM_MEMBER_REMOVED,
+      "Retrait de l'équipe d'un dossier",
+      `Vous avez été retiré de l'équipe du signalement "${reportType}".`,
+      reportId,
+    );
+  }
+
+  async notifySlaBreach(
+    userIds: string[],
+    reportId: string,
+    reportType: string,
+    step: string,
+    dueAt: Date,
+    level: number,
+  ) {
+    const notifications = userIds.map((userId) =>
+      this.create(
+        userId,
+        NotificationType.SLA_BREACH,
+        `Délai dépassé (escalade niveau ${level})`,
+        `Signalement "${reportType}": l'étape "${step}" devait être terminée le ${dueAt.toLocaleString('fr-FR')}.`,
+        reportId,
+      ),
+    );
+    await Promise.all(notifications);
+  }
+
+  async notifyReopenRequested(
+    approverIds: string[],
+    reportId: string,
+    requestedBy: string,
+  ) {
+    await Promise.all(
+      approverIds.map((userId) =>
+        this.create(
+          userId,
+          NotificationType.REOPEN_REQUESTED,
+          'Demande de réouverture',
+          `${requestedBy} demande la réouverture d'un dossier clôturé. Validation requise.`,
+          reportId,
+        ),
+      ),
+    );
+  }
+
+  async notifyReopenDecision(
+    requesterId: string,
+    reportId: string,
+    approved: boolean,
+    reviewedBy: string,
+  ) {
+    await this.create(
+      requesterId,
+      NotificationType.REOPEN_DECIDED,
+      approved ? 'Réouverture approuvée' : 'Réouverture refusée',
+      approved
+        ? `${reviewedBy} a approuvé la réouverture du dossier. Il est de nouveau en cours.`
+        : `${reviewedBy} a refusé la réouverture du dossier.`,
+      reportId,
+    );
+  }
+
   async getUserNotifications(userId: string, unreadOnly = false) {
     return this.prisma.notification.findMany({
       where: {
         userId,
         ...(unreadOnly ? { isRead: false } : {}),
+        ...(await this.villageScopeWhere(userId)),
       },
       include: {
         report: {
@@ -134,6 +290,7 @@ export class NotificationService {
       where: {
         userId,
         isRead: false,
+        ...(await this.villageScopeWhere(userId)),
       },
     });
   }
@@ -146,4 +303,24 @@ export class NotificationService {
       },
     });
   }
+
+  /**
+   * Hide notifications about reports that left the user's village scope
+   * (e.g. after a transfer). Notifications without a report are kept.
+   */
+  private async villageScopeWhere(
+    userId: string,
+  ): Promise<Prisma.NotificationWhereInput> {
+    const villageIds = await this.permissionResolver.villageScope(userId);
+    if (!villageIds) {
+      return {};
+    }
+    return {
+      OR: [
+        { reportId: null },
+        { reportId: { isSet: false } },
+        { report: { is: { villageId: { in: villageIds } } } },
+      ],
+    };
+  }
 }
@@ -0,0 +1,110 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IncidentType, UrgencyLevel } from '../../report/dto/create-report.dto';
+import { DocumentType } from '../../document/document-type';
+
+export class ProcedureStepDto {
+  @ApiProperty({ example: 'Rapport DPE' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({
+    example: DocumentType.RAPPORT_DPE,
+    description: 'Code of a registered document type (GET /document-types)',
+  })
+  @Matches(/^[A-Z][A-Z0-9_]*$/, {
+    message: 'docType must be an upper-case document type code',
+  })
+  docType: string;
+
+  @ApiPropertyOptional({
+    example: 2,
+    description: 'Position in the procedure. Defaults to the array order.',
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  order?: number;
+
+  @ApiProperty({
+    example: true,
+    description: 'Document must be uploaded before the case can be closed',
+  })
+  @IsBoolean()
+  required: boolean;
+
+  @ApiPropertyOptional({
+    example: 'DOC_UPLOAD_DPE',
+    description:
+      'Permission needed to upload the document. Defaults to the permission of the document type.',
+  })
+  @Matches(/^[A-Z][A-Z0-9_]*$/, {
+    message: 'permission must be an upper-case permission name',
+  })
+  @IsOptional()
+  permission?: string;
+
+  @ApiPropertyOptional({
+    example: 48,
+    description:
+      'Expected upload time in hours after the report was created, used for SLA deadlines when no SLA policy sets one',
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  dueOffsetHours?: number;
+}
+
+export class CreateProcedureTemplateDto {
+  @ApiProperty({ example: 'Procédure violence' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiPropertyOptional({ example: 'Signalements de violence physique' })
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @ApiPropertyOptional({
+    enum: IncidentType,
+    example: IncidentType.VIOLENCE,
+    description:
+      'Reports of this incident type use the template. Omit for all.',
+  })
+  @IsEnum(IncidentType)
+  @IsOptional()
+  incidentType?: IncidentType;
+
+  @ApiPropertyOptional({
+    enum: UrgencyLevel,
+    description: 'Reports of this urgency use the template. Omit for all.',
+  })
+  @IsEnum(UrgencyLevel)
+  @IsOptional()
+  urgency?: UrgencyLevel;
+
+  @ApiProperty({
+    type: [ProcedureStepDto],
+    description: 'Must include the CLOTURE step, required to close a case',
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ProcedureStepDto)
+  steps: ProcedureStepDto[];
+}
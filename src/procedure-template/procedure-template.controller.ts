@@ -0,0 +1,134 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiBody,
+} from '@nestjs/swagger';
+import { ProcedureTemplateService } from './procedure-template.service';
+import { CreateProcedureTemplateDto } from './dto/create-procedure-template.dto';
+import { UpdateProcedureTemplateDto } from './dto/update-procedure-template.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { Permissions } from '../auth/decorators/permissions.decorator';
+import { Audit } from '../audit-log/decorators/audit.decorator';
+
+@ApiTags('procedure-templates')
+@ApiBearerAuth('JWT-auth')
+@Controller('procedure-templates')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+export class ProcedureTemplateController {
+  constructor(private readonly templateService: ProcedureTemplateService) {}
+
+  @Get()
+  @Permissions('PROCEDURE_MANAGE')
+  @ApiOperation({
+    summary: 'List procedure templates (SuperAdmin)',
+    description:
+      'Stored templates and the built-in default procedure followed by reports no template applies to.',
+  })
+  @ApiResponse({ status: 200, description: 'Procedure templates' })
+  @ApiResponse({
+    status: 403,
+    description: 'Missing PROCEDURE_MANAGE permission',
+  })
+  findAll() {
+    return this.templateService.findAll();
+  }
+
+  @Get(':id')
+  @Permissions('PROCEDURE_MANAGE')
+  @ApiOperation({ summary: 'Get procedure template by ID (SuperAdmin)' })
+  @ApiParam({ name: 'id', description: 'Procedure template ID' })
+  @ApiResponse({ status: 200, description: 'Procedure template' })
+  @ApiResponse({ status: 404, description: 'Procedure template not found' })
+  @ApiResponse({
+    status: 403,
+    description: 'Missing PROCEDURE_MANAGE permission',
+  })
+  findOne(@Param('id') id: string) {
+    return this.templateService.findOne(id);
+  }
+
+  @Post()
+  @Audit('PROCEDURE_TEMPLATE_CREATED', 'PROCEDURE_TEMPLATE')
+  @Permissions('PROCEDURE_MANAGE')
+  @ApiOperation({
+    summary: 'Create procedure template (SuperAdmin)',
+    description:
+      'Steps (document, order, required for closure, upload permission, due offset) followed by new reports of an incident type and/or urgency.',
+  })
+  @ApiBody({ type: CreateProcedureTemplateDto })
+  @ApiResponse({ status: 201, description: 'Procedure template created' })
+  @ApiResponse({
+    status: 400,
+    description: 'Validation error, duplicate document or order',
+  })
+  @ApiResponse({
+    status: 409,
+    description:
+      'Name taken, or a template already covers this incident type and urgency',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Missing PROCEDURE_MANAGE permission',
+  })
+  create(@Body() dto: CreateProcedureTemplateDto) {
+    return this.templateService.create(dto);
+  }
+
+  @Patch(':id')
+  @Audit('PROCEDURE_TEMPLATE_UPDATED', 'PROCEDURE_TEMPLATE')
+  @Permissions('PROCEDURE_MANAGE')
+  @ApiOperation({
+    summary: 'Update procedure template (SuperAdmin)',
+    description:
+      'New steps apply to every report following the template, including open cases.',
+  })
+  @ApiParam({ name: 'id', description: 'Procedure template ID' })
+  @ApiBody({ type: UpdateProcedureTemplateDto })
+  @ApiResponse({ status: 200, description: 'Procedure template updated' })
+  @ApiResponse({ status: 404, description: 'Procedure template not found' })
+  @ApiResponse({
+    status: 409,
+    description:
+      'Name taken, or a template already covers this incident type and urgency',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Missing PROCEDURE_MANAGE permission',
+  })
+  update(@Param('id') id: string, @Body() dto: UpdateProcedureTemplateDto) {
+    return this.templateService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @Audit('PROCEDURE_TEMPLATE_DELETED', 'PROCEDURE_TEMPLATE')
+  @Permissions('PROCEDURE_MANAGE')
+  @ApiOperation({
+    summary: 'Delete procedure template (SuperAdmin)',
+    description: 'Fails while reports follow the template.',
+  })
+  @ApiParam({ name: 'id', description: 'Procedure template ID' })
+  @ApiResponse({ status: 200, description: 'Procedure template deleted' })
+  @ApiResponse({ status: 400, description: 'Reports follow the template' })
+  @ApiResponse({ status: 404, description: 'Procedure template not found' })
+  @ApiResponse({
+    status: 403,
+    description: 'Missing PROCEDURE_MANAGE permission',
+  })
+  remove(@Param('id') id: string) {
+    return this.templateService.remove(id);
+  }
+}
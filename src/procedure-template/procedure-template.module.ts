@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { ProcedureTemplateService } from './procedure-template.service';
+import { ProcedureTemplateController } from './procedure-template.controller';
+import { DocumentTypeModule } from '../document-type/document-type.module';
+
+@Module({
+  imports: [DocumentTypeModule],
+  controllers: [ProcedureTemplateController],
+  providers: [ProcedureTemplateService],
+  exports: [ProcedureTemplateService],
+})
+export class ProcedureTemplateModule {}
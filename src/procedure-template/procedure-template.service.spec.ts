@@ -0,0 +1,220 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  DEFAULT_PROCEDURE_STEPS,
+  ProcedureTemplateService,
+  closureDocuments,
+  matchTemplate,
+} from './procedure-template.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { DocumentTypeService } from '../document-type/document-type.service';
+import { DocumentType } from '../document/document-type';
+import { defaultStepHours } from '../sla/sla.service';
+
+const template = (
+  id: string,
+  incidentType: string | null,
+  urgency: string | null,
+) => ({ id, incidentType, urgency });
+
+describe('ProcedureTemplateService', () => {
+  let service: ProcedureTemplateService;
+  const prisma = {
+    procedureTemplate: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+    },
+    documentTypeDefinition: { findMany: jest.fn() },
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProcedureTemplateService,
+        DocumentTypeService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<ProcedureTemplateService>(ProcedureTemplateService);
+    prisma.procedureTemplate.create.mockImplementation(
+      ({ data }: { data: object }) => data,
+    );
+    prisma.documentTypeDefinition.findMany.mockResolvedValue([]);
+  });
+
+  it('picks the most specific matching template', () => {
+    const templates = [
+      template('all', null, null),
+      template('urgent', null, 'CRITIQUE'),
+      template('violence', 'violence', null),
+      template('violence-urgent', 'violence', 'CRITIQUE'),
+    ];
+
+    const match = (incidentType: string, urgency: string) =>
+      matchTemplate(templates, { incidentType, urgency })?.id;
+
+    expect(match('violence', 'CRITIQUE')).toBe('violence-urgent');
+    expect(match('violence', 'BASSE')).toBe('violence');
+    expect(match('santé', 'CRITIQUE')).toBe('urgent');
+    expect(match('santé', 'BASSE')).toBe('all');
+    expect(matchTemplate([], { incidentType: 'x', urgency: 'y' })).toBeNull();
+  });
+
+  it('keeps the built-in closure requirements by default', () => {
+    expect(closureDocuments(DEFAULT_PROCEDURE_STEPS)).toEqual([
+      'FICHE_INITIAL',
+      'RAPPORT_DPE',
+      'EVALUATION',
+      'PLAN_ACTION',
+      'RAPPORT_FINAL',
+    ]);
+  });
+
+  it('orders steps and defaults their upload permission', async () => {
+    prisma.procedureTemplate.findFirst.mockResolvedValue(null);
+
+    const created = await service.create({
+      name: 'Procédure courte',
+      steps: [
+        {
+          name: 'Rapport final',
+          docType: DocumentType.RAPPORT_FINAL,
+          order: 2,
+          required: true,
+          dueOffsetHours: 24,
+        },
+        {
+          name: 'Signalement',
+          docType: DocumentType.FICHE_INITIAL,
+          order: 1,
+          required: true,
+          permission: 'DOC_UPLOAD_DPE',
+        },
+        {
+          name: 'Avis de clôture',
+          docType: DocumentType.CLOTURE,
+          order: 3,
+          required: false,
+        },
+      ],
+    });
+
+    expect(created.steps).toEqual([
+      expect.objectContaining({
+        docType: 'FICHE_INITIAL',
+        permission: 'DOC_UPLOAD_DPE',
+        dueOffsetHours: null,
+      }),
+      expect.objectContaining({
+        docType: 'RAPPORT_FINAL',
+        permission: 'DOC_UPLOAD_RAPPORT_FINAL',
+        dueOffsetHours: 24,
+      }),
+      expect.objectContaining({ docType: 'CLOTURE', required: false }),
+    ]);
+    // Due offsets become the default SLA step deadlines
+    expect(defaultStepHours('BASSE', created.steps)).toEqual([
+      { docType: 'FICHE_INITIAL', hours: 360 },
+      { docType: 'RAPPORT_FINAL', hours: 24 },
+    ]);
+  });
+
+  it('accepts custom document types of the registry only', async () => {
+    prisma.procedureTemplate.findFirst.mockResolvedValue(null);
+    prisma.documentTypeDefinition.findMany.mockResolvedValue([
+      { code: 'CERTIFICAT_MEDICAL', permission: 'DOC_UPLOAD_MEDICAL' },
+    ]);
+
+    const created = await service.create({
+      name: 'Procédure santé',
+      steps: [
+        { name: 'Certificat', docType: 'CERTIFICAT_MEDICAL', required: true },
+        { name: 'Clôture', docType: DocumentType.CLOTURE, required: false },
+      ],
+    });
+    expect(created.steps[0].permission).toBe('DOC_UPLOAD_MEDICAL');
+
+    await expect(
+      service.create({
+        name: 'Procédure inconnue',
+        steps: [
+          { name: 'Radio', docType: 'RADIOGRAPHIE', required: true },
+          { name: 'Clôture', docType: DocumentType.CLOTURE, required: false },
+        ],
+      }),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('rejects a procedure that cannot be closed', async () => {
+    prisma.procedureTemplate.findFirst.mockResolvedValue(null);
+
+    await expect(
+      service.create({
+        name: 'Sans clôture',
+        steps: [
+          {
+            name: 'Signalement',
+            docType: DocumentType.FICHE_INITIAL,
+            required: true,
+          },
+        ],
+      }),
+    ).rejects.toThrow(BadRequestException);
+    expect(prisma.procedureTemplate.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects a document listed twice', async () => {
+    prisma.procedureTemplate.findFirst.mockResolvedValue(null);
+
+    await expect(
+      service.create({
+        name: 'Doublon',
+        steps: [
+          { name: 'DPE', docType: DocumentType.RAPPORT_DPE, required: true },
+          {
+            name: 'DPE bis',
+            docType: DocumentType.RAPPORT_DPE,
+            required: false,
+          },
+        ],
+      }),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('refuses a second template for the same incident type and urgency', async () => {
+    prisma.procedureTemplate.findFirst.mockResolvedValue({
+      name: 'Procédure violence',
+    });
+
+    await expect(
+      service.create({
+        name: 'Autre procédure',
+        steps: [
+          { name: 'DPE', docType: DocumentType.RAPPORT_DPE, required: true },
+        ],
+      }),
+    ).rejects.toThrow(ConflictException);
+  });
+
+  it('falls back to the default procedure without a template', async () => {
+    await expect(
+      service.stepsFor({ procedureTemplateId: null }),
+    ).resolves.toEqual(DEFAULT_PROCEDURE_STEPS);
+    expect(prisma.procedureTemplate.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('applies overridden upload permissions to the default procedure', async () => {
+    prisma.documentTypeDefinition.findMany.mockResolvedValue([
+      { code: 'SUIVI', permission: 'DOC_UPLOAD_PLAN_ACTION' },
+    ]);
+
+    const steps = await service.stepsFor({ procedureTemplateId: null });
+
+    expect(steps.find((s) => s.docType === 'SUIVI')?.permission).toBe(
+      'DOC_UPLOAD_PLAN_ACTION',
+    );
+  });
+});
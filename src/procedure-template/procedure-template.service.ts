@@ -0,0 +1,318 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { DocumentTypeService } from '../document-type/document-type.service';
+import {
+  DOCUMENT_UPLOAD_PERMISSIONS,
+  DocumentType,
+} from '../document/document-type';
+import { CreateProcedureTemplateDto } from './dto/create-procedure-template.dto';
+import { UpdateProcedureTemplateDto } from './dto/update-procedure-template.dto';
+
+export interface ProcedureStepDefinition {
+  name: string;
+  docType: string;
+  order: number;
+  required: boolean;
+  /** Permission needed to upload the document */
+  permission: string;
+  /** Expected upload time in hours after report creation */
+  dueOffsetHours: number | null;
+}
+
+const step = (
+  order: number,
+  name: string,
+  docType: DocumentType,
+  required: boolean,
+): ProcedureStepDefinition => ({
+  name,
+  docType,
+  order,
+  required,
+  permission: DOCUMENT_UPLOAD_PERMISSIONS[docType],
+  dueOffsetHours: null,
+});
+
+/**
+ * Procedure of reports no stored template applies to. Upload permissions are
+ * those of the document type registry when a type is overridden.
+ */
+export const DEFAULT_PROCEDURE_STEPS: ProcedureStepDefinition[] = [
+  step(1, 'Signalement initial', DocumentType.FICHE_INITIAL, true),
+  step(2, 'Rapport DPE', DocumentType.RAPPORT_DPE, true),
+  step(3, 'Évaluation complète', DocumentType.EVALUATION, true),
+  step(4, "Plan d'action", DocumentType.PLAN_ACTION, true),
+  step(5, 'Rapport de suivi', DocumentType.SUIVI, false),
+  step(6, 'Rapport final', DocumentType.RAPPORT_FINAL, true),
+  step(7, 'Avis de clôture', DocumentType.CLOTURE, false),
+];
+
+/** Steps a holder of these permissions can upload, in procedure order */
+export function uploadableSteps(
+  steps: ProcedureStepDefinition[],
+  permissions: string[],
+) {
+  return steps.filter((s) => permissions.includes(s.permission));
+}
+
+/** Documents that must be uploaded before the case can be closed */
+export function closureDocuments(steps: ProcedureStepDefinition[]) {
+  return steps.filter((s) => s.required).map((s) => s.docType);
+}
+
+interface TemplateCriteria {
+  incidentType: string | null;
+  urgency: string | null;
+}
+
+/**
+ * Most specific template for a report: incident type and urgency, then
+ * incident type only, then urgency only, then a catch-all template
+ */
+export function matchTemplate<T extends TemplateCriteria>(
+  templates: T[],
+  report: { incidentType: string; urgency: string },
+): T | null {
+  const specificity = (t: T) => (t.incidentType ? 2 : 0) + (t.urgency ? 1 : 0);
+  return (
+    templates
+      .filter(
+        (t) =>
+          (!t.incidentType || t.incidentType === report.incidentType) &&
+          (!t.urgency || t.urgency === report.urgency),
+      )
+      .sort((a, b) => specificity(b) - specificity(a))[0] ?? null
+  );
+}
+
+/**
+ * Admin-editable procedure templates: the documents a case goes through,
+ * their order, who uploads them, which are needed to close the case and
+ * when they are expected. A report keeps the template selected for its
+ * incident type and urgency; reports without one follow
+ * DEFAULT_PROCEDURE_STEPS.
+ */
+@Injectable()
+export class ProcedureTemplateService {
+  constructor(
+    private prisma: PrismaService,
+    private documentTypeService: DocumentTypeService,
+  ) {}
+
+  /** Stored templates and the built-in default procedure */
+  async findAll() {
+    const templates = await this.prisma.procedureTemplate.findMany({
+      orderBy: { name: 'asc' },
+    });
+    return { templates, default: { steps: await this.defaultSteps() } };
+  }
+
+  async findOne(id: string) {
+    const template = await this.prisma.procedureTemplate.findUnique({
+      where: { id },
+    });
+    if (!template) {
+      throw new NotFoundException(`Procedure template with ID ${id} not found`);
+    }
+    return template;
+  }
+
+  async create(dto: CreateProcedureTemplateDto) {
+    await this.assertAvailable(
+      dto.name,
+      dto.incidentType ?? null,
+      dto.urgency ?? null,
+    );
+
+    return this.prisma.procedureTemplate.create({
+      data: {
+        name: dto.name.trim(),
+        description: dto.description?.trim() ?? null,
+        incidentType: dto.incidentType ?? null,
+        urgency: dto.urgency ?? null,
+        steps: await this.normalizeSteps(dto.steps),
+      },
+    });
+  }
+
+  /** Changes apply to every report following the template */
+  async update(id: string, dto: UpdateProcedureTemplateDto) {
+    const template = await this.findOne(id);
+    const incidentType =
+      dto.incidentType !== undefined ? dto.incidentType : template.incidentType;
+    const urgency = dto.urgency !== undefined ? dto.urgency : template.urgency;
+    await this.assertAvailable(
+      dto.name ?? template.name,
+      incidentType,
+      urgency,
+      id,
+    );
+
+    return this.prisma.procedureTemplate.update({
+      where: { id },
+      data: {
+        ...(dto.name !== undefined && { name: dto.name.trim() }),
+        ...(dto.description !== undefined && {
+          description: dto.description.trim(),
+        }),
+        incidentType,
+        urgency,
+        ...(dto.steps !== undefined && {
+          steps: await this.normalizeSteps(dto.steps),
+        }),
+      },
+    });
+  }
+
+  async remove(id: string) {
+    const template = await this.prisma.procedureTemplate.findUnique({
+      where: { id },
+      include: { _count: { select: { reports: true } } },
+    });
+    if (!template) {
+      throw new NotFoundException(`Procedure template with ID ${id} not found`);
+    }
+    if (template._count.reports > 0) {
+      throw new BadRequestException(
+        `Cannot delete procedure template "${template.name}". ${template._count.reports} report(s) follow it; change its incident type or urgency to stop using it for new reports.`,
+      );
+    }
+    await this.prisma.procedureTemplate.delete({ where: { id } });
+    return { message: 'Procedure template deleted successfully' };
+  }
+
+  /** Template new reports of this incident type and urgency follow */
+  async resolve(incidentType: string, urgency: string) {
+    const templates = await this.prisma.procedureTemplate.findMany({
+      where: {
+        AND: [
+          { OR: [{ incidentType }, { incidentType: null }] },
+          { OR: [{ urgency }, { urgency: null }] },
+        ],
+      },
+    });
+    return matchTemplate(templates, { incidentType, urgency });
+  }
+
+  /** Procedure steps of a report, in order */
+  async stepsFor(report: {
+    procedureTemplateId?: string | null;
+  }): Promise<ProcedureStepDefinition[]> {
+    const template = report.procedureTemplateId
+      ? await this.prisma.procedureTemplate.findUnique({
+          where: { id: report.procedureTemplateId },
+        })
+      : null;
+    return template ? this.ordered(template.steps) : this.defaultSteps();
+  }
+
+  /** Procedure steps of several reports, by report ID */
+  async stepsByReport(
+    reports: { id: string; procedureTemplateId?: string | null }[],
+  ) {
+    const templateIds = [
+      ...new Set(
+        reports
+          .map((r) => r.procedureTemplateId)
+          .filter((id): id is string => !!id),
+      ),
+    ];
+    const templates =
+      templateIds.length > 0
+        ? await this.prisma.procedureTemplate.findMany({
+            where: { id: { in: templateIds } },
+          })
+        : [];
+    const defaultSteps = await this.defaultSteps();
+
+    return new Map(
+      reports.map((report) => {
+        const template = templates.find(
+          (t) => t.id === report.procedureTemplateId,
+        );
+        return [
+          report.id,
+          template ? this.ordered(template.steps) : defaultSteps,
+        ];
+      }),
+    );
+  }
+
+  private async defaultSteps(): Promise<ProcedureStepDefinition[]> {
+    const types = await this.documentTypeService.findByCodes(
+      DEFAULT_PROCEDURE_STEPS.map((s) => s.docType),
+    );
+    return DEFAULT_PROCEDURE_STEPS.map((s) => ({
+      ...s,
+      permission: types.get(s.docType)?.permission ?? s.permission,
+    }));
+  }
+
+  private ordered(steps: ProcedureStepDefinition[]) {
+    return [...steps].sort((a, b) => a.order - b.order);
+  }
+
+  private async normalizeSteps(
+    steps: CreateProcedureTemplateDto['steps'],
+  ): Promise<ProcedureStepDefinition[]> {
+    const types = steps.map((s) => s.docType);
+    if (new Set(types).size !== types.length) {
+      throw new BadRequestException(
+        'Each procedure document can only appear once in a template',
+      );
+    }
+    // Every close transition requires the Avis de clôture
+    if (!types.includes(DocumentType.CLOTURE)) {
+      throw new BadRequestException(
+        `A procedure template must include the ${DocumentType.CLOTURE} step`,
+      );
+    }
+    const orders = steps.map((s, index) => s.order ?? index + 1);
+    if (new Set(orders).size !== orders.length) {
+      throw new BadRequestException(
+        'Procedure steps must have distinct orders',
+      );
+    }
+    const documentTypes = await this.documentTypeService.findByCodes(types);
+
+    return this.ordered(
+      steps.map((s, index) => ({
+        name: s.name.trim(),
+        docType: s.docType,
+        order: orders[index],
+        required: s.required,
+        permission: s.permission ?? documentTypes.get(s.docType)!.permission,
+        dueOffsetHours: s.dueOffsetHours ?? null,
+      })),
+    );
+  }
+
+  private async assertAvailable(
+    name: string,
+    incidentType: string | null,
+    urgency: string | null,
+    exceptId?: string,
+  ) {
+    const existing = await this.prisma.procedureTemplate.findFirst({
+      where: {
+        OR: [{ name: name.trim() }, { incidentType, urgency }],
+        ...(exceptId && { id: { not: exceptId } }),
+      },
+    });
+    if (existing?.name === name.trim()) {
+      throw new ConflictException(
+        `Procedure template with name "${name}" already exists`,
+      );
+    }
+    if (existing) {
+      throw new ConflictException(
+        `Procedure template "${existing.name}" already covers ${incidentType ?? 'every incident type'} / ${urgency ?? 'every urgency'}`,
+      );
+    }
+  }
+}
@@ -6,6 +6,11 @@ export interface UrgencyAnalysisResult {
   matchedWords: string[];
 }
 
+/** Removes accents so "école" and "ecole" compare equal */
+export function stripAccents(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
 /** French stemmer for reducing words to roots (e.g. violence -> viol) */
 const stemmer = natural.PorterStemmerFr;
 
@@ -55,9 +60,7 @@ export class AiService {
       const stem = stemmer.stem(word);
       const isMatch = CRITICAL_ROOTS.some(
         (root) =>
-          stem === root ||
-          stem.startsWith(root) ||
-          root.startsWith(stem),
+          stem === root || stem.startsWith(root) || root.startsWith(stem),
       );
 
       if (isMatch && !seen.has(word)) {
@@ -71,4 +74,22 @@ export class AiService {
       matchedWords: [...matchedWords],
     };
   }
+
+  /**
+   * Tokenizes French text for search: lowercased, accent-free tokens.
+   * Uses the same tokenizer as analyzeUrgency.
+   */
+  tokenize(text: string): string[] {
+    if (!text || typeof text !== 'string') {
+      return [];
+    }
+    return tokenizer
+      .tokenize(stripAccents(text.trim().toLowerCase()))
+      .filter((word) => word.length >= 2);
+  }
+
+  /** French root of a single (accent-free, lowercased) word */
+  stem(word: string): string {
+    return stemmer.stem(word);
+  }
 }
@@ -0,0 +1,39 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsArray,
+  Matches,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { DocumentType } from '../../document/document-type';
+
+export enum TeamRole {
+  LEAD = 'LEAD', // The assigned analyst (Report.analystId)
+  CONTRIBUTOR = 'CONTRIBUTOR',
+}
+
+export class AddTeamMemberDto {
+  @ApiProperty({
+    example: '6990a2530ea1533dee1111ee',
+    description:
+      "User ID of the contributor. Their role must hold REPORT_ASSIGNABLE and cover the report's village.",
+  })
+  @IsString()
+  @IsNotEmpty()
+  userId: string;
+
+  @ApiPropertyOptional({
+    type: [String],
+    example: [DocumentType.PLAN_ACTION, DocumentType.SUIVI],
+    description:
+      'Documents this member produces for the case. Defaults to the procedure documents their role can upload that no other team member is responsible for.',
+  })
+  @IsArray()
+  @Matches(/^[A-Z][A-Z0-9_]*$/, {
+    each: true,
+    message: 'responsibilities must be upper-case document type codes',
+  })
+  @IsOptional()
+  responsibilities?: string[];
+}
@@ -1,12 +1,14 @@
-import { IsString, IsNotEmpty } from 'class-validator';
-import { ApiProperty } from '@nestjs/swagger';
+import { IsString, IsNotEmpty, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
 
 export class AssignReportDto {
-  @ApiProperty({
+  @ApiPropertyOptional({
     example: '6990a2530ea1533dee1111ed',
-    description: 'User ID of the analyst to assign the report to',
+    description:
+      'User ID of the analyst to assign the report to. Omit to auto-assign the best ranked analyst (see GET /reports/assignment-suggestions/:id).',
   })
+  @IsOptional()
   @IsString()
   @IsNotEmpty()
-  analystId: string;
+  analystId?: string;
 }
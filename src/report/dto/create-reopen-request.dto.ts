@@ -0,0 +1,15 @@
+import { IsString, IsNotEmpty, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateReopenRequestDto {
+  @ApiProperty({
+    example:
+      "Nouveaux éléments signalés par l'école concernant la sécurité de l'enfant.",
+    description: 'Why the archived case must be reopened (new facts)',
+    minLength: 20,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(20)
+  justification: string;
+}
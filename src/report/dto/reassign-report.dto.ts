@@ -0,0 +1,13 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { UnassignReportDto } from './unassign-report.dto';
+
+export class ReassignReportDto extends UnassignReportDto {
+  @ApiProperty({
+    example: '6990a2530ea1533dee1111ee',
+    description: 'User ID of the analyst taking over the case',
+  })
+  @IsString()
+  @IsNotEmpty()
+  analystId: string;
+}
@@ -0,0 +1,11 @@
+import { IsDateString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ReportSnapshotQueryDto {
+  @ApiProperty({
+    example: '2026-02-15T10:30:00.000Z',
+    description: 'Timestamp (ISO 8601) at which to view the report',
+  })
+  @IsDateString()
+  at: string;
+}
@@ -0,0 +1,12 @@
+import { IsString, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ReviewReopenRequestDto {
+  @ApiPropertyOptional({
+    example: 'Éléments nouveaux confirmés, réouverture justifiée.',
+    description: 'Reviewer comment recorded with the decision',
+  })
+  @IsString()
+  @IsOptional()
+  comment?: string;
+}
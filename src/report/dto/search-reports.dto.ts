@@ -0,0 +1,16 @@
+import { IsString, IsNotEmpty, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { ReportFiltersDto } from './report-filters.dto';
+
+export class SearchReportsDto extends ReportFiltersDto {
+  @ApiProperty({
+    example: 'mohamed ecole frappe',
+    description:
+      'Search text matched against child name, abuser name and description (accent-insensitive, tolerant to typos)',
+    minLength: 2,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(2)
+  q: string;
+}
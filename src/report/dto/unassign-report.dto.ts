@@ -0,0 +1,16 @@
+import { IsString, IsNotEmpty, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UnassignReportDto {
+  @ApiProperty({
+    example:
+      "Analyste en congé prolongé, dossier remis dans la file d'attente.",
+    description:
+      'Why the analyst is taken off the case (kept in the assignment history)',
+    minLength: 10,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(10)
+  reason: string;
+}
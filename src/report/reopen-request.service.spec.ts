@@ -0,0 +1,197 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ReopenRequestService } from './reopen-request.service';
+import { ReportWorkflowService } from './report-workflow.service';
+import { ReportHistoryService } from './report-history.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogService } from '../audit-log/audit-log.service';
+import { NotificationService } from '../notification/notification.service';
+import { PermissionResolverService } from '../auth/permission-resolver.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
+
+const pendingRequest = {
+  id: 'req1',
+  reportId: 'r1',
+  status: 'PENDING',
+  requestedById: 'directeur',
+  report: { villageId: 'v1' },
+};
+
+const archivedReport = {
+  id: 'r1',
+  villageId: 'v1',
+  status: 'CLOTURE',
+  isArchived: true,
+  closedAt: new Date('2026-01-10T00:00:00.000Z'),
+  closureDecision: 'Prise en charge terminée',
+  closureHistory: [],
+  documents: [{ type: 'CLOTURE' }],
+};
+
+describe('ReopenRequestService', () => {
+  let service: ReopenRequestService;
+  const prisma = {
+    report: { findUnique: jest.fn(), update: jest.fn() },
+    reopenRequest: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    user: { findMany: jest.fn() },
+  };
+  const notificationService = {
+    notifyReopenRequested: jest.fn(),
+    notifyReopenDecision: jest.fn(),
+  };
+  const auditLogService = { log: jest.fn() };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReopenRequestService,
+        ReportWorkflowService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: NotificationService, useValue: notificationService },
+        { provide: ReportHistoryService, useValue: { record: jest.fn() } },
+        { provide: AuditLogService, useValue: auditLogService },
+        {
+          provide: PermissionResolverService,
+          useValue: { assertVillageAccess: jest.fn() },
+        },
+        {
+          provide: AccessPolicyService,
+          useValue: { assertReportAccess: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ReopenRequestService>(ReopenRequestService);
+    prisma.report.findUnique.mockResolvedValue(archivedReport);
+    prisma.report.update.mockImplementation(({ data }: { data: object }) => ({
+      ...archivedReport,
+      ...data,
+    }));
+    prisma.reopenRequest.update.mockImplementation(
+      ({ data }: { data: object }) => ({
+        ...pendingRequest,
+        ...data,
+        reviewedBy: { firstName: 'Nadia', lastName: 'Jlassi' },
+      }),
+    );
+  });
+
+  it('notifies every other approver of a new request', async () => {
+    prisma.reopenRequest.findFirst.mockResolvedValue(null);
+    prisma.reopenRequest.create.mockResolvedValue({
+      ...pendingRequest,
+      requestedBy: { firstName: 'Ahmed', lastName: 'Trabelsi' },
+    });
+    prisma.user.findMany.mockResolvedValue([{ id: 'national' }]);
+
+    await service.create(
+      'r1',
+      { justification: 'Nouveaux éléments signalés par l’école.' },
+      'directeur',
+    );
+
+    expect(prisma.user.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          id: { not: 'directeur' },
+        }) as object,
+      }),
+    );
+    expect(notificationService.notifyReopenRequested).toHaveBeenCalledWith(
+      ['national'],
+      'r1',
+      'Ahmed Trabelsi',
+    );
+  });
+
+  it('refuses a second pending request for the same report', async () => {
+    prisma.reopenRequest.findFirst.mockResolvedValue(pendingRequest);
+
+    await expect(
+      service.create(
+        'r1',
+        { justification: 'Nouveaux éléments signalés par l’école.' },
+        'directeur',
+      ),
+    ).rejects.toThrow(ConflictException);
+    expect(prisma.reopenRequest.create).not.toHaveBeenCalled();
+  });
+
+  it('does not let the requester approve or reject their own request', async () => {
+    prisma.reopenRequest.findFirst.mockResolvedValue(pendingRequest);
+
+    await expect(
+      service.approve('r1', 'req1', {}, 'directeur', ['CASE_REOPEN']),
+    ).rejects.toThrow(ForbiddenException);
+    await expect(service.reject('r1', 'req1', {}, 'directeur')).rejects.toThrow(
+      ForbiddenException,
+    );
+    expect(prisma.reopenRequest.update).not.toHaveBeenCalled();
+    expect(prisma.report.update).not.toHaveBeenCalled();
+  });
+
+  it('requires CASE_REOPEN to approve', async () => {
+    prisma.reopenRequest.findFirst.mockResolvedValue(pendingRequest);
+
+    await expect(
+      service.approve('r1', 'req1', {}, 'national', ['CASE_CLOSE']),
+    ).rejects.toThrow(ConflictException);
+    expect(prisma.report.update).not.toHaveBeenCalled();
+  });
+
+  it('reopens the case and keeps the previous closure decision', async () => {
+    prisma.reopenRequest.findFirst.mockResolvedValue(pendingRequest);
+
+    const { report } = await service.approve(
+      'r1',
+      'req1',
+      { comment: 'Justification recevable' },
+      'national',
+      ['CASE_REOPEN'],
+    );
+
+    expect(report).toMatchObject({
+      status: 'EN_COURS',
+      isArchived: false,
+      closureDecision: null,
+      closureHistory: [
+        {
+          decision: 'Prise en charge terminée',
+          reopenRequestId: 'req1',
+        },
+      ],
+    });
+    expect(auditLogService.log).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'REPORT_REOPENED',
+        userId: 'national',
+      }),
+    );
+    expect(notificationService.notifyReopenDecision).toHaveBeenCalledWith(
+      'directeur',
+      'r1',
+      true,
+      'Nadia Jlassi',
+    );
+  });
+
+  it('refuses to review a request twice', async () => {
+    prisma.reopenRequest.findFirst.mockResolvedValue({
+      ...pendingRequest,
+      status: 'APPROVED',
+    });
+
+    await expect(service.reject('r1', 'req1', {}, 'national')).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+});
@@ -0,0 +1,303 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  ConflictException,
+  Inject,
+  forwardRef,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogService } from '../audit-log/audit-log.service';
+import { NotificationService } from '../notification/notification.service';
+import { ReportWorkflowService } from './report-workflow.service';
+import { ReportHistoryService } from './report-history.service';
+import { ReportStatus } from './dto/update-report.dto';
+import { CreateReopenRequestDto } from './dto/create-reopen-request.dto';
+import { ReviewReopenRequestDto } from './dto/review-reopen-request.dto';
+import {
+  PermissionResolverService,
+  coversVillageWhere,
+} from '../auth/permission-resolver.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
+import { APPROVED_DOCUMENT } from '../document/document-type';
+
+const userSummary = {
+  select: {
+    id: true,
+    firstName: true,
+    lastName: true,
+    role: { select: { name: true } },
+  },
+};
+
+/**
+ * Reopening of archived cases (dual approval).
+ * A user who can close cases requests the reopening with a justification;
+ * a different user holding CASE_REOPEN approves or rejects it.
+ */
+@Injectable()
+export class ReopenRequestService {
+  constructor(
+    private prisma: PrismaService,
+    @Inject(forwardRef(() => NotificationService))
+    private notificationService: NotificationService,
+    private workflow: ReportWorkflowService,
+    private historyService: ReportHistoryService,
+    private auditLogService: AuditLogService,
+    private permissionResolver: PermissionResolverService,
+    private accessPolicy: AccessPolicyService,
+  ) {}
+
+  async create(reportId: string, dto: CreateReopenRequestDto, userId: string) {
+    const report = await this.prisma.report.findUnique({
+      where: { id: reportId },
+    });
+
+    if (!report) {
+      throw new NotFoundException(`Report with ID ${reportId} not found`);
+    }
+
+    await this.permissionResolver.assertVillageAccess(userId, report.villageId);
+
+    if (!report.isArchived) {
+      throw new BadRequestException(
+        'Only archived (closed) reports can be reopened.',
+      );
+    }
+
+    const pending = await this.prisma.reopenRequest.findFirst({
+      where: { reportId, status: 'PENDING' },
+    });
+    if (pending) {
+      throw new ConflictException(
+        `A reopen request is already pending for this report (ID ${pending.id})`,
+      );
+    }
+
+    const request = await this.prisma.reopenRequest.create({
+      data: {
+        reportId,
+        justification: dto.justification,
+        requestedById: userId,
+      },
+      include: { requestedBy: userSummary },
+    });
+
+    await this.auditLogService.log({
+      action: 'REOPEN_REQUESTED',
+      details: `Reopen requested: ${dto.justification}`,
+      userId,
+      reportId,
+    });
+
+    // Notify everyone who can approve, except the requester
+    const approvers = await this.prisma.user.findMany({
+      where: {
+        id: { not: userId },
+        status: 'APPROVED',
+        role: { permissions: { has: 'CASE_REOPEN' } },
+        ...coversVillageWhere(report.villageId),
+      },
+      select: { id: true },
+    });
+
+    await this.notificationService.notifyReopenRequested(
+      approvers.map((a) => a.id),
+      reportId,
+      `${request.requestedBy.firstName} ${request.requestedBy.lastName}`,
+    );
+
+    return {
+      message: 'Reopen request submitted. It must be approved by another user.',
+      request,
+    };
+  }
+
+  async findByReport(
+    reportId: string,
+    userId: string,
+    userPermissions: string[],
+  ) {
+    const report = await this.prisma.report.findUnique({
+      where: { id: reportId },
+    });
+
+    if (!report) {
+      throw new NotFoundException(`Report with ID ${reportId} not found`);
+    }
+
+    await this.accessPolicy.assertReportAccess(userId, userPermissions, report);
+
+    return this.prisma.reopenRequest.findMany({
+      where: { reportId },
+      include: { requestedBy: userSummary, reviewedBy: userSummary },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async approve(
+    reportId: string,
+    requestId: string,
+    dto: ReviewReopenRequestDto,
+    userId: string,
+    userPermissions: string[],
+  ) {
+    const request = await this.findPending(reportId, requestId, userId);
+
+    const report = await this.prisma.report.findUnique({
+      where: { id: reportId },
+      include: {
+        documents: { where: APPROVED_DOCUMENT, select: { type: true } },
+      },
+    });
+
+    if (!report) {
+      throw new NotFoundException(`Report with ID ${reportId} not found`);
+    }
+
+    this.workflow.assertTransition(
+      report,
+      ReportStatus.EN_COURS,
+      'reopen',
+      userPermissions,
+    );
+
+    const reviewedAt = new Date();
+
+    const reviewed = await this.prisma.reopenRequest.update({
+      where: { id: request.id },
+      data: {
+        status: 'APPROVED',
+        reviewedById: userId,
+        reviewComment: dto.comment,
+        reviewedAt,
+      },
+      include: { requestedBy: userSummary, reviewedBy: userSummary },
+    });
+
+    // Keep the previous closure decision as history
+    const updatedReport = await this.prisma.report.update({
+      where: { id: reportId },
+      data: {
+        status: ReportStatus.EN_COURS,
+        isArchived: false,
+        closedAt: null,
+        closureDecision: null,
+        closureHistory: [
+          ...report.closureHistory,
+          {
+            decision: report.closureDecision,
+            closedAt: report.closedAt,
+            reopenedAt: reviewedAt,
+            reopenRequestId: request.id,
+          },
+        ],
+      },
+    });
+
+    await this.historyService.record(
+      reportId,
+      report,
+      updatedReport,
+      'REPORT_REOPENED',
+      userId,
+    );
+
+    await this.auditLogService.log({
+      action: 'REPORT_REOPENED',
+      details: `Case reopened (request ${request.id} approved). Previous decision: ${report.closureDecision ?? 'none'}.${dto.comment ? ` Comment: ${dto.comment}` : ''}`,
+      userId,
+      reportId,
+    });
+
+    await this.notificationService.notifyReopenDecision(
+      request.requestedById,
+      reportId,
+      true,
+      `${reviewed.reviewedBy?.firstName} ${reviewed.reviewedBy?.lastName}`,
+    );
+
+    return {
+      message: 'Reopen request approved. Report is back to EN_COURS.',
+      request: reviewed,
+      report: updatedReport,
+    };
+  }
+
+  async reject(
+    reportId: string,
+    requestId: string,
+    dto: ReviewReopenRequestDto,
+    userId: string,
+  ) {
+    const request = await this.findPending(reportId, requestId, userId);
+
+    const reviewed = await this.prisma.reopenRequest.update({
+      where: { id: request.id },
+      data: {
+        status: 'REJECTED',
+        reviewedById: userId,
+        reviewComment: dto.comment,
+        reviewedAt: new Date(),
+      },
+      include: { requestedBy: userSummary, reviewedBy: userSummary },
+    });
+
+    await this.auditLogService.log({
+      action: 'REOPEN_REJECTED',
+      details: `Reopen request ${request.id} rejected.${dto.comment ? ` Comment: ${dto.comment}` : ''}`,
+      userId,
+      reportId,
+    });
+
+    await this.notificationService.notifyReopenDecision(
+      request.requestedById,
+      reportId,
+      false,
+      `${reviewed.reviewedBy?.firstName} ${reviewed.reviewedBy?.lastName}`,
+    );
+
+    return {
+      message: 'Reopen request rejected. Report stays archived.',
+      request: reviewed,
+    };
+  }
+
+  /** Load a pending request and enforce that the reviewer is not the requester */
+  private async findPending(
+    reportId: string,
+    requestId: string,
+    reviewerId: string,
+  ) {
+    const request = await this.prisma.reopenRequest.findFirst({
+      where: { id: requestId, reportId },
+      include: { report: { select: { villageId: true } } },
+    });
+
+    if (!request) {
+      throw new NotFoundException(
+        `Reopen request with ID ${requestId} not found for this report`,
+      );
+    }
+
+    await this.permissionResolver.assertVillageAccess(
+      reviewerId,
+      request.report.villageId,
+    );
+
+    if (request.status !== 'PENDING') {
+      throw new BadRequestException(
+        `Reopen request already reviewed (current status: ${request.status})`,
+      );
+    }
+
+    if (request.requestedById === reviewerId) {
+      throw new ForbiddenException(
+        'Dual approval required: a reopen request must be reviewed by another user.',
+      );
+    }
+
+    return request;
+  }
+}
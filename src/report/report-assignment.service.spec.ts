@@ -0,0 +1,176 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  ReportAssignmentService,
+  assignmentPeriods,
+} from './report-assignment.service';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  DEFAULT_PROCEDURE_STEPS,
+  ProcedureTemplateService,
+} from '../procedure-template/procedure-template.service';
+
+const psychologue = {
+  id: 'psy',
+  firstName: 'Sami',
+  lastName: 'Ben Ali',
+  villageId: 'v1',
+  role: {
+    name: 'Psychologue',
+    permissions: ['REPORT_ASSIGNABLE', 'DOC_UPLOAD_DPE'],
+  },
+};
+
+const assistant = {
+  id: 'as',
+  firstName: 'Amel',
+  lastName: 'Trabelsi',
+  villageId: 'v2',
+  role: {
+    name: 'Assistant Social',
+    permissions: ['REPORT_ASSIGNABLE', 'DOC_UPLOAD_PLAN_ACTION'],
+  },
+};
+
+describe('ReportAssignmentService', () => {
+  let service: ReportAssignmentService;
+  const prisma = {
+    user: { findMany: jest.fn() },
+    report: { findMany: jest.fn() },
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReportAssignmentService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: ProcedureTemplateService,
+          useValue: {
+            stepsFor: jest.fn().mockResolvedValue(DEFAULT_PROCEDURE_STEPS),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ReportAssignmentService>(ReportAssignmentService);
+  });
+
+  const report = {
+    villageId: 'v1',
+    urgency: 'MOYENNE',
+    isCritical: false,
+    documents: [{ type: 'FICHE_INITIAL' }],
+  };
+
+  it('prefers the role that can upload the next procedure document', () => {
+    const { nextStep, candidates } = service.rank(
+      report,
+      [assistant, psychologue],
+      [],
+    );
+
+    expect(nextStep).toBe('Rapport DPE');
+    expect(candidates.map((c) => c.analyst.id)).toEqual(['psy', 'as']);
+    expect(candidates[0].reasons).toContain(
+      'Psychologue can upload the next document (Rapport DPE)',
+    );
+  });
+
+  it('ranks the lighter caseload first when roles are equivalent', () => {
+    const { candidates } = service.rank(
+      { ...report, documents: [{ type: 'RAPPORT_DPE' }] },
+      [psychologue, { ...psychologue, id: 'psy2', lastName: 'Zouari' }],
+      [
+        { analystId: 'psy', urgency: 'BASSE', isCritical: false },
+        { analystId: 'psy', urgency: 'BASSE', isCritical: false },
+      ],
+    );
+
+    expect(candidates.map((c) => [c.analyst.id, c.openCases])).toEqual([
+      ['psy2', 0],
+      ['psy', 2],
+    ]);
+  });
+
+  it('weighs urgent caseload only for urgent reports', () => {
+    const analysts = [
+      { ...psychologue, villageId: null },
+      { ...psychologue, id: 'psy2', villageId: null },
+    ];
+    const openCases = [
+      { analystId: 'psy', urgency: 'CRITIQUE', isCritical: false },
+      { analystId: 'psy2', urgency: 'BASSE', isCritical: false },
+    ];
+
+    const normal = service.rank(report, analysts, openCases);
+    expect(normal.candidates[0].score).toBe(normal.candidates[1].score);
+
+    const urgent = service.rank(
+      { ...report, isCritical: true },
+      analysts,
+      openCases,
+    );
+    expect(urgent.candidates[0].analyst.id).toBe('psy2');
+    expect(urgent.candidates[1].urgentOpenCases).toBe(1);
+  });
+
+  it('only counts open cases of eligible analysts', async () => {
+    prisma.user.findMany.mockResolvedValue([psychologue]);
+    prisma.report.findMany.mockResolvedValue([]);
+
+    const result = await service.rankCandidates(report);
+
+    expect(prisma.report.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { analystId: { in: ['psy'] }, status: 'EN_COURS' },
+      }),
+    );
+    expect(result.candidates).toHaveLength(1);
+  });
+
+  it('returns no candidates when nobody covers the village', async () => {
+    prisma.user.findMany.mockResolvedValue([]);
+
+    const result = await service.rankCandidates(report);
+
+    expect(prisma.report.findMany).not.toHaveBeenCalled();
+    expect(result).toEqual({ nextStep: null, candidates: [] });
+  });
+
+  it('turns the assignment history into assignment periods', () => {
+    const at = (day: number) => new Date(2026, 0, day);
+    const periods = assignmentPeriods([
+      {
+        reportId: 'r1',
+        toAnalystId: 'psy',
+        createdAt: at(1),
+        report: { closedAt: at(20) },
+      },
+      {
+        reportId: 'r2',
+        toAnalystId: 'as',
+        createdAt: at(2),
+        report: { closedAt: null },
+      },
+      {
+        reportId: 'r1',
+        toAnalystId: 'psy2',
+        createdAt: at(5),
+        report: { closedAt: at(20) },
+      },
+      {
+        reportId: 'r2',
+        toAnalystId: null,
+        createdAt: at(6),
+        report: { closedAt: null },
+      },
+    ]);
+
+    expect(periods).toEqual([
+      { reportId: 'r1', analystId: 'psy', start: at(1), end: at(5) },
+      { reportId: 'r2', analystId: 'as', start: at(2), end: at(6) },
+      { reportId: 'r1', analystId: 'psy2', start: at(5), end: at(20) },
+    ]);
+  });
+});
@@ -0,0 +1,274 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { coversVillageWhere } from '../auth/permission-resolver.service';
+import { POLICY_PERMISSIONS } from '../auth/access-policy.service';
+import {
+  DEFAULT_PROCEDURE_STEPS,
+  ProcedureTemplateService,
+} from '../procedure-template/procedure-template.service';
+import type { ProcedureStepDefinition } from '../procedure-template/procedure-template.service';
+import { ReportStatus } from './dto/update-report.dto';
+import { UrgencyLevel } from './dto/create-report.dto';
+
+/** Score adjustments used to rank analysts (higher score = better fit) */
+const BASE_SCORE = 100;
+const OPEN_CASE_PENALTY = 10;
+const URGENT_CASE_PENALTY = 15; // Only when the report itself is urgent
+const NEXT_STEP_BONUS = 30;
+const HOME_VILLAGE_BONUS = 5;
+
+export interface AssignmentReport {
+  villageId: string;
+  urgency: string;
+  isCritical: boolean;
+  documents?: { type: string }[];
+  procedureTemplateId?: string | null;
+}
+
+export interface AssignmentCandidate {
+  analyst: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    role: string;
+  };
+  score: number;
+  openCases: number;
+  urgentOpenCases: number;
+  reasons: string[];
+}
+
+export type AssignmentAction =
+  | 'ASSIGNED'
+  | 'AUTO_ASSIGNED'
+  | 'REASSIGNED'
+  | 'UNASSIGNED';
+
+/** One entry of a report's assignment history */
+export interface AssignmentChange {
+  reportId: string;
+  action: AssignmentAction;
+  fromAnalystId: string | null;
+  toAnalystId: string | null;
+  reason?: string;
+  /** Null when the system assigned the report */
+  changedById: string | null;
+}
+
+/** Time an analyst held a report; end is null while still assigned */
+export interface AssignmentPeriod {
+  reportId: string;
+  analystId: string;
+  start: Date;
+  end: Date | null;
+}
+
+interface EligibleAnalyst {
+  id: string;
+  firstName: string;
+  lastName: string;
+  villageId: string | null;
+  role: { name: string; permissions: string[] };
+}
+
+interface OpenCase {
+  analystId: string | null;
+  urgency: string;
+  isCritical: boolean;
+}
+
+/** HAUTE / CRITIQUE urgency or critical keywords detected */
+export function isUrgentReport(report: {
+  urgency: string;
+  isCritical: boolean;
+}) {
+  return (
+    report.isCritical ||
+    report.urgency === (UrgencyLevel.HAUTE as string) ||
+    report.urgency === (UrgencyLevel.CRITIQUE as string)
+  );
+}
+
+/**
+ * Turn assignment history entries (oldest first) into assignment periods.
+ * A period ends with the next change on the same report or, failing that,
+ * when the report was closed.
+ */
+export function assignmentPeriods(
+  changes: {
+    reportId: string;
+    toAnalystId: string | null;
+    createdAt: Date;
+    report: { closedAt: Date | null };
+  }[],
+): AssignmentPeriod[] {
+  return changes.flatMap((change, index) => {
+    if (!change.toAnalystId) {
+      return [];
+    }
+    const next = changes
+      .slice(index + 1)
+      .find((c) => c.reportId === change.reportId);
+    return [
+      {
+        reportId: change.reportId,
+        analystId: change.toAnalystId,
+        start: change.createdAt,
+        end: next?.createdAt ?? change.report.closedAt,
+      },
+    ];
+  });
+}
+
+const userSummary = {
+  select: {
+    id: true,
+    firstName: true,
+    lastName: true,
+    role: { select: { name: true } },
+  },
+};
+
+/**
+ * Ranks the analysts eligible for a report: approved users whose role holds
+ * REPORT_ASSIGNABLE and covers the report's village. Fewer open (EN_COURS)
+ * cases rank higher, urgent caseload weighs more for urgent reports, and
+ * roles able to upload the next procedure document are preferred.
+ * Also keeps the structured assignment history of each report.
+ */
+@Injectable()
+export class ReportAssignmentService {
+  constructor(
+    private prisma: PrismaService,
+    private templateService: ProcedureTemplateService,
+  ) {}
+
+  async rankCandidates(report: AssignmentReport) {
+    const analysts = await this.prisma.user.findMany({
+      where: {
+        status: 'APPROVED',
+        role: {
+          permissions: { has: POLICY_PERMISSIONS.assignableAsAnalyst },
+        },
+        ...coversVillageWhere(report.villageId),
+      },
+      select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+        villageId: true,
+        role: { select: { name: true, permissions: true } },
+      },
+    });
+
+    const openCases = analysts.length
+      ? await this.prisma.report.findMany({
+          where: {
+            analystId: { in: analysts.map((a) => a.id) },
+            status: ReportStatus.EN_COURS,
+          },
+          select: { analystId: true, urgency: true, isCritical: true },
+        })
+      : [];
+
+    return this.rank(
+      report,
+      analysts,
+      openCases,
+      await this.templateService.stepsFor(report),
+    );
+  }
+
+  async record(change: AssignmentChange) {
+    return this.prisma.reportAssignment.create({ data: change });
+  }
+
+  /** Assignment history of a report, oldest first */
+  async findHistory(reportId: string) {
+    return this.prisma.reportAssignment.findMany({
+      where: { reportId },
+      include: {
+        fromAnalyst: userSummary,
+        toAnalyst: userSummary,
+        changedBy: userSummary,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /** Pure ranking, separated from the queries for testing */
+  rank(
+    report: AssignmentReport,
+    analysts: EligibleAnalyst[],
+    openCases: OpenCase[],
+    steps: ProcedureStepDefinition[] = DEFAULT_PROCEDURE_STEPS,
+  ) {
+    const urgent = isUrgentReport(report);
+    const nextStep = this.nextStep(report, analysts, steps);
+
+    const candidates: AssignmentCandidate[] = analysts.map((analyst) => {
+      const own = openCases.filter((c) => c.analystId === analyst.id);
+      const urgentOwn = own.filter(isUrgentReport).length;
+      const reasons = [`${own.length} open case(s) in progress`];
+      let score = BASE_SCORE - own.length * OPEN_CASE_PENALTY;
+
+      if (urgent) {
+        score -= urgentOwn * URGENT_CASE_PENALTY;
+        reasons.push(
+          urgentOwn > 0
+            ? `${urgentOwn} urgent case(s) in progress`
+            : 'No urgent case in progress',
+        );
+      }
+      if (nextStep && analyst.role.permissions.includes(nextStep.permission)) {
+        score += NEXT_STEP_BONUS;
+        reasons.push(
+          `${analyst.role.name} can upload the next document (${nextStep.name})`,
+        );
+      }
+      if (analyst.villageId === report.villageId) {
+        score += HOME_VILLAGE_BONUS;
+        reasons.push("Based in the report's village");
+      }
+
+      return {
+        analyst: {
+          id: analyst.id,
+          firstName: analyst.firstName,
+          lastName: analyst.lastName,
+          role: analyst.role.name,
+        },
+        score,
+        openCases: own.length,
+        urgentOpenCases: urgentOwn,
+        reasons,
+      };
+    });
+
+    candidates.sort(
+      (a, b) =>
+        b.score - a.score ||
+        a.openCases - b.openCases ||
+        a.analyst.lastName.localeCompare(b.analyst.lastName),
+    );
+
+    return { nextStep: nextStep?.name ?? null, candidates };
+  }
+
+  /** First required document still missing that one of the analysts can upload */
+  private nextStep(
+    report: AssignmentReport,
+    analysts: EligibleAnalyst[],
+    steps: ProcedureStepDefinition[],
+  ) {
+    const uploaded = (report.documents ?? []).map((d) => d.type);
+    return (
+      steps.find(
+        (step) =>
+          step.required &&
+          !uploaded.includes(step.docType) &&
+          analysts.some((a) => a.role.permissions.includes(step.permission)),
+      ) ?? null
+    );
+  }
+}
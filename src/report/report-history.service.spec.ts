@@ -0,0 +1,68 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { ReportHistoryService } from './report-history.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('ReportHistoryService', () => {
+  let service: ReportHistoryService;
+  const prisma = {
+    reportVersion: { findFirst: jest.fn(), create: jest.fn() },
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReportHistoryService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<ReportHistoryService>(ReportHistoryService);
+  });
+
+  it('records only the fields that changed', () => {
+    const changes = service.diff(
+      { urgency: 'MOYEN', description: 'Même texte', status: 'ATTENTE' },
+      { urgency: 'ELEVE', description: 'Même texte', status: 'ATTENTE' },
+    );
+
+    expect(changes).toEqual([
+      { field: 'urgency', before: 'MOYEN', after: 'ELEVE' },
+    ]);
+  });
+
+  it('stores dates as ISO strings and missing values as null', () => {
+    const closedAt = new Date('2026-02-15T10:30:00.000Z');
+    const changes = service.diff({}, { closedAt });
+
+    expect(changes).toEqual([
+      { field: 'closedAt', before: null, after: '2026-02-15T10:30:00.000Z' },
+    ]);
+  });
+
+  it('takes the next version when a concurrent mutation took it', async () => {
+    prisma.reportVersion.findFirst
+      .mockResolvedValueOnce({ version: 1 })
+      .mockResolvedValueOnce({ version: 2 });
+    prisma.reportVersion.create
+      .mockRejectedValueOnce(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: Prisma.prismaVersion.client,
+        }),
+      )
+      .mockImplementationOnce(({ data }: { data: object }) => data);
+
+    await expect(
+      service.record(
+        'r1',
+        { status: 'ATTENTE' },
+        { status: 'EN_COURS' },
+        'UPDATE',
+        'u1',
+      ),
+    ).resolves.toMatchObject({ reportId: 'r1', version: 3 });
+    expect(prisma.reportVersion.create).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,172 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+/** Report fields whose before/after values are versioned */
+export const TRACKED_FIELDS = [
+  'incidentType',
+  'urgency',
+  'status',
+  'isAnonymous',
+  'villageId',
+  'childName',
+  'abuserName',
+  'description',
+  'isCritical',
+  'criticalMatchedWords',
+  'attachments',
+  'analystId',
+  'closedAt',
+  'isArchived',
+  'closureDecision',
+  'closureHistory',
+] as const;
+
+export type TrackedField = (typeof TRACKED_FIELDS)[number];
+
+export interface FieldChange {
+  field: TrackedField;
+  before: Prisma.JsonValue;
+  after: Prisma.JsonValue;
+}
+
+/** Concurrent mutations of a report competing for the next version number */
+const MAX_VERSION_ATTEMPTS = 5;
+
+/** Serialize a field value the way it is stored in ReportVersion (dates as ISO strings) */
+function toJson(value: unknown): Prisma.JsonValue {
+  if (value === undefined) return null;
+  return JSON.parse(JSON.stringify(value)) as Prisma.JsonValue;
+}
+
+/**
+ * Field-level change history for reports (legal traceability).
+ * Every mutation stores a version with the before/after value of each changed field,
+ * so the report can be reconstructed as it was at any past timestamp.
+ */
+@Injectable()
+export class ReportHistoryService {
+  constructor(private prisma: PrismaService) {}
+
+  /** Compute per-field differences between two states of a report */
+  diff(
+    before: Partial<Record<TrackedField, unknown>>,
+    after: Partial<Record<TrackedField, unknown>>,
+  ): FieldChange[] {
+    const changes: FieldChange[] = [];
+    for (const field of TRACKED_FIELDS) {
+      const oldValue = toJson(before[field]);
+      const newValue = toJson(after[field]);
+      if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+        changes.push({ field, before: oldValue, after: newValue });
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * Store a new version for a report mutation.
+   * Pass before = {} for the creation version and userId = null for system
+   * changes (automatic assignment). No-op when nothing changed.
+   */
+  async record(
+    reportId: string,
+    before: Partial<Record<TrackedField, unknown>>,
+    after: Partial<Record<TrackedField, unknown>>,
+    action: string,
+    userId: string | null,
+  ) {
+    const changes = this.diff(before, after);
+    if (changes.length === 0) {
+      return null;
+    }
+
+    const data = {
+      reportId,
+      action,
+      changes: changes.map((c) => ({
+        field: c.field,
+        before: c.before as Prisma.InputJsonValue | null,
+        after: c.after as Prisma.InputJsonValue | null,
+      })),
+      changedById: userId,
+    };
+
+    for (let attempt = 1; ; attempt++) {
+      const last = await this.prisma.reportVersion.findFirst({
+        where: { reportId },
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      });
+      try {
+        return await this.prisma.reportVersion.create({
+          data: { ...data, version: (last?.version ?? 0) + 1 },
+        });
+      } catch (error) {
+        // @@unique([reportId, version]): another mutation took the number
+        const taken =
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === 'P2002';
+        if (!taken || attempt >= MAX_VERSION_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  async findVersions(reportId: string) {
+    return this.prisma.reportVersion.findMany({
+      where: { reportId },
+      include: {
+        changedBy: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            role: { select: { name: true } },
+          },
+        },
+      },
+      orderBy: { version: 'desc' },
+    });
+  }
+
+  /**
+   * Rebuild the tracked fields of a report as they were at `at`,
+   * by undoing every version recorded after that timestamp.
+   */
+  async snapshotAt(
+    current: Partial<Record<TrackedField, unknown>>,
+    reportId: string,
+    at: Date,
+  ) {
+    const state: Record<string, Prisma.JsonValue> = {};
+    for (const field of TRACKED_FIELDS) {
+      state[field] = toJson(current[field]);
+    }
+
+    const later = await this.prisma.reportVersion.findMany({
+      where: { reportId, createdAt: { gt: at } },
+      orderBy: { version: 'desc' },
+    });
+
+    for (const version of later) {
+      for (const change of version.changes) {
+        state[change.field] = change.before;
+      }
+    }
+
+    const applied = await this.prisma.reportVersion.findFirst({
+      where: { reportId, createdAt: { lte: at } },
+      orderBy: { version: 'desc' },
+      select: { version: true, createdAt: true },
+    });
+
+    return {
+      asOf: at,
+      version: applied?.version ?? null,
+      versionCreatedAt: applied?.createdAt ?? null,
+      report: state,
+    };
+  }
+}
@@ -0,0 +1,77 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ReportSearchService } from './report-search.service';
+import { AiService } from './ai.service';
+
+describe('ReportSearchService', () => {
+  let service: ReportSearchService;
+
+  const reports = [
+    {
+      id: 'r1',
+      childName: 'Yassine',
+      abuserName: null,
+      description: "L'enfant a été frappé à la sortie de l'école.",
+    },
+    {
+      id: 'r2',
+      childName: 'Mohamed Ben Salah',
+      abuserName: 'Karim',
+      description: 'Problème de santé signalé par la mère.',
+    },
+  ];
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [ReportSearchService, AiService],
+    }).compile();
+
+    service = module.get<ReportSearchService>(ReportSearchService);
+  });
+
+  it('matches regardless of accents and word forms', () => {
+    const hits = service.rank(reports, 'ecole frapper');
+
+    expect(hits.map((h) => h.id)).toEqual(['r1']);
+    expect(hits[0].highlights.description).toContain('<mark>frappé</mark>');
+    expect(hits[0].highlights.description).toContain('<mark>école</mark>');
+  });
+
+  it('tolerates typos in names', () => {
+    const hits = service.rank(reports, 'mohammed');
+
+    expect(hits.map((h) => h.id)).toEqual(['r2']);
+    expect(hits[0].highlights.childName).toBe('<mark>Mohamed</mark> Ben Salah');
+  });
+
+  it('ranks name matches above description matches', () => {
+    const hits = service.rank(
+      [
+        { ...reports[0], id: 'desc', description: 'Karim était présent.' },
+        { ...reports[1], id: 'name' },
+      ],
+      'karim',
+    );
+
+    expect(hits.map((h) => h.id)).toEqual(['name', 'desc']);
+  });
+
+  it('escapes user text around highlighted matches', () => {
+    const hits = service.rank(
+      [
+        {
+          ...reports[0],
+          description: '<script>alert("école")</script> frappé <b>ici</b>',
+        },
+      ],
+      'ecole',
+    );
+
+    expect(hits[0].highlights.description).toBe(
+      '&lt;script&gt;alert(&quot;<mark>école</mark>&quot;)&lt;/script&gt; frappé &lt;b&gt;ici&lt;/b&gt;',
+    );
+  });
+
+  it('ignores stopwords-only queries', () => {
+    expect(service.rank(reports, 'de la')).toEqual([]);
+  });
+});
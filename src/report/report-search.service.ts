@@ -0,0 +1,244 @@
+import { Injectable } from '@nestjs/common';
+import * as natural from 'natural';
+import { AiService, stripAccents } from './ai.service';
+
+/** Report fields covered by full-text search */
+export type SearchField = 'childName' | 'abuserName' | 'description';
+
+export interface SearchableReport {
+  id: string;
+  childName: string;
+  abuserName: string | null;
+  description: string;
+}
+
+export interface SearchHit {
+  id: string;
+  score: number;
+  matchedFields: SearchField[];
+  /** Field values (names) or snippets (description) HTML-escaped, with matches wrapped in <mark> */
+  highlights: Partial<Record<SearchField, string>>;
+}
+
+interface QueryTerm {
+  word: string;
+  stem: string;
+}
+
+interface WordMatch {
+  start: number;
+  end: number;
+  termIndex: number;
+  exact: boolean;
+}
+
+/** Names weigh more than words found in the free-text description */
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  childName: 3,
+  abuserName: 3,
+  description: 1,
+};
+
+const EXACT_SCORE = 1;
+const FUZZY_SCORE = 0.6;
+/** Extra score per additional occurrence of a term in the same field */
+const REPEAT_BONUS = 0.1;
+const MAX_REPEAT_BONUS = 0.5;
+/** Characters of context kept on each side of the first match in snippets */
+const SNIPPET_RADIUS = 60;
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/** Highlights are HTML: user text must not be able to inject markup */
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => HTML_ESCAPES[c]);
+}
+
+/** Common French words ignored in queries (accent-free, as produced by tokenize) */
+const STOPWORDS = new Set([
+  'au',
+  'aux',
+  'avec',
+  'ce',
+  'ces',
+  'dans',
+  'de',
+  'des',
+  'du',
+  'en',
+  'et',
+  'il',
+  'elle',
+  'la',
+  'le',
+  'les',
+  'leur',
+  'ne',
+  'ou',
+  'par',
+  'pas',
+  'pour',
+  'qu',
+  'que',
+  'qui',
+  'sa',
+  'se',
+  'ses',
+  'son',
+  'sur',
+  'un',
+  'une',
+]);
+
+/**
+ * Accent-insensitive French search with stemming (natural PorterStemmerFr),
+ * typo tolerance (Levenshtein) and prefix matching, ranked by field weight
+ * and by how many query terms a report matches.
+ */
+@Injectable()
+export class ReportSearchService {
+  constructor(private aiService: AiService) {}
+
+  rank(reports: SearchableReport[], query: string): SearchHit[] {
+    const terms = this.parseQuery(query);
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const hits: SearchHit[] = [];
+
+    for (const report of reports) {
+      const matchedTerms = new Set<number>();
+      const matchedFields: SearchField[] = [];
+      const highlights: Partial<Record<SearchField, string>> = {};
+      let score = 0;
+
+      for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+        const text = report[field];
+        if (!text) continue;
+
+        const matches = this.findMatches(text, terms);
+        if (matches.length === 0) continue;
+
+        matches.forEach((m) => matchedTerms.add(m.termIndex));
+        matchedFields.push(field);
+        score += FIELD_WEIGHTS[field] * this.fieldScore(matches);
+        highlights[field] =
+          field === 'description'
+            ? this.snippet(text, matches)
+            : this.highlight(text, matches);
+      }
+
+      if (score === 0) continue;
+
+      // Reports matching every query term rank above partial matches
+      const coverage = matchedTerms.size / terms.length;
+      hits.push({
+        id: report.id,
+        score: Math.round(score * coverage * 100) / 100,
+        matchedFields,
+        highlights,
+      });
+    }
+
+    return hits.sort((a, b) => b.score - a.score);
+  }
+
+  private parseQuery(query: string): QueryTerm[] {
+    const words = [
+      ...new Set(
+        this.aiService.tokenize(query).filter((w) => !STOPWORDS.has(w)),
+      ),
+    ];
+    return words.map((word) => ({ word, stem: this.aiService.stem(word) }));
+  }
+
+  private findMatches(text: string, terms: QueryTerm[]): WordMatch[] {
+    const matches: WordMatch[] = [];
+
+    for (const match of text.matchAll(WORD_PATTERN)) {
+      const word = stripAccents(match[0].toLowerCase());
+      if (word.length < 2) continue;
+
+      const stem = this.aiService.stem(word);
+      const start = match.index;
+      const end = start + match[0].length;
+
+      const exactIndex = terms.findIndex(
+        (t) => t.word === word || t.stem === stem,
+      );
+      if (exactIndex !== -1) {
+        matches.push({ start, end, termIndex: exactIndex, exact: true });
+        continue;
+      }
+
+      const fuzzyIndex = terms.findIndex((t) => this.isFuzzyMatch(word, t));
+      if (fuzzyIndex !== -1) {
+        matches.push({ start, end, termIndex: fuzzyIndex, exact: false });
+      }
+    }
+
+    return matches;
+  }
+
+  /** Prefix match ("moham" → "mohamed") or small typo, scaled to word length */
+  private isFuzzyMatch(word: string, term: QueryTerm): boolean {
+    if (term.word.length >= 3 && word.startsWith(term.word)) {
+      return true;
+    }
+    const maxDistance =
+      term.word.length >= 8 ? 2 : term.word.length >= 5 ? 1 : 0;
+    return (
+      maxDistance > 0 &&
+      natural.LevenshteinDistance(word, term.word) <= maxDistance
+    );
+  }
+
+  private fieldScore(matches: WordMatch[]): number {
+    const byTerm = new Map<number, WordMatch[]>();
+    for (const m of matches) {
+      byTerm.set(m.termIndex, [...(byTerm.get(m.termIndex) ?? []), m]);
+    }
+
+    let score = 0;
+    for (const termMatches of byTerm.values()) {
+      const best = termMatches.some((m) => m.exact) ? EXACT_SCORE : FUZZY_SCORE;
+      const repeats = Math.min(
+        (termMatches.length - 1) * REPEAT_BONUS,
+        MAX_REPEAT_BONUS,
+      );
+      score += best + repeats;
+    }
+    return score;
+  }
+
+  private highlight(text: string, matches: WordMatch[]): string {
+    let result = '';
+    let cursor = 0;
+    for (const m of matches) {
+      result += `${escapeHtml(text.slice(cursor, m.start))}<mark>${escapeHtml(text.slice(m.start, m.end))}</mark>`;
+      cursor = m.end;
+    }
+    return result + escapeHtml(text.slice(cursor));
+  }
+
+  private snippet(text: string, matches: WordMatch[]): string {
+    const from = Math.max(0, matches[0].start - SNIPPET_RADIUS);
+    const to = Math.min(text.length, matches[0].end + SNIPPET_RADIUS);
+
+    const inWindow = matches
+      .filter((m) => m.start >= from && m.end <= to)
+      .map((m) => ({ ...m, start: m.start - from, end: m.end - from }));
+
+    const prefix = from > 0 ? '…' : '';
+    const suffix = to < text.length ? '…' : '';
+    return `${prefix}${this.highlight(text.slice(from, to), inWindow)}${suffix}`;
+  }
+}
@@ -0,0 +1,165 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ReportTeamService } from './report-team.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogService } from '../audit-log/audit-log.service';
+import { NotificationService } from '../notification/notification.service';
+import { PermissionResolverService } from '../auth/permission-resolver.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
+import { DocumentType } from '../document/document-type';
+import {
+  DEFAULT_PROCEDURE_STEPS,
+  ProcedureTemplateService,
+} from '../procedure-template/procedure-template.service';
+
+const assistantSocial = {
+  id: 'as',
+  firstName: 'Amel',
+  lastName: 'Trabelsi',
+  status: 'APPROVED',
+  role: {
+    name: 'Assistant Social',
+    permissions: [
+      'REPORT_ASSIGNABLE',
+      'DOC_UPLOAD_PLAN_ACTION',
+      'DOC_UPLOAD_SUIVI',
+    ],
+  },
+};
+
+describe('ReportTeamService', () => {
+  let service: ReportTeamService;
+  const prisma = {
+    report: { findUnique: jest.fn() },
+    user: { findUnique: jest.fn() },
+    reportTeamMember: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      delete: jest.fn(),
+    },
+  };
+  const notificationService = {
+    notifyTeamMemberAdded: jest.fn(),
+    notifyTeamMemberRemoved: jest.fn(),
+  };
+
+  const report = {
+    id: 'r1',
+    villageId: 'v1',
+    incidentType: 'Violence',
+    isArchived: false,
+    analystId: 'psy',
+    team: [
+      {
+        userId: 'psy',
+        role: 'LEAD',
+        responsibilities: ['RAPPORT_DPE', 'EVALUATION', 'SUIVI'],
+      },
+    ],
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReportTeamService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: NotificationService, useValue: notificationService },
+        { provide: AuditLogService, useValue: { log: jest.fn() } },
+        {
+          provide: PermissionResolverService,
+          useValue: { assertVillageAccess: jest.fn() },
+        },
+        {
+          provide: AccessPolicyService,
+          useValue: { assertAssignableAnalyst: jest.fn() },
+        },
+        {
+          provide: ProcedureTemplateService,
+          useValue: {
+            stepsFor: jest.fn().mockResolvedValue(DEFAULT_PROCEDURE_STEPS),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ReportTeamService>(ReportTeamService);
+    prisma.report.findUnique.mockResolvedValue(report);
+    prisma.user.findUnique.mockResolvedValue(assistantSocial);
+    prisma.reportTeamMember.create.mockImplementation(
+      ({ data }: { data: object }) => data,
+    );
+  });
+
+  it('defaults responsibilities to documents no other member covers', async () => {
+    const { member } = await service.addMember(
+      'r1',
+      { userId: 'as' },
+      'directeur',
+    );
+
+    expect(member).toMatchObject({
+      role: 'CONTRIBUTOR',
+      responsibilities: ['PLAN_ACTION'],
+    });
+    expect(notificationService.notifyTeamMemberAdded).toHaveBeenCalledWith(
+      'as',
+      'r1',
+      'Violence',
+      ['PLAN_ACTION'],
+    );
+  });
+
+  it("rejects responsibilities the member's role cannot upload", async () => {
+    await expect(
+      service.addMember(
+        'r1',
+        { userId: 'as', responsibilities: [DocumentType.RAPPORT_DPE] },
+        'directeur',
+      ),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('requires a lead analyst and refuses duplicates', async () => {
+    prisma.report.findUnique.mockResolvedValueOnce({
+      ...report,
+      analystId: null,
+      team: [],
+    });
+    await expect(
+      service.addMember('r1', { userId: 'as' }, 'directeur'),
+    ).rejects.toThrow(ConflictException);
+
+    await expect(
+      service.addMember('r1', { userId: 'psy' }, 'directeur'),
+    ).rejects.toThrow(ConflictException);
+  });
+
+  it('refuses to change the team of an archived report', async () => {
+    prisma.report.findUnique.mockResolvedValueOnce({
+      ...report,
+      isArchived: true,
+    });
+
+    await expect(
+      service.addMember('r1', { userId: 'as' }, 'directeur'),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('never removes the lead analyst', async () => {
+    prisma.reportTeamMember.findUnique.mockResolvedValue({
+      id: 'm1',
+      role: 'LEAD',
+      user: { firstName: 'Sami', lastName: 'Ben Ali', role: { name: 'X' } },
+    });
+
+    await expect(
+      service.removeMember('r1', 'psy', 'directeur'),
+    ).rejects.toThrow(BadRequestException);
+    expect(prisma.reportTeamMember.delete).not.toHaveBeenCalled();
+  });
+});
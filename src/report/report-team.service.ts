@@ -0,0 +1,269 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  forwardRef,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogService } from '../audit-log/audit-log.service';
+import { NotificationService } from '../notification/notification.service';
+import { PermissionResolverService } from '../auth/permission-resolver.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
+import {
+  ProcedureTemplateService,
+  uploadableSteps,
+} from '../procedure-template/procedure-template.service';
+import { AddTeamMemberDto, TeamRole } from './dto/add-team-member.dto';
+
+const userSummary = {
+  select: {
+    id: true,
+    firstName: true,
+    lastName: true,
+    email: true,
+    role: { select: { name: true } },
+  },
+};
+
+/** Reports the user works on, as lead analyst or team member */
+export function reportTeamWhere(userId: string): Prisma.ReportWhereInput {
+  return { OR: [{ analystId: userId }, { team: { some: { userId } } }] };
+}
+
+/**
+ * Case teams. The assigned analyst leads the case; contributors (e.g. an
+ * Assistant Social producing the Plan d'action next to the Psychologue's
+ * DPE) join with the documents they are responsible for.
+ */
+@Injectable()
+export class ReportTeamService {
+  constructor(
+    private prisma: PrismaService,
+    @Inject(forwardRef(() => NotificationService))
+    private notificationService: NotificationService,
+    private auditLogService: AuditLogService,
+    private permissionResolver: PermissionResolverService,
+    private accessPolicy: AccessPolicyService,
+    private templateService: ProcedureTemplateService,
+  ) {}
+
+  async findTeam(reportId: string, userId: string, userPermissions: string[]) {
+    const report = await this.prisma.report.findUnique({
+      where: { id: reportId },
+    });
+
+    if (!report) {
+      throw new NotFoundException(`Report with ID ${reportId} not found`);
+    }
+
+    await this.accessPolicy.assertReportAccess(userId, userPermissions, report);
+
+    const members = await this.prisma.reportTeamMember.findMany({
+      where: { reportId },
+      include: { user: userSummary },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return {
+      reportId,
+      lead: members.find((m) => m.role === (TeamRole.LEAD as string)) ?? null,
+      contributors: members.filter(
+        (m) => m.role === (TeamRole.CONTRIBUTOR as string),
+      ),
+    };
+  }
+
+  async addMember(reportId: string, dto: AddTeamMemberDto, userId: string) {
+    const report = await this.prisma.report.findUnique({
+      where: { id: reportId },
+      include: { team: true },
+    });
+
+    if (!report) {
+      throw new NotFoundException(`Report with ID ${reportId} not found`);
+    }
+
+    await this.permissionResolver.assertVillageAccess(userId, report.villageId);
+
+    if (report.isArchived) {
+      throw new ForbiddenException(
+        'Cannot change the team of an archived report. Case is closed and sealed.',
+      );
+    }
+    if (!report.analystId) {
+      throw new ConflictException(
+        'Assign a lead analyst (PATCH /reports/:id/assign) before adding contributors',
+      );
+    }
+    if (
+      dto.userId === report.analystId ||
+      report.team.some((m) => m.userId === dto.userId)
+    ) {
+      throw new ConflictException('User is already on the case team');
+    }
+
+    const member = await this.prisma.user.findUnique({
+      where: { id: dto.userId },
+      include: { role: true },
+    });
+
+    if (!member) {
+      throw new NotFoundException(`User with ID ${dto.userId} not found`);
+    }
+
+    // Contributors follow the same eligibility rules as the lead analyst
+    await this.accessPolicy.assertAssignableAnalyst(member, report);
+
+    const steps = await this.templateService.stepsFor(report);
+    const canUpload = uploadableSteps(steps, member.role.permissions).map(
+      (step) => step.docType,
+    );
+    let responsibilities: string[];
+    if (dto.responsibilities) {
+      const refused = dto.responsibilities.filter(
+        (type) => !canUpload.includes(type),
+      );
+      if (refused.length > 0) {
+        throw new BadRequestException(
+          `${member.role.name} cannot upload: ${refused.join(', ')}`,
+        );
+      }
+      responsibilities = [...new Set(dto.responsibilities)];
+    } else {
+      const taken = report.team.flatMap((m) => m.responsibilities);
+      responsibilities = canUpload.filter((type) => !taken.includes(type));
+    }
+
+    const created = await this.prisma.reportTeamMember.create({
+      data: {
+        reportId,
+        userId: member.id,
+        role: TeamRole.CONTRIBUTOR,
+        responsibilities,
+        addedById: userId,
+      },
+      include: { user: userSummary },
+    });
+
+    await this.auditLogService.log({
+      action: 'REPORT_TEAM_MEMBER_ADDED',
+      details: `${member.firstName} ${member.lastName} (${member.role.name}) added to the case team${responsibilities.length ? ` for ${responsibilities.join(', ')}` : ''}`,
+      userId,
+      reportId,
+    });
+
+    await this.notificationService.notifyTeamMemberAdded(
+      member.id,
+      reportId,
+      report.incidentType,
+      responsibilities,
+    );
+
+    return {
+      message: 'Team member added successfully',
+      member: created,
+    };
+  }
+
+  async removeMember(reportId: string, memberId: string, userId: string) {
+    const report = await this.prisma.report.findUnique({
+      where: { id: reportId },
+    });
+
+    if (!report) {
+      throw new NotFoundException(`Report with ID ${reportId} not found`);
+    }
+
+    await this.permissionResolver.assertVillageAccess(userId, report.villageId);
+
+    if (report.isArchived) {
+      throw new ForbiddenException(
+        'Cannot change the team of an archived report. Case is closed and sealed.',
+      );
+    }
+
+    const member = await this.prisma.reportTeamMember.findUnique({
+      where: { reportId_userId: { reportId, userId: memberId } },
+      include: { user: userSummary },
+    });
+
+    if (!member) {
+      throw new NotFoundException('User is not on the case team');
+    }
+    if (member.role === (TeamRole.LEAD as string)) {
+      throw new BadRequestException(
+        'The lead analyst cannot be removed from the team',
+      );
+    }
+
+    await this.prisma.reportTeamMember.delete({ where: { id: member.id } });
+
+    await this.auditLogService.log({
+      action: 'REPORT_TEAM_MEMBER_REMOVED',
+      details: `${member.user.firstName} ${member.user.lastName} (${member.user.role.name}) removed from the case team`,
+      userId,
+      reportId,
+    });
+
+    await this.notificationService.notifyTeamMemberRemoved(
+      memberId,
+      reportId,
+      report.incidentType,
+    );
+
+    return { message: 'Team member removed successfully' };
+  }
+
+  /** Drop the lead when the report is unassigned; contributors stay */
+  async removeLead(reportId: string) {
+    await this.prisma.reportTeamMember.deleteMany({
+      where: { reportId, role: TeamRole.LEAD },
+    });
+  }
+
+  /**
+   * Record the assigned analyst as team lead, responsible for the
+   * documents their role can upload that no contributor already covers.
+   * A contributor becoming lead is promoted; a previous lead is dropped.
+   */
+  async setLead(reportId: string, analystId: string, addedById: string | null) {
+    const analyst = await this.prisma.user.findUniqueOrThrow({
+      where: { id: analystId },
+      include: { role: true },
+    });
+    const report = await this.prisma.report.findUniqueOrThrow({
+      where: { id: reportId },
+      select: { procedureTemplateId: true },
+    });
+    const steps = await this.templateService.stepsFor(report);
+
+    await this.prisma.reportTeamMember.deleteMany({
+      where: { reportId, role: TeamRole.LEAD, userId: { not: analyst.id } },
+    });
+
+    const others = await this.prisma.reportTeamMember.findMany({
+      where: { reportId, userId: { not: analyst.id } },
+      select: { responsibilities: true },
+    });
+    const taken = others.flatMap((m) => m.responsibilities);
+    const responsibilities = uploadableSteps(steps, analyst.role.permissions)
+      .map((step) => step.docType)
+      .filter((type) => !taken.includes(type));
+
+    await this.prisma.reportTeamMember.upsert({
+      where: { reportId_userId: { reportId, userId: analyst.id } },
+      create: {
+        reportId,
+        userId: analyst.id,
+        role: TeamRole.LEAD,
+        responsibilities,
+        addedById,
+      },
+      update: { role: TeamRole.LEAD, responsibilities },
+    });
+  }
+}
@@ -0,0 +1,145 @@
+import { ConflictException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ReportWorkflowService } from './report-workflow.service';
+
+describe('ReportWorkflowService', () => {
+  let service: ReportWorkflowService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [ReportWorkflowService],
+    }).compile();
+
+    service = module.get<ReportWorkflowService>(ReportWorkflowService);
+  });
+
+  it('allows assigning a pending report with REPORT_ASSIGN', () => {
+    expect(() =>
+      service.assertTransition(
+        { status: 'ATTENTE', documents: [] },
+        'EN_COURS',
+        'assign',
+        ['REPORT_ASSIGN'],
+      ),
+    ).not.toThrow();
+  });
+
+  it('only reassigns or unassigns a case already in progress', () => {
+    expect(() =>
+      service.assertTransition(
+        { status: 'EN_COURS', documents: [] },
+        'EN_COURS',
+        'assign',
+        ['REPORT_ASSIGN'],
+      ),
+    ).toThrow(ConflictException);
+
+    expect(() =>
+      service.assertTransition(
+        { status: 'EN_COURS', documents: [] },
+        'EN_COURS',
+        'reassign',
+        ['REPORT_ASSIGN'],
+      ),
+    ).not.toThrow();
+
+    expect(() =>
+      service.assertTransition(
+        { status: 'EN_COURS', documents: [] },
+        'ATTENTE',
+        'unassign',
+        ['REPORT_ASSIGN'],
+      ),
+    ).not.toThrow();
+  });
+
+  it('rejects jumping straight to CLOTURE through update', () => {
+    expect(() =>
+      service.assertTransition(
+        { status: 'EN_COURS', documents: [{ type: 'CLOTURE' }] },
+        'CLOTURE',
+        'update',
+        ['REPORT_UPDATE', 'CASE_CLOSE'],
+      ),
+    ).toThrow(ConflictException);
+  });
+
+  it('requires the Avis de cloture document to close', () => {
+    expect(() =>
+      service.assertTransition(
+        { status: 'EN_COURS', documents: [] },
+        'CLOTURE',
+        'close',
+        ['CASE_CLOSE'],
+      ),
+    ).toThrow(ConflictException);
+
+    expect(() =>
+      service.assertTransition(
+        { status: 'EN_COURS', documents: [{ type: 'CLOTURE' }] },
+        'CLOTURE',
+        'close',
+        ['CASE_CLOSE'],
+      ),
+    ).not.toThrow();
+  });
+
+  it("requires the procedure's required documents to close a handled case", () => {
+    const report = {
+      status: 'EN_COURS',
+      documents: [{ type: 'CLOTURE' }],
+      procedureDocuments: ['RAPPORT_DPE'],
+    };
+
+    expect(() =>
+      service.assertTransition(report, 'CLOTURE', 'close', ['CASE_CLOSE']),
+    ).toThrow(ConflictException);
+
+    // A false alarm is closed without the procedure documents
+    expect(() =>
+      service.assertTransition(
+        { ...report, status: 'FAUSSE' },
+        'CLOTURE',
+        'close',
+        ['CASE_CLOSE'],
+      ),
+    ).not.toThrow();
+  });
+
+  it('lists allowed transitions in the 409 response', () => {
+    let error: unknown;
+    try {
+      service.assertTransition(
+        { status: 'ATTENTE', documents: [] },
+        'CLOTURE',
+        'classify',
+        ['REPORT_CLASSIFY'],
+      );
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ConflictException);
+    const body = (error as ConflictException).getResponse() as {
+      allowedTransitions: { to: string }[];
+    };
+    expect(body.allowedTransitions.map((t) => t.to)).toEqual(['FAUSSE']);
+  });
+
+  it('only returns transitions the user holds the permission for', () => {
+    const transitions = service.getAvailableTransitions(
+      { status: 'EN_COURS', documents: [] },
+      ['CASE_CLOSE'],
+    );
+
+    expect(transitions).toEqual([
+      {
+        to: 'CLOTURE',
+        action: 'close',
+        requiredDocuments: ['CLOTURE'],
+        missingDocuments: ['CLOTURE'],
+        available: false,
+      },
+    ]);
+  });
+});
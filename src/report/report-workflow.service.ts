@@ -0,0 +1,237 @@
+import { Injectable, ConflictException } from '@nestjs/common';
+import { ReportStatus } from './dto/update-report.dto';
+import { DocumentType } from '../document/document-type';
+
+/** Endpoint through which a status change is performed */
+export type ReportAction =
+  | 'update'
+  | 'assign'
+  | 'reassign'
+  | 'unassign'
+  | 'classify'
+  | 'close'
+  | 'reopen';
+
+export interface ReportTransition {
+  from: ReportStatus;
+  to: ReportStatus;
+  action: ReportAction;
+  /** Permission the acting user must hold */
+  permission: string;
+  /** Procedure documents that must exist on the report before the move */
+  requiredDocuments: string[];
+  /** Also requires the documents the report's procedure marks as required */
+  requiresProcedure?: boolean;
+}
+
+/**
+ * Central status transition table for reports.
+ * Any move not listed here is rejected with 409 Conflict, so every
+ * status-changing endpoint (update, assign, reassign, unassign, classify,
+ * close, reopen) stays consistent.
+ */
+export const REPORT_TRANSITIONS: readonly ReportTransition[] = [
+  {
+    from: ReportStatus.ATTENTE,
+    to: ReportStatus.EN_COURS,
+    action: 'assign',
+    permission: 'REPORT_ASSIGN',
+    requiredDocuments: [],
+  },
+  // Handing an open case to another analyst keeps it EN_COURS
+  {
+    from: ReportStatus.EN_COURS,
+    to: ReportStatus.EN_COURS,
+    action: 'reassign',
+    permission: 'REPORT_ASSIGN',
+    requiredDocuments: [],
+  },
+  // Without an analyst the case goes back to the queue
+  {
+    from: ReportStatus.EN_COURS,
+    to: ReportStatus.ATTENTE,
+    action: 'unassign',
+    permission: 'REPORT_ASSIGN',
+    requiredDocuments: [],
+  },
+  {
+    from: ReportStatus.ATTENTE,
+    to: ReportStatus.FAUSSE,
+    action: 'classify',
+    permission: 'REPORT_CLASSIFY',
+    requiredDocuments: [],
+  },
+  {
+    from: ReportStatus.EN_COURS,
+    to: ReportStatus.FAUSSE,
+    action: 'classify',
+    permission: 'REPORT_CLASSIFY',
+    requiredDocuments: [],
+  },
+  // A report wrongly classified as false alarm goes back to the queue
+  {
+    from: ReportStatus.FAUSSE,
+    to: ReportStatus.ATTENTE,
+    action: 'update',
+    permission: 'REPORT_CLASSIFY',
+    requiredDocuments: [],
+  },
+  {
+    from: ReportStatus.EN_COURS,
+    to: ReportStatus.CLOTURE,
+    action: 'close',
+    permission: 'CASE_CLOSE',
+    requiredDocuments: [DocumentType.CLOTURE],
+    requiresProcedure: true,
+  },
+  // A false alarm is closed without going through the procedure
+  {
+    from: ReportStatus.FAUSSE,
+    to: ReportStatus.CLOTURE,
+    action: 'close',
+    permission: 'CASE_CLOSE',
+    requiredDocuments: [DocumentType.CLOTURE],
+  },
+  // Applied when a second user approves a reopen request
+  {
+    from: ReportStatus.CLOTURE,
+    to: ReportStatus.EN_COURS,
+    action: 'reopen',
+    permission: 'CASE_REOPEN',
+    requiredDocuments: [],
+  },
+];
+
+/** Minimal report shape needed to evaluate transitions */
+export interface WorkflowReport {
+  status: string;
+  /** Documents that complete their step (see APPROVED_DOCUMENT) */
+  documents?: { type: string }[];
+  /** Required documents of the report's procedure (see closureDocuments) */
+  procedureDocuments?: string[];
+}
+
+export interface AvailableTransition {
+  to: ReportStatus;
+  action: ReportAction;
+  requiredDocuments: string[];
+  missingDocuments: string[];
+  /** True when the required documents are present and the move can be done now */
+  available: boolean;
+}
+
+@Injectable()
+export class ReportWorkflowService {
+  /**
+   * List the transitions the user may perform from the report's current status.
+   * Transitions blocked only by missing documents are included with available=false
+   * so the frontend can tell the user what to upload first.
+   */
+  getAvailableTransitions(
+    report: WorkflowReport,
+    userPermissions: string[],
+  ): AvailableTransition[] {
+    const from = report.status as ReportStatus;
+    return REPORT_TRANSITIONS.filter(
+      (t) => t.from === from && userPermissions.includes(t.permission),
+    ).map((t) => {
+      const requiredDocuments = this.getRequiredDocuments(report, t);
+      const missingDocuments = this.getMissingDocuments(report, t);
+      return {
+        to: t.to,
+        action: t.action,
+        requiredDocuments,
+        missingDocuments,
+        available: missingDocuments.length === 0,
+      };
+    });
+  }
+
+  /**
+   * Ensure the user may move the report to `to` through `action`.
+   * Throws 409 Conflict listing the allowed next transitions otherwise.
+   */
+  assertTransition(
+    report: WorkflowReport,
+    to: string,
+    action: ReportAction,
+    userPermissions: string[],
+  ): ReportTransition {
+    const from = report.status as ReportStatus;
+    const transition = REPORT_TRANSITIONS.find(
+      (t) =>
+        t.from === from && t.to === (to as ReportStatus) && t.action === action,
+    );
+
+    if (!transition) {
+      throw this.conflict(
+        report,
+        to,
+        userPermissions,
+        `Illegal status transition from ${report.status} to ${to} via ${action}`,
+      );
+    }
+
+    if (!userPermissions.includes(transition.permission)) {
+      throw this.conflict(
+        report,
+        to,
+        userPermissions,
+        `Transition from ${report.status} to ${to} requires ${transition.permission} permission`,
+      );
+    }
+
+    const missing = this.getMissingDocuments(report, transition);
+    if (missing.length > 0) {
+      throw this.conflict(
+        report,
+        to,
+        userPermissions,
+        `Transition from ${report.status} to ${to} requires approved document(s): ${missing.join(', ')}. Upload them via POST /documents/reports/:id/<type>, and have those needing sign-off approved, first.`,
+      );
+    }
+
+    return transition;
+  }
+
+  private getRequiredDocuments(
+    report: WorkflowReport,
+    transition: ReportTransition,
+  ): string[] {
+    if (!transition.requiresProcedure) {
+      return transition.requiredDocuments;
+    }
+    return [
+      ...new Set([
+        ...(report.procedureDocuments ?? []),
+        ...transition.requiredDocuments,
+      ]),
+    ];
+  }
+
+  private getMissingDocuments(
+    report: WorkflowReport,
+    transition: ReportTransition,
+  ): string[] {
+    const uploaded = (report.documents ?? []).map((d) => d.type);
+    return this.getRequiredDocuments(report, transition).filter(
+      (type) => !uploaded.includes(type),
+    );
+  }
+
+  private conflict(
+    report: WorkflowReport,
+    to: string,
+    userPermissions: string[],
+    message: string,
+  ) {
+    return new ConflictException({
+      statusCode: 409,
+      error: 'Conflict',
+      message,
+      currentStatus: report.status,
+      requestedStatus: to,
+      allowedTransitions: this.getAvailableTransitions(report, userPermissions),
+    });
+  }
+}
@@ -26,9 +26,18 @@ import { ReportService } from './report.service';
 import { CreateReportDto } from './dto/create-report.dto';
 import { UpdateReportDto } from './dto/update-report.dto';
 import { AssignReportDto } from './dto/assign-report.dto';
+import { ReassignReportDto } from './dto/reassign-report.dto';
+import { UnassignReportDto } from './dto/unassign-report.dto';
 import { ClassifyReportDto } from './dto/classify-report.dto';
 import { CloseReportDto } from './dto/close-report.dto';
 import { ReportFiltersDto } from './dto/report-filters.dto';
+import { SearchReportsDto } from './dto/search-reports.dto';
+import { ReportSnapshotQueryDto } from './dto/report-snapshot-query.dto';
+import { CreateReopenRequestDto } from './dto/create-reopen-request.dto';
+import { ReviewReopenRequestDto } from './dto/review-reopen-request.dto';
+import { ReopenRequestService } from './reopen-request.service';
+import { AddTeamMemberDto } from './dto/add-team-member.dto';
+import { ReportTeamService } from './report-team.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { PermissionsGuard } from '../auth/guards/permissions.guard';
 import { Permissions } from '../auth/decorators/permissions.decorator';
@@ -41,7 +50,11 @@ import { multerConfig } from '../common/config/multer.config';
 @Controller('reports')
 @UseGuards(JwtAuthGuard, PermissionsGuard)
 export class ReportController {
-  constructor(private readonly reportService: ReportService) {}
+  constructor(
+    private readonly reportService: ReportService,
+    private readonly reopenRequestService: ReopenRequestService,
+    private readonly teamService: ReportTeamService,
+  ) {}
 
   @Post()
   @Permissions('REPORT_CREATE')
@@ -75,7 +88,11 @@ export class ReportController {
           example: 'HAUTE',
         },
         isAnonymous: { type: 'boolean', example: false },
-        villageId: { type: 'string', example: '6990a2530ea1533dee1111e8', description: 'Village ID from GET /villages' },
+        villageId: {
+          type: 'string',
+          example: '6990a2530ea1533dee1111e8',
+          description: 'Village ID from GET /villages',
+        },
         childName: { type: 'string', example: 'Enfant X' },
         abuserName: { type: 'string', example: 'Person Y' },
         description: { type: 'string', example: 'Description détaillée...' },
@@ -140,7 +157,7 @@ export class ReportController {
   @ApiOperation({
     summary: 'Get all reports (Vue globale)',
     description:
-      'Retrieve reports with optional filters. Level 3: Use villageName filter for "Vue globale par village". Mère SOS sees only own reports. Returns paginated results.',
+      'Retrieve reports with optional filters. Level 3: Use villageName filter for "Vue globale par village". Without REPORT_READ_ALL (e.g. Mère SOS) only own reports are returned. Returns paginated results.',
   })
   @ApiQuery({
     name: 'villageId',
@@ -185,7 +202,48 @@ export class ReportController {
   })
   @ApiResponse({ status: 403, description: 'Missing REPORT_READ permission' })
   findAll(@CurrentUser() user: JwtPayload, @Query() filters: ReportFiltersDto) {
-    return this.reportService.findAll(user.sub, user.role, filters);
+    return this.reportService.findAll(user.sub, user.permissions, filters);
+  }
+
+  @Get('search')
+  @Permissions('REPORT_READ')
+  @ApiOperation({
+    summary: 'Search reports (full-text)',
+    description:
+      'Accent-insensitive French search over child name, abuser name and description, with stemming and typo tolerance. Results are ranked and include highlighted snippets (HTML-escaped text, matches in <mark>). Same visibility and anonymization rules as GET /reports; the GET /reports filters can be combined with q.',
+  })
+  @ApiQuery({ name: 'q', required: true, description: 'Search text' })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiQuery({ name: 'offset', required: false, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Ranked search results',
+    schema: {
+      example: {
+        query: 'ecole frappe',
+        data: [
+          {
+            id: '6990a2530ea1533dee1111f0',
+            score: 2.1,
+            matchedFields: ['description'],
+            highlights: {
+              description:
+                '…l&#39;enfant a été <mark>frappé</mark> à la sortie de l&#39;<mark>école</mark>…',
+            },
+          },
+        ],
+        total: 1,
+        limit: 20,
+        offset: 0,
+      },
+    },
+  })
+  @ApiResponse({ status: 403, description: 'Missing REPORT_READ permission' })
+  search(
+    @CurrentUser() user: JwtPayload,
+    @Query() searchDto: SearchReportsDto,
+  ) {
+    return this.reportService.search(user.sub, user.permissions, searchDto);
   }
 
   @Get('statistics')
@@ -199,8 +257,57 @@ export class ReportController {
     status: 200,
     description: 'Report statistics',
   })
-  getStatistics() {
-    return this.reportService.getStatistics();
+  getStatistics(@CurrentUser() user: JwtPayload) {
+    return this.reportService.getStatistics(user.sub);
+  }
+
+  @Get('assignment-suggestions/:id')
+  @Permissions('REPORT_ASSIGN')
+  @ApiOperation({
+    summary: 'Rank analysts for a report',
+    description:
+      "Eligible analysts (REPORT_ASSIGNABLE, covering the report's village) ranked by open EN_COURS caseload, urgent caseload for urgent reports and whether their role can upload the next procedure document. Each candidate lists the reasons for its score.",
+  })
+  @ApiParam({ name: 'id', description: 'Report ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Ranked candidates, best fit first',
+    schema: {
+      example: {
+        reportId: '6990a2530ea1533dee1111f0',
+        status: 'ATTENTE',
+        urgency: 'HAUTE',
+        isCritical: false,
+        nextStep: 'Rapport DPE',
+        candidates: [
+          {
+            analyst: {
+              id: '6990a2530ea1533dee1111ed',
+              firstName: 'Sami',
+              lastName: 'Ben Ali',
+              role: 'Psychologue',
+            },
+            score: 125,
+            openCases: 1,
+            urgentOpenCases: 0,
+            reasons: [
+              '1 open case(s) in progress',
+              'No urgent case in progress',
+              'Psychologue can upload the next document (Rapport DPE)',
+              "Based in the report's village",
+            ],
+          },
+        ],
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Report not found' })
+  @ApiResponse({ status: 403, description: 'Missing REPORT_ASSIGN permission' })
+  getAssignmentSuggestions(
+    @Param('id') id: string,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.reportService.getAssignmentSuggestions(id, user.sub);
   }
 
   @Get(':id')
@@ -208,7 +315,7 @@ export class ReportController {
   @ApiOperation({
     summary: 'Get report by ID',
     description:
-      'Retrieve detailed information about a specific report. Anonymous reports hide reporter identity except for SuperAdmin, Directeur, or the reporter themselves.',
+      'Retrieve detailed information about a specific report. Anonymous reports hide reporter identity except for REPORTER_IDENTITY_VIEW holders or the reporter themselves.',
   })
   @ApiParam({ name: 'id', description: 'Report ID' })
   @ApiResponse({ status: 200, description: 'Report found' })
@@ -218,7 +325,102 @@ export class ReportController {
     description: 'Missing permission or not your report',
   })
   findOne(@Param('id') id: string, @CurrentUser() user: JwtPayload) {
-    return this.reportService.findOne(id, user.sub, user.role);
+    return this.reportService.findOne(id, user.sub, user.permissions);
+  }
+
+  @Get(':id/transitions')
+  @Permissions('REPORT_READ')
+  @ApiOperation({
+    summary: 'Get allowed status transitions',
+    description:
+      'List the status transitions the current user may perform on the report (action endpoint, required documents, missing documents). Use it to render only valid actions.',
+  })
+  @ApiParam({ name: 'id', description: 'Report ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Allowed transitions',
+    schema: {
+      example: {
+        reportId: '6990a2530ea1533dee1111f0',
+        currentStatus: 'EN_COURS',
+        isArchived: false,
+        transitions: [
+          {
+            to: 'CLOTURE',
+            action: 'close',
+            requiredDocuments: ['CLOTURE'],
+            missingDocuments: ['CLOTURE'],
+            available: false,
+          },
+        ],
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Report not found' })
+  getTransitions(@Param('id') id: string, @CurrentUser() user: JwtPayload) {
+    return this.reportService.getTransitions(id, user.sub, user.permissions);
+  }
+
+  @Get(':id/history')
+  @Permissions('REPORT_READ')
+  @ApiOperation({
+    summary: 'Get report change history',
+    description:
+      'List every version of the report (newest first) with the before/after value of each changed field, the action and the user who made it (null for automatic assignment).',
+  })
+  @ApiParam({ name: 'id', description: 'Report ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Report versions',
+    schema: {
+      example: {
+        reportId: '6990a2530ea1533dee1111f0',
+        versions: [
+          {
+            version: 2,
+            action: 'REPORT_UPDATED',
+            changes: [{ field: 'urgency', before: 'MOYEN', after: 'ELEVE' }],
+            changedBy: { firstName: 'Amira', lastName: 'Ben Ali' },
+            createdAt: '2026-02-15T10:30:00.000Z',
+          },
+        ],
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Report not found' })
+  @ApiResponse({
+    status: 403,
+    description: 'Missing permission or not your report',
+  })
+  getHistory(@Param('id') id: string, @CurrentUser() user: JwtPayload) {
+    return this.reportService.getHistory(id, user.sub, user.permissions);
+  }
+
+  @Get(':id/history/snapshot')
+  @Permissions('REPORT_READ')
+  @ApiOperation({
+    summary: 'View report as it was at a past timestamp',
+    description:
+      'Rebuild the tracked report fields as they were at the given time by undoing later versions.',
+  })
+  @ApiParam({ name: 'id', description: 'Report ID' })
+  @ApiResponse({ status: 200, description: 'Report snapshot' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid timestamp or before report creation',
+  })
+  @ApiResponse({ status: 404, description: 'Report not found' })
+  getSnapshot(
+    @Param('id') id: string,
+    @Query() query: ReportSnapshotQueryDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.reportService.getSnapshot(
+      id,
+      query.at,
+      user.sub,
+      user.permissions,
+    );
   }
 
   @Patch(':id')
@@ -252,6 +454,10 @@ export class ReportController {
   })
   @ApiResponse({ status: 200, description: 'Report updated successfully' })
   @ApiResponse({ status: 404, description: 'Report not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Illegal status transition (response lists allowed ones)',
+  })
   @ApiResponse({
     status: 403,
     description: 'Not authorized to update this report',
@@ -267,6 +473,7 @@ export class ReportController {
       updateReportDto,
       user.sub,
       user.role,
+      user.permissions,
       files,
     );
   }
@@ -276,15 +483,21 @@ export class ReportController {
   @ApiOperation({
     summary: 'Assign report to analyst (Directeur only)',
     description:
-      'Assign a report to a specific analyst (Psychologue, Assistant Social, or Directeur)',
+      "Assign a report to a specific analyst. The analyst's role must hold REPORT_ASSIGNABLE and cover the report's village. Omit analystId to auto-assign the best ranked analyst.",
   })
   @ApiParam({ name: 'id', description: 'Report ID' })
   @ApiBody({ type: AssignReportDto })
   @ApiResponse({ status: 200, description: 'Report assigned successfully' })
   @ApiResponse({ status: 404, description: 'Report or analyst not found' })
+  @ApiResponse({
+    status: 409,
+    description:
+      'Report cannot be assigned now (already in progress: use reassign)',
+  })
   @ApiResponse({
     status: 400,
-    description: 'Analyst does not have appropriate role',
+    description:
+      'Analyst does not have appropriate role, or no eligible analyst to auto-assign',
   })
   @ApiResponse({ status: 403, description: 'Missing REPORT_ASSIGN permission' })
   assign(
@@ -292,19 +505,189 @@ export class ReportController {
     @Body() assignDto: AssignReportDto,
     @CurrentUser() user: JwtPayload,
   ) {
-    return this.reportService.assign(id, assignDto, user.sub);
+    return this.reportService.assign(id, assignDto, user.sub, user.permissions);
+  }
+
+  @Patch(':id/reassign')
+  @Permissions('REPORT_ASSIGN')
+  @ApiOperation({
+    summary: 'Hand an open case to another analyst (Directeur)',
+    description:
+      'Replace the analyst of an EN_COURS report. The reason is kept in the assignment history; the previous and the new analyst are both notified and the new analyst becomes team lead.',
+  })
+  @ApiParam({ name: 'id', description: 'Report ID' })
+  @ApiBody({ type: ReassignReportDto })
+  @ApiResponse({ status: 200, description: 'Report reassigned successfully' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Report has no analyst, same analyst, or analyst not assignable',
+  })
+  @ApiResponse({ status: 404, description: 'Report or analyst not found' })
+  @ApiResponse({ status: 409, description: 'Report is not in progress' })
+  @ApiResponse({ status: 403, description: 'Missing REPORT_ASSIGN permission' })
+  reassign(
+    @Param('id') id: string,
+    @Body() dto: ReassignReportDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.reportService.reassign(id, dto, user.sub, user.permissions);
+  }
+
+  @Patch(':id/unassign')
+  @Permissions('REPORT_ASSIGN')
+  @ApiOperation({
+    summary: 'Take the analyst off an open case (Directeur)',
+    description:
+      'Remove the analyst of an EN_COURS report; it goes back to ATTENTE. The reason is kept in the assignment history and the analyst is notified.',
+  })
+  @ApiParam({ name: 'id', description: 'Report ID' })
+  @ApiBody({ type: UnassignReportDto })
+  @ApiResponse({ status: 200, description: 'Report unassigned' })
+  @ApiResponse({ status: 400, description: 'Report has no analyst' })
+  @ApiResponse({ status: 404, description: 'Report not found' })
+  @ApiResponse({ status: 409, description: 'Report is not in progress' })
+  @ApiResponse({ status: 403, description: 'Missing REPORT_ASSIGN permission' })
+  unassign(
+    @Param('id') id: string,
+    @Body() dto: UnassignReportDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.reportService.unassign(id, dto, user.sub, user.permissions);
+  }
+
+  @Get(':id/assignments')
+  @Permissions('REPORT_READ')
+  @ApiOperation({
+    summary: 'Get the assignment history',
+    description:
+      'Every assignment, automatic assignment, reassignment and unassignment of the report: who made it, when, from and to which analyst, and why.',
+  })
+  @ApiParam({ name: 'id', description: 'Report ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Assignment history, oldest first',
+    schema: {
+      example: {
+        reportId: '6990a2530ea1533dee1111f0',
+        assignments: [
+          {
+            id: '6990a2530ea1533dee111200',
+            action: 'REASSIGNED',
+            fromAnalyst: {
+              id: '6990a2530ea1533dee1111ed',
+              firstName: 'Sami',
+              lastName: 'Ben Ali',
+              role: { name: 'Psychologue' },
+            },
+            toAnalyst: {
+              id: '6990a2530ea1533dee1111ee',
+              firstName: 'Ines',
+              lastName: 'Gharbi',
+              role: { name: 'Psychologue' },
+            },
+            reason: 'Surcharge de dossiers urgents',
+            changedBy: {
+              id: '6990a2530ea1533dee1111ea',
+              firstName: 'Karim',
+              lastName: 'Mansour',
+              role: { name: 'Directeur' },
+            },
+            createdAt: '2026-03-02T09:15:00.000Z',
+          },
+        ],
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Report not found' })
+  @ApiResponse({
+    status: 403,
+    description: 'Missing permission or not your report',
+  })
+  getAssignments(@Param('id') id: string, @CurrentUser() user: JwtPayload) {
+    return this.reportService.getAssignmentHistory(
+      id,
+      user.sub,
+      user.permissions,
+    );
+  }
+
+  @Get(':id/team')
+  @Permissions('REPORT_READ')
+  @ApiOperation({
+    summary: 'Get the case team',
+    description:
+      'Lead analyst and contributors of the case, each with the procedure documents they are responsible for.',
+  })
+  @ApiParam({ name: 'id', description: 'Report ID' })
+  @ApiResponse({ status: 200, description: 'Case team' })
+  @ApiResponse({ status: 404, description: 'Report not found' })
+  @ApiResponse({ status: 403, description: 'Missing REPORT_READ permission' })
+  getTeam(@Param('id') id: string, @CurrentUser() user: JwtPayload) {
+    return this.teamService.findTeam(id, user.sub, user.permissions);
+  }
+
+  @Post(':id/team')
+  @Permissions('REPORT_ASSIGN')
+  @ApiOperation({
+    summary: 'Add a contributor to the case team (Directeur)',
+    description:
+      "Add a contributor next to the lead analyst, e.g. an Assistant Social for the Plan d'action. The member must be assignable and cover the report's village; they are notified with their responsibilities.",
+  })
+  @ApiParam({ name: 'id', description: 'Report ID' })
+  @ApiBody({ type: AddTeamMemberDto })
+  @ApiResponse({ status: 201, description: 'Team member added successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'User not assignable, or cannot upload a given document',
+  })
+  @ApiResponse({ status: 404, description: 'Report or user not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'No lead analyst yet, or user already on the team',
+  })
+  @ApiResponse({ status: 403, description: 'Missing REPORT_ASSIGN permission' })
+  addTeamMember(
+    @Param('id') id: string,
+    @Body() dto: AddTeamMemberDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.teamService.addMember(id, dto, user.sub);
+  }
+
+  @Delete(':id/team/:userId')
+  @Permissions('REPORT_ASSIGN')
+  @ApiOperation({
+    summary: 'Remove a contributor from the case team (Directeur)',
+    description:
+      'The lead analyst cannot be removed; reassign the report instead.',
+  })
+  @ApiParam({ name: 'id', description: 'Report ID' })
+  @ApiParam({ name: 'userId', description: 'User ID of the contributor' })
+  @ApiResponse({ status: 200, description: 'Team member removed successfully' })
+  @ApiResponse({ status: 400, description: 'User is the lead analyst' })
+  @ApiResponse({ status: 404, description: 'Report or member not found' })
+  @ApiResponse({ status: 403, description: 'Missing REPORT_ASSIGN permission' })
+  removeTeamMember(
+    @Param('id') id: string,
+    @Param('userId') memberId: string,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.teamService.removeMember(id, memberId, user.sub);
   }
 
   @Patch(':id/classify')
   @Permissions('REPORT_CLASSIFY')
   @ApiOperation({
     summary: 'Classify report (Psychologue, Directeur)',
-    description: 'Mark report as false alarm or closed',
+    description:
+      'Mark report as false alarm. Closing a case goes through PATCH /reports/:id/close.',
   })
   @ApiParam({ name: 'id', description: 'Report ID' })
   @ApiBody({ type: ClassifyReportDto })
   @ApiResponse({ status: 200, description: 'Report classified successfully' })
   @ApiResponse({ status: 404, description: 'Report not found' })
+  @ApiResponse({ status: 409, description: 'Illegal status transition' })
   @ApiResponse({
     status: 403,
     description: 'Missing REPORT_CLASSIFY permission',
@@ -314,7 +697,12 @@ export class ReportController {
     @Body() classifyDto: ClassifyReportDto,
     @CurrentUser() user: JwtPayload,
   ) {
-    return this.reportService.classify(id, classifyDto, user.sub);
+    return this.reportService.classify(
+      id,
+      classifyDto,
+      user.sub,
+      user.permissions,
+    );
   }
 
   @Patch(':id/close')
@@ -328,9 +716,9 @@ export class ReportController {
   @ApiBody({ type: CloseReportDto })
   @ApiResponse({ status: 200, description: 'Case closed and archived' })
   @ApiResponse({
-    status: 400,
+    status: 409,
     description:
-      'Missing Avis de cloture document - upload via POST /documents/reports/:id/cloture first',
+      'Illegal transition or missing Avis de cloture document - upload via POST /documents/reports/:id/cloture first',
   })
   @ApiResponse({ status: 403, description: 'Missing CASE_CLOSE permission' })
   close(
@@ -338,7 +726,103 @@ export class ReportController {
     @Body() closeDto: CloseReportDto,
     @CurrentUser() user: JwtPayload,
   ) {
-    return this.reportService.close(id, closeDto, user.sub);
+    return this.reportService.close(id, closeDto, user.sub, user.permissions);
+  }
+
+  @Post(':id/reopen-requests')
+  @Permissions('CASE_CLOSE')
+  @ApiOperation({
+    summary: 'Request reopening of an archived case (Directeur)',
+    description:
+      'Ask for an archived case to be reopened when new facts emerge. The request must then be approved by another user holding CASE_REOPEN.',
+  })
+  @ApiParam({ name: 'id', description: 'Report ID' })
+  @ApiBody({ type: CreateReopenRequestDto })
+  @ApiResponse({ status: 201, description: 'Reopen request submitted' })
+  @ApiResponse({ status: 400, description: 'Report is not archived' })
+  @ApiResponse({ status: 404, description: 'Report not found' })
+  @ApiResponse({ status: 409, description: 'A request is already pending' })
+  @ApiResponse({ status: 403, description: 'Missing CASE_CLOSE permission' })
+  requestReopen(
+    @Param('id') id: string,
+    @Body() dto: CreateReopenRequestDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.reopenRequestService.create(id, dto, user.sub);
+  }
+
+  @Get(':id/reopen-requests')
+  @Permissions('REPORT_READ')
+  @ApiOperation({
+    summary: 'List reopen requests for a report',
+    description: 'History of reopen requests with their review decisions.',
+  })
+  @ApiParam({ name: 'id', description: 'Report ID' })
+  @ApiResponse({ status: 200, description: 'List of reopen requests' })
+  @ApiResponse({ status: 404, description: 'Report not found' })
+  findReopenRequests(@Param('id') id: string, @CurrentUser() user: JwtPayload) {
+    return this.reopenRequestService.findByReport(
+      id,
+      user.sub,
+      user.permissions,
+    );
+  }
+
+  @Patch(':id/reopen-requests/:requestId/approve')
+  @Permissions('CASE_REOPEN')
+  @ApiOperation({
+    summary: 'Approve a reopen request (second approver)',
+    description:
+      'Reopen the archived case: status returns to EN_COURS and the previous closure decision is kept in closureHistory. The approver must differ from the requester.',
+  })
+  @ApiParam({ name: 'id', description: 'Report ID' })
+  @ApiParam({ name: 'requestId', description: 'Reopen request ID' })
+  @ApiBody({ type: ReviewReopenRequestDto })
+  @ApiResponse({ status: 200, description: 'Case reopened' })
+  @ApiResponse({ status: 400, description: 'Request already reviewed' })
+  @ApiResponse({
+    status: 403,
+    description: 'Missing CASE_REOPEN permission or reviewer is the requester',
+  })
+  @ApiResponse({ status: 404, description: 'Report or request not found' })
+  approveReopen(
+    @Param('id') id: string,
+    @Param('requestId') requestId: string,
+    @Body() dto: ReviewReopenRequestDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.reopenRequestService.approve(
+      id,
+      requestId,
+      dto,
+      user.sub,
+      user.permissions,
+    );
+  }
+
+  @Patch(':id/reopen-requests/:requestId/reject')
+  @Permissions('CASE_REOPEN')
+  @ApiOperation({
+    summary: 'Reject a reopen request',
+    description: 'The report stays archived. The decision is audited.',
+  })
+  @ApiParam({ name: 'id', description: 'Report ID' })
+  @ApiParam({ name: 'requestId', description: 'Reopen request ID' })
+  @ApiBody({ type: ReviewReopenRequestDto })
+  @ApiResponse({ status: 200, description: 'Reopen request rejected' })
+  @ApiResponse({ status: 400, description: 'Request already reviewed' })
+  @ApiResponse({
+    status: 403,
+    description: 'Missing CASE_REOPEN permission or reviewer is the requester',
+  })
+  @ApiResponse({ status: 404, description: 'Report or request not found' })
+  rejectReopen(
+    @Param('id') id: string,
+    @Param('requestId') requestId: string,
+    @Body() dto: ReviewReopenRequestDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.reopenRequestService.reject(id, requestId, dto, user.sub);
   }
 
   @Delete(':id')
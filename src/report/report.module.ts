@@ -2,13 +2,37 @@ import { Module, forwardRef } from '@nestjs/common';
 import { ReportService } from './report.service';
 import { ReportController } from './report.controller';
 import { AiService } from './ai.service';
+import { ReportWorkflowService } from './report-workflow.service';
+import { ReopenRequestService } from './reopen-request.service';
+import { ReportSearchService } from './report-search.service';
+import { ReportHistoryService } from './report-history.service';
+import { ReportAssignmentService } from './report-assignment.service';
+import { ReportTeamService } from './report-team.service';
 import { NotificationModule } from '../notification/notification.module';
+import { AuditLogModule } from '../audit-log/audit-log.module';
 import { VoiceAnonymizerModule } from '../voice-anonymizer/voice-anonymizer.module';
+import { SlaModule } from '../sla/sla.module';
+import { ProcedureTemplateModule } from '../procedure-template/procedure-template.module';
 
 @Module({
-  imports: [forwardRef(() => NotificationModule), VoiceAnonymizerModule],
+  imports: [
+    forwardRef(() => NotificationModule),
+    VoiceAnonymizerModule,
+    AuditLogModule,
+    SlaModule,
+    ProcedureTemplateModule,
+  ],
   controllers: [ReportController],
-  providers: [ReportService, AiService],
+  providers: [
+    ReportService,
+    AiService,
+    ReportWorkflowService,
+    ReopenRequestService,
+    ReportSearchService,
+    ReportHistoryService,
+    ReportAssignmentService,
+    ReportTeamService,
+  ],
   exports: [ReportService, AiService],
 })
 export class ReportModule {}
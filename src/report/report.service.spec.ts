@@ -0,0 +1,86 @@
+import { ForbiddenException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ReportService } from './report.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogService } from '../audit-log/audit-log.service';
+import { NotificationService } from '../notification/notification.service';
+import { VoiceAnonymizerService } from '../voice-anonymizer/voice-anonymizer.service';
+import { AiService } from './ai.service';
+import { ReportWorkflowService } from './report-workflow.service';
+import { ReportSearchService } from './report-search.service';
+import { ReportHistoryService } from './report-history.service';
+import { PermissionResolverService } from '../auth/permission-resolver.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
+import { ReportAssignmentService } from './report-assignment.service';
+import { ReportTeamService } from './report-team.service';
+import { SlaService } from '../sla/sla.service';
+import { ProcedureTemplateService } from '../procedure-template/procedure-template.service';
+
+const report = {
+  id: 'r1',
+  villageId: 'v1',
+  status: 'ATTENTE',
+  incidentType: 'Violence',
+  urgency: 'MOYENNE',
+  isArchived: false,
+  isAnonymous: false,
+  attachments: [],
+  documents: [],
+};
+
+describe('ReportService', () => {
+  let service: ReportService;
+  const prisma = {
+    report: { findUnique: jest.fn(), update: jest.fn() },
+    village: { findUnique: jest.fn() },
+  };
+  const permissionResolver = { assertVillageAccess: jest.fn() };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReportService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: NotificationService, useValue: {} },
+        { provide: VoiceAnonymizerService, useValue: {} },
+        { provide: AiService, useValue: {} },
+        { provide: ReportWorkflowService, useValue: {} },
+        { provide: ReportSearchService, useValue: {} },
+        { provide: ReportHistoryService, useValue: { record: jest.fn() } },
+        { provide: AuditLogService, useValue: { log: jest.fn() } },
+        { provide: PermissionResolverService, useValue: permissionResolver },
+        {
+          provide: AccessPolicyService,
+          useValue: { assertReportAccess: jest.fn() },
+        },
+        { provide: ReportAssignmentService, useValue: {} },
+        { provide: ReportTeamService, useValue: {} },
+        { provide: SlaService, useValue: {} },
+        { provide: ProcedureTemplateService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<ReportService>(ReportService);
+    prisma.report.findUnique.mockResolvedValue(report);
+    prisma.village.findUnique.mockResolvedValue({ id: 'v2' });
+  });
+
+  it('does not move a report to a village outside the user scope', async () => {
+    permissionResolver.assertVillageAccess.mockRejectedValue(
+      new ForbiddenException(),
+    );
+
+    await expect(
+      service.update('r1', { villageId: 'v2' }, 'u1', 'Analyste', [
+        'REPORT_UPDATE',
+      ]),
+    ).rejects.toThrow(ForbiddenException);
+
+    expect(permissionResolver.assertVillageAccess).toHaveBeenCalledWith(
+      'u1',
+      'v2',
+    );
+    expect(prisma.report.update).not.toHaveBeenCalled();
+  });
+});
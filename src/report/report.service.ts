@@ -6,21 +6,83 @@ import {
   Inject,
   forwardRef,
 } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogService } from '../audit-log/audit-log.service';
 import { NotificationService } from '../notification/notification.service';
-import { CreateReportDto } from './dto/create-report.dto';
-import { UpdateReportDto } from './dto/update-report.dto';
+import { CreateReportDto, UrgencyLevel } from './dto/create-report.dto';
+import { UpdateReportDto, ReportStatus } from './dto/update-report.dto';
 import { AssignReportDto } from './dto/assign-report.dto';
+import { ReassignReportDto } from './dto/reassign-report.dto';
+import { UnassignReportDto } from './dto/unassign-report.dto';
 import { ClassifyReportDto } from './dto/classify-report.dto';
 import { CloseReportDto } from './dto/close-report.dto';
 import type { ReportFiltersDto } from './dto/report-filters.dto';
-import { getFileType } from '../common/config/multer.config';
+import type { SearchReportsDto } from './dto/search-reports.dto';
+import { getFileType, storedFileUrl } from '../common/config/multer.config';
 import { VoiceAnonymizerService } from '../voice-anonymizer/voice-anonymizer.service';
 import { AiService } from './ai.service';
+import { ReportWorkflowService } from './report-workflow.service';
+import { ReportSearchService } from './report-search.service';
+import { ReportHistoryService } from './report-history.service';
+import { PermissionResolverService } from '../auth/permission-resolver.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
+import {
+  ReportAssignmentService,
+  isUrgentReport,
+} from './report-assignment.service';
+import type {
+  AssignmentAction,
+  AssignmentReport,
+} from './report-assignment.service';
+import { ReportTeamService } from './report-team.service';
+import { SlaService } from '../sla/sla.service';
+import { APPROVED_DOCUMENT, CURRENT_DOCUMENT } from '../document/document-type';
+import {
+  ProcedureTemplateService,
+  closureDocuments,
+} from '../procedure-template/procedure-template.service';
 
 const ARCHIVED_ERROR =
   'Cannot modify archived report. Case is closed and sealed.';
 
+/** Relations loaded for report lists (findAll, search) */
+const REPORT_LIST_INCLUDE = {
+  reporter: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+      village: { select: { id: true, name: true } },
+      role: { select: { name: true } },
+    },
+  },
+  analyst: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+      role: { select: { name: true } },
+    },
+  },
+  village: { select: { id: true, name: true } },
+  documents: {
+    where: CURRENT_DOCUMENT,
+    select: {
+      id: true,
+      type: true,
+      fileUrl: true,
+      uploadedBy: true,
+      createdAt: true,
+      version: true,
+      note: true,
+      status: true,
+    },
+  },
+} satisfies Prisma.ReportInclude;
+
 @Injectable()
 export class ReportService {
   /** Expose AI urgency analysis for description (e.g. from report form). */
@@ -34,6 +96,16 @@ export class ReportService {
     private notificationService: NotificationService,
     private voiceAnonymizer: VoiceAnonymizerService,
     private aiService: AiService,
+    private workflow: ReportWorkflowService,
+    private searchService: ReportSearchService,
+    private historyService: ReportHistoryService,
+    private auditLogService: AuditLogService,
+    private permissionResolver: PermissionResolverService,
+    private accessPolicy: AccessPolicyService,
+    private assignmentService: ReportAssignmentService,
+    private teamService: ReportTeamService,
+    private slaService: SlaService,
+    private templateService: ProcedureTemplateService,
   ) {}
 
   async create(
@@ -73,7 +145,7 @@ export class ReportService {
 
     // Prepare attachments from uploaded files
     const attachments = processedFiles.map((file) => ({
-      url: `/uploads/${file.filename}`,
+      url: storedFileUrl(file.filename),
       type: getFileType(file.mimetype),
       filename: file.originalname,
     }));
@@ -86,16 +158,26 @@ export class ReportService {
         `Village with ID ${createReportDto.villageId} not found. Use GET /villages to list villages.`,
       );
     }
+    await this.permissionResolver.assertVillageAccess(
+      reporterId,
+      createReportDto.villageId,
+    );
 
     // Détection de mots-clés critiques (offline NLP)
     const urgencyAnalysis = this.aiService.analyzeUrgency(
       createReportDto.description,
     );
 
+    const template = await this.templateService.resolve(
+      createReportDto.incidentType,
+      createReportDto.urgency,
+    );
+
     const report = await this.prisma.report.create({
       data: {
         ...createReportDto,
         reporterId,
+        procedureTemplateId: template?.id ?? null,
         status: 'ATTENTE',
         attachments,
         isCritical: urgencyAnalysis.isCritical,
@@ -116,29 +198,26 @@ export class ReportService {
       },
     });
 
+    await this.historyService.record(
+      report.id,
+      {},
+      report,
+      'REPORT_CREATED',
+      reporterId,
+    );
+
     // Create audit log
-    await this.prisma.auditLog.create({
-      data: {
-        action: 'REPORT_CREATED',
-        details: `Report created: ${report.incidentType} at ${report.village.name}`,
-        userId: reporterId,
-        reportId: report.id,
-      },
+    await this.auditLogService.log({
+      action: 'REPORT_CREATED',
+      details: `Report created: ${report.incidentType} at ${report.village.name}`,
+      userId: reporterId,
+      reportId: report.id,
     });
 
     // Notify Directeur for urgent reports or when critical keywords are detected
-    const shouldNotifyUrgent =
-      report.urgency === 'CRITIQUE' ||
-      report.urgency === 'HAUTE' ||
-      report.isCritical;
-
-    if (shouldNotifyUrgent) {
-      const directeurs = await this.prisma.user.findMany({
-        where: {
-          role: {
-            name: { in: ['Directeur', 'SuperAdmin'] },
-          },
-        },
+    if (isUrgentReport(report)) {
+      const recipients = await this.prisma.user.findMany({
+        where: this.accessPolicy.urgentAlertRecipientsWhere(report.villageId),
         select: { id: true },
       });
 
@@ -147,7 +226,7 @@ export class ReportService {
         : report.urgency;
 
       await this.notificationService.notifyUrgentReport(
-        directeurs.map((d) => d.id),
+        recipients.map((r) => r.id),
         report.id,
         report.incidentType,
         urgencyLabel,
@@ -155,11 +234,21 @@ export class ReportService {
       );
     }
 
+    await this.slaService.scheduleDeadlines(report);
+
+    const autoAssigned = await this.autoAssignCritical(report, village);
+
     // Anonymize in response if needed (for the creator, always show their own info)
     return {
-      message: 'Report created successfully',
+      message: autoAssigned
+        ? `Report created successfully and auto-assigned to ${autoAssigned.firstName} ${autoAssigned.lastName}`
+        : 'Report created successfully',
       report: {
         ...report,
+        ...(autoAssigned && {
+          status: ReportStatus.EN_COURS,
+          analystId: autoAssigned.id,
+        }),
         reporter: createReportDto.isAnonymous
           ? {
               ...report.reporter,
@@ -170,17 +259,152 @@ export class ReportService {
     };
   }
 
-  async findAll(userId: string, userRole: string, filters?: ReportFiltersDto) {
+  /**
+   * Villages with autoAssignCritical hand critical reports (CRITIQUE urgency
+   * or critical keywords) to the best ranked analyst as soon as they are
+   * created. Returns the analyst, or null when nothing was assigned.
+   */
+  private async autoAssignCritical(
+    report: Prisma.ReportGetPayload<object>,
+    village: { autoAssignCritical: boolean },
+  ) {
+    const isCriticalReport =
+      report.isCritical || report.urgency === (UrgencyLevel.CRITIQUE as string);
+    if (!village.autoAssignCritical || !isCriticalReport) {
+      return null;
+    }
+
+    const { candidates } = await this.assignmentService.rankCandidates(report);
+    const best = candidates[0]?.analyst;
+    if (!best) {
+      return null;
+    }
+
+    await this.applyAssignment(report, best, {
+      action: 'AUTO_ASSIGNED',
+      changedById: null,
+      details: `Critical report auto-assigned to ${best.firstName} ${best.lastName} (${best.role})`,
+    });
+    return best;
+  }
+
+  async findAll(
+    userId: string,
+    userPermissions: string[],
+    filters?: ReportFiltersDto,
+  ) {
+    const villageIds = await this.permissionResolver.villageScope(userId);
+    const where = this.buildWhere(userId, userPermissions, villageIds, filters);
+
+    const limit = Math.min(Number(filters?.limit) || 50, 100);
+    const offset = Math.max(0, Number(filters?.offset) || 0);
+
+    const reports = await this.prisma.report.findMany({
+      where,
+      include: REPORT_LIST_INCLUDE,
+      orderBy: {
+        createdAt: 'desc',
+      },
+      take: limit,
+      skip: offset,
+    });
+
+    const total = await this.prisma.report.count({ where });
+
+    return {
+      data: reports.map((report) =>
+        this.maskAnonymousReporter(report, userId, userPermissions),
+      ),
+      total,
+      limit,
+      offset,
+    };
+  }
+
+  /**
+   * Full-text search over child name, abuser name and description.
+   * Applies the same visibility, filters and anonymization as findAll;
+   * results are ranked by relevance and carry highlighted snippets.
+   */
+  async search(
+    userId: string,
+    userPermissions: string[],
+    searchDto: SearchReportsDto,
+  ) {
+    const villageIds = await this.permissionResolver.villageScope(userId);
+    const where = this.buildWhere(
+      userId,
+      userPermissions,
+      villageIds,
+      searchDto,
+    );
+
+    const limit = Math.min(Number(searchDto.limit) || 20, 100);
+    const offset = Math.max(0, Number(searchDto.offset) || 0);
+
+    const candidates = await this.prisma.report.findMany({
+      where,
+      select: {
+        id: true,
+        childName: true,
+        abuserName: true,
+        description: true,
+      },
+    });
+
+    const hits = this.searchService.rank(candidates, searchDto.q);
+    const page = hits.slice(offset, offset + limit);
+
+    const reports = await this.prisma.report.findMany({
+      where: { id: { in: page.map((h) => h.id) } },
+      include: REPORT_LIST_INCLUDE,
+    });
+    const byId = new Map(reports.map((r) => [r.id, r]));
+
+    const data = page
+      .filter((hit) => byId.has(hit.id))
+      .map((hit) => ({
+        ...this.maskAnonymousReporter(
+          byId.get(hit.id)!,
+          userId,
+          userPermissions,
+        ),
+        score: hit.score,
+        matchedFields: hit.matchedFields,
+        highlights: hit.highlights,
+      }));
+
+    return {
+      query: searchDto.q,
+      data,
+      total: hits.length,
+      limit,
+      offset,
+    };
+  }
+
+  /** Visibility rules and list filters shared by findAll and search */
+  private buildWhere(
+    userId: string,
+    userPermissions: string[],
+    villageIds: string[] | null,
+    filters?: ReportFiltersDto,
+  ) {
     // Build where clause
     const where: Record<string, unknown> = {};
 
-    // Mère SOS can only see their own reports
-    if (userRole === 'Mère SOS') {
+    // Without REPORT_READ_ALL (e.g. Mère SOS) users only see their own reports
+    if (this.accessPolicy.ownReportsOnly(userPermissions)) {
       where.reporterId = userId;
     }
 
-    // Level 3: Vue globale - filters for Direction/Bureau National
-    if (filters?.villageId) {
+    // Village-scoped roles only see their own villages, even when filtering
+    if (villageIds) {
+      where.villageId = filters?.villageId
+        ? { in: villageIds.filter((id) => id === filters.villageId) }
+        : { in: villageIds };
+    } else if (filters?.villageId) {
+      // Level 3: Vue globale - filters for Direction/Bureau National
       where.villageId = filters.villageId;
     }
     if (filters?.status) {
@@ -209,85 +433,44 @@ export class ReportService {
       }
     }
 
-    const limit = Math.min(Number(filters?.limit) || 50, 100);
-    const offset = Math.max(0, Number(filters?.offset) || 0);
+    return where;
+  }
 
-    const reports = await this.prisma.report.findMany({
-      where,
-      include: {
+  /**
+   * Anonymize reporter info for anonymous reports in list results.
+   * Only REPORTER_IDENTITY_VIEW holders (or the reporter) can see real identity.
+   */
+  private maskAnonymousReporter<
+    T extends {
+      isAnonymous: boolean;
+      reporterId: string;
+      village: { id: string; name: string };
+    },
+  >(report: T, userId: string, userPermissions: string[]) {
+    if (
+      report.isAnonymous &&
+      !this.accessPolicy.canViewReporterIdentity(
+        userId,
+        userPermissions,
+        report,
+      )
+    ) {
+      return {
+        ...report,
         reporter: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-            village: { select: { id: true, name: true } },
-            role: { select: { name: true } },
-          },
-        },
-        analyst: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-            role: { select: { name: true } },
-          },
-        },
-        village: { select: { id: true, name: true } },
-        documents: {
-          select: {
-            id: true,
-            type: true,
-            fileUrl: true,
-            uploadedBy: true,
-            createdAt: true,
-          },
+          id: 'anonymous',
+          firstName: 'Anonymous',
+          lastName: 'Reporter',
+          email: 'anonymous@hidden',
+          village: report.village,
+          role: { name: 'Hidden' },
         },
-      },
-      orderBy: {
-        createdAt: 'desc',
-      },
-      take: limit,
-      skip: offset,
-    });
-
-    const total = await this.prisma.report.count({ where });
-
-    // Anonymize reporter info for anonymous reports
-    // Only SuperAdmin and Directeur can see real identity
-    const canSeeIdentity = ['SuperAdmin', 'Directeur'].includes(userRole);
-
-    const anonymizedReports = reports.map((report) => {
-      if (
-        report.isAnonymous &&
-        !canSeeIdentity &&
-        report.reporterId !== userId
-      ) {
-        return {
-          ...report,
-          reporter: {
-            id: 'anonymous',
-            firstName: 'Anonymous',
-            lastName: 'Reporter',
-            email: 'anonymous@hidden',
-            village: report.village,
-            role: { name: 'Hidden' },
-          },
-        };
-      }
-      return report;
-    });
-
-    return {
-      data: anonymizedReports,
-      total,
-      limit,
-      offset,
-    };
+      };
+    }
+    return report;
   }
 
-  async findOne(id: string, userId: string, userRole: string) {
+  async findOne(id: string, userId: string, userPermissions: string[]) {
     const report = await this.prisma.report.findUnique({
       where: { id },
       include: {
@@ -333,18 +516,17 @@ export class ReportService {
       throw new NotFoundException(`Report with ID ${id} not found`);
     }
 
-    // Mère SOS can only view their own reports
-    if (userRole === 'Mère SOS' && report.reporterId !== userId) {
-      throw new ForbiddenException('You can only view your own reports');
-    }
+    await this.accessPolicy.assertReportAccess(userId, userPermissions, report);
 
     // Anonymize reporter info for anonymous reports
-    // Only SuperAdmin, Directeur, or the reporter themselves can see real identity
-    const canSeeIdentity =
-      ['SuperAdmin', 'Directeur'].includes(userRole) ||
-      report.reporterId === userId;
-
-    if (report.isAnonymous && !canSeeIdentity) {
+    if (
+      report.isAnonymous &&
+      !this.accessPolicy.canViewReporterIdentity(
+        userId,
+        userPermissions,
+        report,
+      )
+    ) {
       return {
         ...report,
         reporter: {
@@ -366,23 +548,57 @@ export class ReportService {
     updateReportDto: UpdateReportDto,
     userId: string,
     userRole: string,
+    userPermissions: string[],
     files?: Express.Multer.File[],
   ) {
     const report = await this.prisma.report.findUnique({
       where: { id },
+      include: {
+        documents: { where: APPROVED_DOCUMENT, select: { type: true } },
+      },
     });
 
     if (!report) {
       throw new NotFoundException(`Report with ID ${id} not found`);
     }
 
+    await this.accessPolicy.assertReportAccess(
+      userId,
+      userPermissions,
+      report,
+      'update',
+    );
+
     if (report.isArchived) {
       throw new ForbiddenException(ARCHIVED_ERROR);
     }
 
-    // Mère SOS can only update their own reports
-    if (userRole === 'Mère SOS' && report.reporterId !== userId) {
-      throw new ForbiddenException('You can only update your own reports');
+    const statusChanged =
+      updateReportDto.status !== undefined &&
+      updateReportDto.status !== report.status;
+    if (statusChanged) {
+      this.workflow.assertTransition(
+        report,
+        updateReportDto.status!,
+        'update',
+        userPermissions,
+      );
+    }
+
+    // Moving the report: the target village must be in the user's scope too
+    if (updateReportDto.villageId !== undefined) {
+      const village = await this.prisma.village.findUnique({
+        where: { id: updateReportDto.villageId },
+      });
+      if (!village) {
+        throw new NotFoundException(
+          `Village with ID ${updateReportDto.villageId} not found. Use GET /villages to list villages.`,
+        );
+      }
+      await this.permissionResolver.assertVillageAccess(
+        userId,
+        updateReportDto.villageId,
+      );
     }
 
     // Anonymize new voice recordings when report is anonymous
@@ -408,7 +624,7 @@ export class ReportService {
 
     // Prepare new attachments if files provided
     const newAttachments = processedFiles.map((file) => ({
-      url: `/uploads/${file.filename}`,
+      url: storedFileUrl(file.filename),
       type: getFileType(file.mimetype),
       filename: file.originalname,
     }));
@@ -416,27 +632,35 @@ export class ReportService {
     // Merge existing attachments with new ones
     const attachments = [...report.attachments, ...newAttachments];
 
-    if (updateReportDto.villageId !== undefined) {
-      const village = await this.prisma.village.findUnique({
-        where: { id: updateReportDto.villageId },
-      });
-      if (!village) {
-        throw new NotFoundException(
-          `Village with ID ${updateReportDto.villageId} not found. Use GET /villages to list villages.`,
-        );
-      }
-    }
+    // Back in the queue: the report is no longer closed
+    const reopenedToQueue =
+      statusChanged && updateReportDto.status === ReportStatus.ATTENTE;
 
     const urgencyAnalysis =
       updateReportDto.description !== undefined
         ? this.aiService.analyzeUrgency(updateReportDto.description)
         : null;
 
+    // A new incident type or urgency may select another procedure
+    const procedureChanged =
+      (updateReportDto.incidentType !== undefined &&
+        updateReportDto.incidentType !== report.incidentType) ||
+      (updateReportDto.urgency !== undefined &&
+        updateReportDto.urgency !== report.urgency);
+    const template = procedureChanged
+      ? await this.templateService.resolve(
+          updateReportDto.incidentType ?? report.incidentType,
+          updateReportDto.urgency ?? report.urgency,
+        )
+      : null;
+
     const updatedReport = await this.prisma.report.update({
       where: { id },
       data: {
         ...updateReportDto,
         attachments,
+        ...(reopenedToQueue && { closedAt: null }),
+        ...(procedureChanged && { procedureTemplateId: template?.id ?? null }),
         ...(urgencyAnalysis && {
           isCritical: urgencyAnalysis.isCritical,
           criticalMatchedWords: urgencyAnalysis.matchedWords,
@@ -463,20 +687,34 @@ export class ReportService {
       },
     });
 
+    await this.historyService.record(
+      id,
+      report,
+      updatedReport,
+      'REPORT_UPDATED',
+      userId,
+    );
+
+    // Deadlines depend on the SLA policy and procedure of the urgency and
+    // incident type
+    if (procedureChanged) {
+      await this.slaService.rescheduleDeadlines(updatedReport);
+    }
+
     // Create audit log
-    await this.prisma.auditLog.create({
-      data: {
-        action: 'REPORT_UPDATED',
-        details: `Report updated by ${userRole}`,
-        userId,
-        reportId: id,
-      },
+    await this.auditLogService.log({
+      action: 'REPORT_UPDATED',
+      details: `Report updated by ${userRole}`,
+      userId,
+      reportId: id,
     });
 
     // Anonymize if needed
-    const canSeeIdentity =
-      ['SuperAdmin', 'Directeur'].includes(userRole) ||
-      updatedReport.reporterId === userId;
+    const canSeeIdentity = this.accessPolicy.canViewReporterIdentity(
+      userId,
+      userPermissions,
+      updatedReport,
+    );
 
     const finalReport =
       updatedReport.isAnonymous && !canSeeIdentity
@@ -497,22 +735,236 @@ export class ReportService {
     };
   }
 
-  async assign(id: string, assignDto: AssignReportDto, userId: string) {
+  async assign(
+    id: string,
+    assignDto: AssignReportDto,
+    userId: string,
+    userPermissions: string[],
+  ) {
+    const report = await this.findForAssignment(id, userId);
+
+    this.workflow.assertTransition(
+      report,
+      ReportStatus.EN_COURS,
+      'assign',
+      userPermissions,
+    );
+
+    // Without an explicit analyst, pick the best ranked candidate
+    const auto = !assignDto.analystId;
+    const analyst = await this.findAssignableAnalyst(
+      assignDto.analystId ?? (await this.pickAnalyst(report)).analyst.id,
+      report,
+    );
+
+    const updatedReport = await this.applyAssignment(report, analyst, {
+      action: 'ASSIGNED',
+      changedById: userId,
+      details: `Report ${auto ? 'auto-assigned' : 'assigned'} to ${analyst.firstName} ${analyst.lastName} (${analyst.role.name})`,
+    });
+
+    // Note: Directeur can assign, so they can see identity even for anonymous reports
+    return {
+      message: auto
+        ? `Report auto-assigned to ${analyst.firstName} ${analyst.lastName}`
+        : 'Report assigned successfully',
+      report: updatedReport,
+    };
+  }
+
+  /** Hand an open case to another analyst; both analysts are notified */
+  async reassign(
+    id: string,
+    dto: ReassignReportDto,
+    userId: string,
+    userPermissions: string[],
+  ) {
+    const report = await this.findForAssignment(id, userId);
+
+    this.workflow.assertTransition(
+      report,
+      ReportStatus.EN_COURS,
+      'reassign',
+      userPermissions,
+    );
+
+    const previous = report.analystId
+      ? await this.prisma.user.findUnique({
+          where: { id: report.analystId },
+          select: { firstName: true, lastName: true },
+        })
+      : null;
+    if (!previous) {
+      throw new BadRequestException(
+        'Report has no analyst. Use PATCH /reports/:id/assign instead.',
+      );
+    }
+    if (dto.analystId === report.analystId) {
+      throw new BadRequestException(
+        'Report is already assigned to this analyst',
+      );
+    }
+
+    const analyst = await this.findAssignableAnalyst(dto.analystId, report);
+
+    const updatedReport = await this.applyAssignment(report, analyst, {
+      action: 'REASSIGNED',
+      changedById: userId,
+      reason: dto.reason,
+      details: `Report reassigned from ${previous.firstName} ${previous.lastName} to ${analyst.firstName} ${analyst.lastName} (${analyst.role.name}): ${dto.reason}`,
+    });
+
+    return {
+      message: 'Report reassigned successfully',
+      report: updatedReport,
+    };
+  }
+
+  /** Take the analyst off an open case and put it back in the queue */
+  async unassign(
+    id: string,
+    dto: UnassignReportDto,
+    userId: string,
+    userPermissions: string[],
+  ) {
+    const report = await this.findForAssignment(id, userId);
+
+    this.workflow.assertTransition(
+      report,
+      ReportStatus.ATTENTE,
+      'unassign',
+      userPermissions,
+    );
+
+    const previousId = report.analystId;
+    if (!previousId) {
+      throw new BadRequestException('Report has no analyst to unassign');
+    }
+
+    const updatedReport = await this.prisma.report.update({
+      where: { id },
+      data: {
+        analystId: null,
+        status: ReportStatus.ATTENTE,
+      },
+      include: {
+        reporter: {
+          select: {
+            firstName: true,
+            lastName: true,
+          },
+        },
+        village: { select: { id: true, name: true } },
+      },
+    });
+
+    await this.teamService.removeLead(id);
+
+    await this.historyService.record(
+      id,
+      report,
+      updatedReport,
+      'REPORT_UNASSIGNED',
+      userId,
+    );
+
+    await this.assignmentService.record({
+      reportId: id,
+      action: 'UNASSIGNED',
+      fromAnalystId: previousId,
+      toAnalystId: null,
+      reason: dto.reason,
+      changedById: userId,
+    });
+
+    await this.auditLogService.log({
+      action: 'REPORT_UNASSIGNED',
+      details: `Report unassigned: ${dto.reason}`,
+      userId,
+      reportId: id,
+    });
+
+    await this.notificationService.notifyReportUnassigned(
+      previousId,
+      id,
+      updatedReport.incidentType,
+      dto.reason,
+    );
+
+    return {
+      message: 'Report unassigned and back in the queue',
+      report: updatedReport,
+    };
+  }
+
+  /** Structured assignment history: who changed it, when, from and to whom */
+  async getAssignmentHistory(
+    id: string,
+    userId: string,
+    userPermissions: string[],
+  ) {
+    await this.findVisibleReport(id, userId, userPermissions);
+
+    return {
+      reportId: id,
+      assignments: await this.assignmentService.findHistory(id),
+    };
+  }
+
+  /** Analysts eligible for the report, best fit first, with the reasons */
+  async getAssignmentSuggestions(id: string, userId: string) {
     const report = await this.prisma.report.findUnique({
       where: { id },
+      include: {
+        documents: { where: APPROVED_DOCUMENT, select: { type: true } },
+      },
     });
 
     if (!report) {
       throw new NotFoundException(`Report with ID ${id} not found`);
     }
 
+    await this.permissionResolver.assertVillageAccess(userId, report.villageId);
+
+    const ranking = await this.assignmentService.rankCandidates(report);
+    return {
+      reportId: id,
+      status: report.status,
+      urgency: report.urgency,
+      isCritical: report.isCritical,
+      ...ranking,
+    };
+  }
+
+  /** Report to (re/un)assign: in the user's villages and not archived */
+  private async findForAssignment(id: string, userId: string) {
+    const report = await this.prisma.report.findUnique({
+      where: { id },
+      include: {
+        documents: { where: APPROVED_DOCUMENT, select: { type: true } },
+      },
+    });
+
+    if (!report) {
+      throw new NotFoundException(`Report with ID ${id} not found`);
+    }
+
+    await this.permissionResolver.assertVillageAccess(userId, report.villageId);
+
     if (report.isArchived) {
       throw new ForbiddenException(ARCHIVED_ERROR);
     }
 
+    return report;
+  }
+
+  private async findAssignableAnalyst(
+    analystId: string,
+    report: { villageId: string },
+  ) {
     // Validate analyst exists and has appropriate role
     const analyst = await this.prisma.user.findUnique({
-      where: { id: assignDto.analystId },
+      where: { id: analystId },
       include: { role: true },
     });
 
@@ -520,19 +972,43 @@ export class ReportService {
       throw new NotFoundException('Analyst not found');
     }
 
-    // Check analyst has appropriate permissions
-    const validRoles = ['Psychologue', 'Assistant Social', 'Directeur'];
-    if (!validRoles.includes(analyst.role.name)) {
+    // Analyst role must hold REPORT_ASSIGNABLE and cover the village
+    await this.accessPolicy.assertAssignableAnalyst(analyst, report);
+
+    return analyst;
+  }
+
+  private async pickAnalyst(report: AssignmentReport) {
+    const { candidates } = await this.assignmentService.rankCandidates(report);
+    if (candidates.length === 0) {
       throw new BadRequestException(
-        `User must have one of these roles: ${validRoles.join(', ')}`,
+        "No eligible analyst covers this report's village",
       );
     }
+    return candidates[0];
+  }
 
+  /**
+   * Set the analyst (team lead), move the report to EN_COURS, record the
+   * change in the history, audit and assignment logs and notify the new
+   * and any previous analyst
+   */
+  private async applyAssignment(
+    report: Prisma.ReportGetPayload<object>,
+    analyst: { id: string; firstName: string; lastName: string },
+    entry: {
+      action: Exclude<AssignmentAction, 'UNASSIGNED'>;
+      /** Null for automatic assignment */
+      changedById: string | null;
+      details: string;
+      reason?: string;
+    },
+  ) {
     const updatedReport = await this.prisma.report.update({
-      where: { id },
+      where: { id: report.id },
       data: {
-        analystId: assignDto.analystId,
-        status: 'EN_COURS',
+        analystId: analyst.id,
+        status: ReportStatus.EN_COURS,
       },
       include: {
         reporter: {
@@ -552,44 +1028,85 @@ export class ReportService {
       },
     });
 
+    await this.teamService.setLead(report.id, analyst.id, entry.changedById);
+    await this.slaService.markFirstResponse(report.id);
+
+    await this.historyService.record(
+      report.id,
+      report,
+      updatedReport,
+      `REPORT_${entry.action}`,
+      entry.changedById,
+    );
+
+    await this.assignmentService.record({
+      reportId: report.id,
+      action: entry.action,
+      fromAnalystId: report.analystId,
+      toAnalystId: analyst.id,
+      reason: entry.reason,
+      changedById: entry.changedById,
+    });
+
     // Create audit log
-    await this.prisma.auditLog.create({
-      data: {
-        action: 'REPORT_ASSIGNED',
-        details: `Report assigned to ${analyst.firstName} ${analyst.lastName} (${analyst.role.name})`,
-        userId,
-        reportId: id,
-      },
+    await this.auditLogService.log({
+      action: `REPORT_${entry.action}`,
+      details: entry.details,
+      userId: entry.changedById,
+      reportId: report.id,
     });
 
     // Notify the assigned analyst
     await this.notificationService.notifyReportAssigned(
-      assignDto.analystId,
-      id,
+      analyst.id,
+      report.id,
       updatedReport.incidentType,
       updatedReport.village.name,
     );
+    if (report.analystId && report.analystId !== analyst.id) {
+      await this.notificationService.notifyReportUnassigned(
+        report.analystId,
+        report.id,
+        updatedReport.incidentType,
+        entry.reason ?? entry.details,
+        `${analyst.firstName} ${analyst.lastName}`,
+      );
+    }
 
-    // Note: Directeur can assign, so they can see identity even for anonymous reports
-    return {
-      message: 'Report assigned successfully',
-      report: updatedReport,
-    };
+    return updatedReport;
   }
 
-  async classify(id: string, classifyDto: ClassifyReportDto, userId: string) {
+  async classify(
+    id: string,
+    classifyDto: ClassifyReportDto,
+    userId: string,
+    userPermissions: string[],
+  ) {
     const report = await this.prisma.report.findUnique({
       where: { id },
+      include: {
+        documents: { where: APPROVED_DOCUMENT, select: { type: true } },
+      },
     });
 
     if (!report) {
       throw new NotFoundException(`Report with ID ${id} not found`);
     }
 
+    await this.permissionResolver.assertVillageAccess(userId, report.villageId);
+
     if (report.isArchived) {
       throw new ForbiddenException(ARCHIVED_ERROR);
     }
 
+    // Closing goes through close() so the case gets archived
+    this.workflow.assertTransition(
+      report,
+      classifyDto.classification,
+      'classify',
+      userPermissions,
+    );
+
     const updatedReport = await this.prisma.report.update({
       where: { id },
       data: {
@@ -612,14 +1129,20 @@ export class ReportService {
       },
     });
 
+    await this.historyService.record(
+      id,
+      report,
+      updatedReport,
+      'REPORT_CLASSIFIED',
+      userId,
+    );
+
     // Create audit log
-    await this.prisma.auditLog.create({
-      data: {
-        action: 'REPORT_CLASSIFIED',
-        details: `Report classified as ${classifyDto.classification}: ${classifyDto.reason}`,
-        userId,
-        reportId: id,
-      },
+    await this.auditLogService.log({
+      action: 'REPORT_CLASSIFIED',
+      details: `Report classified as ${classifyDto.classification}: ${classifyDto.reason}`,
+      userId,
+      reportId: id,
     });
 
     return {
@@ -628,32 +1151,45 @@ export class ReportService {
     };
   }
 
-  async close(id: string, closeDto: CloseReportDto, userId: string) {
+  async close(
+    id: string,
+    closeDto: CloseReportDto,
+    userId: string,
+    userPermissions: string[],
+  ) {
     const report = await this.prisma.report.findUnique({
       where: { id },
-      include: { documents: true },
+      include: { documents: { where: APPROVED_DOCUMENT } },
     });
 
     if (!report) {
       throw new NotFoundException(`Report with ID ${id} not found`);
     }
 
+    await this.permissionResolver.assertVillageAccess(userId, report.villageId);
+
     if (report.isArchived) {
       throw new BadRequestException('Report is already archived and closed.');
     }
 
-    // Require "Avis de cloture" document before closing
-    const hasClosureDoc = report.documents.some((d) => d.type === 'CLOTURE');
-    if (!hasClosureDoc) {
-      throw new BadRequestException(
-        'Cannot close case without "Avis de cloture" document. Upload closure document via POST /documents/reports/:id/cloture first.',
-      );
-    }
+    // Requires "Avis de cloture" and, for a handled case, the required
+    // documents of its procedure (see REPORT_TRANSITIONS)
+    this.workflow.assertTransition(
+      {
+        ...report,
+        procedureDocuments: closureDocuments(
+          await this.templateService.stepsFor(report),
+        ),
+      },
+      ReportStatus.CLOTURE,
+      'close',
+      userPermissions,
+    );
 
     const updatedReport = await this.prisma.report.update({
       where: { id },
       data: {
-        status: 'CLOTURE',
+        status: ReportStatus.CLOTURE,
         closedAt: new Date(),
         isArchived: true,
         closureDecision: closeDto.closureDecision,
@@ -675,13 +1211,19 @@ export class ReportService {
       },
     });
 
-    await this.prisma.auditLog.create({
-      data: {
-        action: 'REPORT_ARCHIVED',
-        details: `Case closed and archived. Decision: ${closeDto.closureDecision}. Notes: ${closeDto.closureNotes}`,
-        userId,
-        reportId: id,
-      },
+    await this.historyService.record(
+      id,
+      report,
+      updatedReport,
+      'REPORT_ARCHIVED',
+      userId,
+    );
+
+    await this.auditLogService.log({
+      action: 'REPORT_ARCHIVED',
+      details: `Case closed and archived. Decision: ${closeDto.closureDecision}. Notes: ${closeDto.closureNotes}`,
+      userId,
+      reportId: id,
     });
 
     return {
@@ -691,6 +1233,88 @@ export class ReportService {
     };
   }
 
+  /**
+   * Status transitions the user can perform on this report, so the frontend
+   * only renders valid actions. Archived reports can only be reopened.
+   */
+  async getTransitions(id: string, userId: string, userPermissions: string[]) {
+    const report = await this.prisma.report.findUnique({
+      where: { id },
+      include: {
+        documents: { where: APPROVED_DOCUMENT, select: { type: true } },
+      },
+    });
+
+    if (!report) {
+      throw new NotFoundException(`Report with ID ${id} not found`);
+    }
+
+    await this.accessPolicy.assertReportAccess(userId, userPermissions, report);
+
+    const procedureDocuments = closureDocuments(
+      await this.templateService.stepsFor(report),
+    );
+
+    return {
+      reportId: report.id,
+      currentStatus: report.status,
+      isArchived: report.isArchived,
+      transitions: this.workflow
+        .getAvailableTransitions(
+          { ...report, procedureDocuments },
+          userPermissions,
+        )
+        .filter((t) => !report.isArchived || t.action === 'reopen'),
+    };
+  }
+
+  /** Field-level change history (one entry per mutation, newest first) */
+  async getHistory(id: string, userId: string, userPermissions: string[]) {
+    await this.findVisibleReport(id, userId, userPermissions);
+    const versions = await this.historyService.findVersions(id);
+    return { reportId: id, versions };
+  }
+
+  /** The report's tracked fields as they were at a past timestamp */
+  async getSnapshot(
+    id: string,
+    at: string,
+    userId: string,
+    userPermissions: string[],
+  ) {
+    const report = await this.findVisibleReport(id, userId, userPermissions);
+    const asOf = new Date(at);
+
+    if (asOf < report.createdAt) {
+      throw new BadRequestException(
+        `Report did not exist at ${asOf.toISOString()} (created ${report.createdAt.toISOString()})`,
+      );
+    }
+
+    return {
+      reportId: id,
+      ...(await this.historyService.snapshotAt(report, id, asOf)),
+    };
+  }
+
+  private async findVisibleReport(
+    id: string,
+    userId: string,
+    userPermissions: string[],
+  ) {
+    const report = await this.prisma.report.findUnique({
+      where: { id },
+    });
+
+    if (!report) {
+      throw new NotFoundException(`Report with ID ${id} not found`);
+    }
+
+    await this.accessPolicy.assertReportAccess(userId, userPermissions, report);
+
+    return report;
+  }
+
   async remove(id: string, userId: string) {
     const report = await this.prisma.report.findUnique({
       where: { id },
@@ -700,6 +1324,8 @@ export class ReportService {
       throw new NotFoundException(`Report with ID ${id} not found`);
     }
 
+    await this.permissionResolver.assertVillageAccess(userId, report.villageId);
+
     if (report.isArchived) {
       throw new ForbiddenException(
         'Cannot delete archived report. Contact SuperAdmin for data retention policies.',
@@ -707,13 +1333,11 @@ export class ReportService {
     }
 
     // Create audit log before deletion
-    await this.prisma.auditLog.create({
-      data: {
-        action: 'REPORT_DELETED',
-        details: `Report ${id} deleted`,
-        userId,
-        reportId: id,
-      },
+    await this.auditLogService.log({
+      action: 'REPORT_DELETED',
+      details: `Report ${id} deleted`,
+      userId,
+      reportId: id,
     });
 
     await this.prisma.report.delete({
@@ -725,19 +1349,25 @@ export class ReportService {
     };
   }
 
-  async getStatistics() {
+  async getStatistics(userId: string) {
+    const villageIds = await this.permissionResolver.villageScope(userId);
+    const where = villageIds ? { villageId: { in: villageIds } } : {};
+
     const [total, byStatus, byType, byUrgency] = await Promise.all([
-      this.prisma.report.count(),
+      this.prisma.report.count({ where }),
       this.prisma.report.groupBy({
         by: ['status'],
+        where,
         _count: true,
       }),
       this.prisma.report.groupBy({
         by: ['incidentType'],
+        where,
         _count: true,
       }),
       this.prisma.report.groupBy({
         by: ['urgency'],
+        where,
         _count: true,
       }),
     ]);
@@ -1,5 +1,13 @@
-import { IsString, IsNotEmpty, IsArray, IsOptional } from 'class-validator';
+import {
+  IsString,
+  IsNotEmpty,
+  IsArray,
+  IsOptional,
+  IsEnum,
+  IsBoolean,
+} from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
+import { RoleScope } from '@prisma/client';
 
 export class CreateRoleDto {
   @ApiProperty({
@@ -28,4 +36,38 @@ export class CreateRoleDto {
   @IsArray()
   @IsString({ each: true })
   permissions: string[];
+
+  @ApiProperty({
+    enum: RoleScope,
+    example: RoleScope.VILLAGE,
+    description:
+      'VILLAGE restricts holders to the reports of their own (and covered) villages; NATIONAL sees all villages',
+    required: false,
+    default: RoleScope.NATIONAL,
+  })
+  @IsEnum(RoleScope)
+  @IsOptional()
+  scope?: RoleScope;
+
+  @ApiProperty({
+    example: true,
+    description:
+      'Require holders to sign in with two-factor authentication (TOTP). Users without 2FA enrol at their next sign-in.',
+    required: false,
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  requireTwoFactor?: boolean;
+
+  @ApiProperty({
+    example: false,
+    description:
+      'Offer this role on the public sign-up form (GET /auth/roles). Other roles are only given by administrators or invitations.',
+    required: false,
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  selfSignUp?: boolean;
 }
@@ -22,6 +22,7 @@ import { UpdateRoleDto } from './dto/update-role.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { PermissionsGuard } from '../auth/guards/permissions.guard';
 import { Permissions } from '../auth/decorators/permissions.decorator';
+import { Audit } from '../audit-log/decorators/audit.decorator';
 
 @ApiTags('roles')
 @ApiBearerAuth('JWT-auth')
@@ -31,6 +32,7 @@ export class RoleController {
   constructor(private readonly roleService: RoleService) {}
 
   @Post()
+  @Audit('ROLE_CREATED', 'ROLE')
   @Permissions('ROLE_CREATE')
   @ApiOperation({
     summary: 'Create new role (SuperAdmin only)',
@@ -139,6 +141,7 @@ export class RoleController {
   }
 
   @Patch(':id')
+  @Audit('ROLE_UPDATED', 'ROLE')
   @Permissions('ROLE_UPDATE')
   @ApiOperation({
     summary: 'Update role (SuperAdmin only)',
@@ -173,6 +176,7 @@ export class RoleController {
   }
 
   @Delete(':id')
+  @Audit('ROLE_DELETED', 'ROLE')
   @Permissions('ROLE_DELETE')
   @ApiOperation({
     summary: 'Delete role (SuperAdmin only)',
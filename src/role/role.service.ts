@@ -4,12 +4,16 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { PermissionResolverService } from '../auth/permission-resolver.service';
 import { CreateRoleDto } from './dto/create-role.dto';
 import { UpdateRoleDto } from './dto/update-role.dto';
 
 @Injectable()
 export class RoleService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private permissionResolver: PermissionResolverService,
+  ) {}
 
   /**
    * Create a new role
@@ -89,6 +93,9 @@ export class RoleService {
       data: updateRoleDto,
     });
 
+    // Users of this role get the new permissions on their next request
+    this.permissionResolver.invalidateAll();
+
     return {
       message: 'Role updated successfully',
       role: updatedRole,
@@ -143,6 +150,15 @@ export class RoleService {
         'REPORT_CLASSIFY', // Mark as false/closed
         'REPORT_ASSIGN',
         'CASE_CLOSE', // Level 3: Close and archive with Avis de cloture
+        'CASE_REOPEN', // Approve reopening of an archived case (second approver)
+
+        // Access policies (replace checks on role names)
+        'REPORT_READ_ALL', // Read reports filed by others (otherwise own only)
+        'REPORTER_IDENTITY_VIEW', // See who filed anonymous reports
+        'REPORT_ASSIGNABLE', // Can be assigned to a report as analyst
+        'REPORT_URGENT_ALERT', // Notified about urgent/critical reports
+        'SLA_ESCALATION', // Escalated to when report deadlines are missed
+        'SLA_ESCALATION_FINAL', // Last escalation level of missed deadlines
 
         // Document Management
         'DOC_UPLOAD_FICHE_INITIAL',
@@ -154,6 +170,7 @@ export class RoleService {
         'DOC_UPLOAD_CLOTURE',
         'DOC_READ',
         'DOC_DELETE',
+        'DOC_APPROVE',
 
         // User Management
         'USER_READ',
@@ -179,6 +196,15 @@ export class RoleService {
 
         // Dashboard/Statistics
         'STATS_VIEW',
+
+        // SLA policies (deadlines per urgency and incident type)
+        'SLA_MANAGE',
+
+        // Procedure templates (steps per incident type and urgency)
+        'PROCEDURE_MANAGE',
+
+        // Document types (upload slug, permission and accepted files)
+        'DOC_TYPE_MANAGE',
       ],
     };
   }
@@ -0,0 +1,76 @@
+import {
+  IsEnum,
+  IsInt,
+  Matches,
+  IsOptional,
+  IsArray,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IncidentType, UrgencyLevel } from '../../report/dto/create-report.dto';
+import { DocumentType } from '../../document/document-type';
+
+export class SlaStepDeadlineDto {
+  @ApiProperty({
+    example: DocumentType.RAPPORT_DPE,
+    description: 'Code of a registered document type (GET /document-types)',
+  })
+  @Matches(/^[A-Z][A-Z0-9_]*$/, {
+    message: 'docType must be an upper-case document type code',
+  })
+  docType: string;
+
+  @ApiProperty({
+    example: 48,
+    description: 'Hours after the report was created',
+  })
+  @IsInt()
+  @Min(1)
+  hours: number;
+}
+
+export class CreateSlaPolicyDto {
+  @ApiProperty({ enum: UrgencyLevel, example: UrgencyLevel.HAUTE })
+  @IsEnum(UrgencyLevel)
+  urgency: UrgencyLevel;
+
+  @ApiPropertyOptional({
+    enum: IncidentType,
+    example: IncidentType.VIOLENCE,
+    description:
+      'Restrict the policy to one incident type. Omit for the default policy of the urgency.',
+  })
+  @IsEnum(IncidentType)
+  @IsOptional()
+  incidentType?: IncidentType;
+
+  @ApiProperty({
+    example: 12,
+    description: 'Hours after creation by which an analyst must be assigned',
+  })
+  @IsInt()
+  @Min(1)
+  firstResponseHours: number;
+
+  @ApiPropertyOptional({
+    type: [SlaStepDeadlineDto],
+    description:
+      'Deadline of each procedure document. Omit to spread the built-in resolution time of the urgency over the required steps.',
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => SlaStepDeadlineDto)
+  @IsOptional()
+  stepHours?: SlaStepDeadlineDto[];
+
+  @ApiProperty({
+    example: 12,
+    description:
+      'Hours between escalation levels once a deadline is missed (analyst, then Directeur, then SuperAdmin)',
+  })
+  @IsInt()
+  @Min(1)
+  escalationHours: number;
+}
@@ -0,0 +1,7 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateSlaPolicyDto } from './create-sla-policy.dto';
+
+/** Urgency and incident type identify the policy and cannot change */
+export class UpdateSlaPolicyDto extends PartialType(
+  OmitType(CreateSlaPolicyDto, ['urgency', 'incidentType'] as const),
+) {}
@@ -0,0 +1,148 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  EscalationLevel,
+  SlaEscalationService,
+  dueEscalationLevel,
+} from './sla-escalation.service';
+import { computeDeadlines, defaultSlaPolicy } from './sla.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogService } from '../audit-log/audit-log.service';
+import { NotificationService } from '../notification/notification.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
+import {
+  DEFAULT_PROCEDURE_STEPS,
+  ProcedureTemplateService,
+} from '../procedure-template/procedure-template.service';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('SLA deadlines', () => {
+  const createdAt = new Date(2026, 0, 1);
+
+  it('schedules first response and each required document', () => {
+    const deadlines = computeDeadlines(defaultSlaPolicy('CRITIQUE'), createdAt);
+
+    expect(deadlines[0]).toMatchObject({
+      kind: 'FIRST_RESPONSE',
+      docType: null,
+      dueAt: new Date(createdAt.getTime() + 4 * HOUR_MS),
+    });
+    // The last required document is due at the end of the 3-day resolution
+    expect(deadlines[deadlines.length - 1]).toMatchObject({
+      kind: 'STEP',
+      docType: 'RAPPORT_FINAL',
+      dueAt: new Date(createdAt.getTime() + 72 * HOUR_MS),
+    });
+    expect(deadlines.map((d) => d.docType)).not.toContain('CLOTURE');
+  });
+
+  it('falls back to MOYENNE defaults for an unknown urgency', () => {
+    expect(defaultSlaPolicy('UNKNOWN')).toEqual(defaultSlaPolicy('MOYENNE'));
+  });
+
+  it('climbs one level every escalationHours after the deadline', () => {
+    const deadline = { dueAt: createdAt, escalationHours: 4 };
+    const after = (hours: number) =>
+      new Date(createdAt.getTime() + hours * HOUR_MS);
+
+    expect(dueEscalationLevel(deadline, true, after(-1))).toBe(0);
+    expect(dueEscalationLevel(deadline, true, after(1))).toBe(
+      EscalationLevel.ANALYST,
+    );
+    expect(dueEscalationLevel(deadline, true, after(5))).toBe(
+      EscalationLevel.DIRECTEUR,
+    );
+    expect(dueEscalationLevel(deadline, true, after(100))).toBe(
+      EscalationLevel.SUPERADMIN,
+    );
+    // Nobody to warn at the analyst level
+    expect(dueEscalationLevel(deadline, false, after(1))).toBe(
+      EscalationLevel.DIRECTEUR,
+    );
+  });
+});
+
+describe('SlaEscalationService', () => {
+  let service: SlaEscalationService;
+  const prisma = {
+    reportDeadline: { findMany: jest.fn(), update: jest.fn() },
+    user: { findMany: jest.fn() },
+  };
+  const notificationService = { notifySlaBreach: jest.fn() };
+  const auditLogService = { log: jest.fn() };
+
+  const now = new Date(2026, 0, 10);
+  const missed = (hoursAgo: number, escalationLevel: number) => ({
+    id: 'd1',
+    kind: 'STEP',
+    docType: 'RAPPORT_DPE',
+    dueAt: new Date(now.getTime() - hoursAgo * HOUR_MS),
+    escalationHours: 12,
+    escalationLevel,
+    report: {
+      id: 'r1',
+      incidentType: 'Violence',
+      villageId: 'v1',
+      analystId: 'psy',
+      procedureTemplateId: null,
+    },
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SlaEscalationService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: NotificationService, useValue: notificationService },
+        { provide: AuditLogService, useValue: auditLogService },
+        {
+          provide: AccessPolicyService,
+          useValue: { slaEscalationRecipientsWhere: jest.fn() },
+        },
+        {
+          provide: ProcedureTemplateService,
+          useValue: {
+            stepsFor: jest.fn().mockResolvedValue(DEFAULT_PROCEDURE_STEPS),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SlaEscalationService>(SlaEscalationService);
+    prisma.user.findMany.mockResolvedValue([{ id: 'directeur' }]);
+  });
+
+  it('notifies every level reached since the last run', async () => {
+    prisma.reportDeadline.findMany.mockResolvedValue([missed(13, 0)]);
+
+    await expect(service.checkDeadlines(now)).resolves.toBe(1);
+
+    const notified = notificationService.notifySlaBreach.mock.calls.map(
+      (call: unknown[]) => [call[0], call[5]],
+    );
+    expect(notified).toEqual([
+      [['psy'], EscalationLevel.ANALYST],
+      [['directeur'], EscalationLevel.DIRECTEUR],
+    ]);
+    expect(prisma.reportDeadline.update).toHaveBeenCalledWith({
+      where: { id: 'd1' },
+      data: {
+        escalationLevel: EscalationLevel.DIRECTEUR,
+        lastEscalatedAt: now,
+      },
+    });
+    expect(auditLogService.log).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'SLA_ESCALATED', userId: null }),
+    );
+  });
+
+  it('does not notify a level twice', async () => {
+    prisma.reportDeadline.findMany.mockResolvedValue([missed(1, 1)]);
+
+    await expect(service.checkDeadlines(now)).resolves.toBe(0);
+
+    expect(notificationService.notifySlaBreach).not.toHaveBeenCalled();
+    expect(prisma.reportDeadline.update).not.toHaveBeenCalled();
+  });
+});
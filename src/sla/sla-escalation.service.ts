@@ -0,0 +1,212 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+  forwardRef,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogService } from '../audit-log/audit-log.service';
+import { NotificationService } from '../notification/notification.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
+import { ProcedureTemplateService } from '../procedure-template/procedure-template.service';
+import {
+  SLA_CHECK_INTERVAL_MINUTES,
+  SLA_ESCALATION_ENABLED,
+} from '../common/config/sla.config';
+import { DeadlineKind, OPEN_REPORT_STATUSES } from './sla.service';
+
+export enum EscalationLevel {
+  ANALYST = 1,
+  DIRECTEUR = 2,
+  SUPERADMIN = 3,
+}
+
+const LEVEL_LABELS: Record<EscalationLevel, string> = {
+  [EscalationLevel.ANALYST]: 'analyst',
+  [EscalationLevel.DIRECTEUR]: 'Directeur',
+  [EscalationLevel.SUPERADMIN]: 'SuperAdmin',
+};
+
+/**
+ * Level a missed deadline should have reached: the analyst when it is
+ * missed, then one level up every escalationHours. Without an analyst
+ * (e.g. nobody assigned yet) the first level is the Directeur.
+ */
+export function dueEscalationLevel(
+  deadline: { dueAt: Date; escalationHours: number },
+  hasAnalyst: boolean,
+  now: Date,
+): number {
+  const overdueMs = now.getTime() - deadline.dueAt.getTime();
+  if (overdueMs < 0) {
+    return 0;
+  }
+  const first = hasAnalyst
+    ? EscalationLevel.ANALYST
+    : EscalationLevel.DIRECTEUR;
+  const steps = Math.floor(
+    overdueMs / (deadline.escalationHours * 60 * 60 * 1000),
+  );
+  return Math.min(first + steps, EscalationLevel.SUPERADMIN);
+}
+
+/**
+ * In-process job that looks for missed report deadlines every
+ * SLA_CHECK_INTERVAL_MINUTES and escalates them through notifications:
+ * analyst, then Directeur (SLA_ESCALATION), then SuperAdmin
+ * (SLA_ESCALATION_FINAL). Each level is notified once per deadline.
+ */
+@Injectable()
+export class SlaEscalationService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(SlaEscalationService.name);
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private prisma: PrismaService,
+    @Inject(forwardRef(() => NotificationService))
+    private notificationService: NotificationService,
+    private auditLogService: AuditLogService,
+    private accessPolicy: AccessPolicyService,
+    private templateService: ProcedureTemplateService,
+  ) {}
+
+  onModuleInit() {
+    if (!SLA_ESCALATION_ENABLED) {
+      return;
+    }
+    this.timer = setInterval(
+      () => {
+        this.checkDeadlines().catch((error: Error) =>
+          this.logger.error(`SLA escalation failed: ${error.message}`),
+        );
+      },
+      SLA_CHECK_INTERVAL_MINUTES * 60 * 1000,
+    );
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  /** Escalate every missed deadline that is due for a new level */
+  async checkDeadlines(now = new Date()) {
+    // Skip a run while the previous one is still going
+    if (this.running) {
+      return 0;
+    }
+    this.running = true;
+    try {
+      const missed = await this.prisma.reportDeadline.findMany({
+        where: {
+          metAt: null,
+          dueAt: { lt: now },
+          escalationLevel: { lt: EscalationLevel.SUPERADMIN },
+          report: { status: { in: OPEN_REPORT_STATUSES }, isArchived: false },
+        },
+        include: {
+          report: {
+            select: {
+              id: true,
+              incidentType: true,
+              villageId: true,
+              analystId: true,
+              procedureTemplateId: true,
+            },
+          },
+        },
+      });
+
+      let escalated = 0;
+      for (const deadline of missed) {
+        const level = dueEscalationLevel(
+          deadline,
+          !!deadline.report.analystId,
+          now,
+        );
+        if (level <= deadline.escalationLevel) {
+          continue;
+        }
+        await this.escalate(deadline, level, now);
+        escalated++;
+      }
+      return escalated;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async escalate(
+    deadline: {
+      id: string;
+      kind: string;
+      docType: string | null;
+      dueAt: Date;
+      escalationLevel: number;
+      report: {
+        id: string;
+        incidentType: string;
+        villageId: string;
+        analystId: string | null;
+        procedureTemplateId: string | null;
+      };
+    },
+    level: EscalationLevel,
+    now: Date,
+  ) {
+    const steps = await this.templateService.stepsFor(deadline.report);
+    const label =
+      deadline.kind === (DeadlineKind.FIRST_RESPONSE as string)
+        ? 'Prise en charge (assignation)'
+        : (steps.find((s) => s.docType === deadline.docType)?.name ??
+          deadline.docType!);
+
+    // Levels skipped while the job was not running are notified too
+    for (
+      let current = deadline.escalationLevel + 1;
+      current <= (level as number);
+      current++
+    ) {
+      const recipients = await this.recipients(current, deadline.report);
+      await this.notificationService.notifySlaBreach(
+        recipients,
+        deadline.report.id,
+        deadline.report.incidentType,
+        label,
+        deadline.dueAt,
+        current,
+      );
+    }
+
+    await this.prisma.reportDeadline.update({
+      where: { id: deadline.id },
+      data: { escalationLevel: level, lastEscalatedAt: now },
+    });
+
+    await this.auditLogService.log({
+      action: 'SLA_ESCALATED',
+      details: `Missed deadline "${label}" (due ${deadline.dueAt.toISOString()}) escalated to ${LEVEL_LABELS[level]}`,
+      userId: null,
+      reportId: deadline.report.id,
+    });
+  }
+
+  private async recipients(
+    level: EscalationLevel,
+    report: { villageId: string; analystId: string | null },
+  ) {
+    if (level === EscalationLevel.ANALYST) {
+      return report.analystId ? [report.analystId] : [];
+    }
+    const users = await this.prisma.user.findMany({
+      where: this.accessPolicy.slaEscalationRecipientsWhere(
+        report.villageId,
+        level === EscalationLevel.SUPERADMIN,
+      ),
+      select: { id: true },
+    });
+    return users.map((u) => u.id);
+  }
+}
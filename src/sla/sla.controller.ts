@@ -0,0 +1,134 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiBody,
+} from '@nestjs/swagger';
+import { SlaService } from './sla.service';
+import { CreateSlaPolicyDto } from './dto/create-sla-policy.dto';
+import { UpdateSlaPolicyDto } from './dto/update-sla-policy.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { Permissions } from '../auth/decorators/permissions.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { JwtPayload } from '../auth/dto/jwt-payload.dto';
+import { Audit } from '../audit-log/decorators/audit.decorator';
+
+@ApiTags('sla')
+@ApiBearerAuth('JWT-auth')
+@Controller('sla')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+export class SlaController {
+  constructor(private readonly slaService: SlaService) {}
+
+  @Get('policies')
+  @Permissions('SLA_MANAGE')
+  @ApiOperation({
+    summary: 'List SLA policies (SuperAdmin)',
+    description:
+      'Stored policies per urgency and incident type, and the built-in defaults used when no policy matches a report.',
+  })
+  @ApiResponse({ status: 200, description: 'SLA policies and defaults' })
+  @ApiResponse({ status: 403, description: 'Missing SLA_MANAGE permission' })
+  findPolicies() {
+    return this.slaService.findPolicies();
+  }
+
+  @Post('policies')
+  @Audit('SLA_POLICY_CREATED', 'SLA_POLICY')
+  @Permissions('SLA_MANAGE')
+  @ApiOperation({
+    summary: 'Create SLA policy (SuperAdmin)',
+    description:
+      'Deadlines for an urgency, optionally narrowed to one incident type. Without stepHours the required procedure documents are spread over the default resolution time.',
+  })
+  @ApiBody({ type: CreateSlaPolicyDto })
+  @ApiResponse({ status: 201, description: 'SLA policy created' })
+  @ApiResponse({
+    status: 400,
+    description: 'Validation error or duplicate document deadline',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'A policy already exists for this urgency and incident type',
+  })
+  @ApiResponse({ status: 403, description: 'Missing SLA_MANAGE permission' })
+  createPolicy(@Body() dto: CreateSlaPolicyDto) {
+    return this.slaService.createPolicy(dto);
+  }
+
+  @Patch('policies/:id')
+  @Audit('SLA_POLICY_UPDATED', 'SLA_POLICY')
+  @Permissions('SLA_MANAGE')
+  @ApiOperation({
+    summary: 'Update SLA policy (SuperAdmin)',
+    description:
+      'Applies to reports created afterwards; deadlines already scheduled are kept.',
+  })
+  @ApiParam({ name: 'id', description: 'SLA policy ID' })
+  @ApiBody({ type: UpdateSlaPolicyDto })
+  @ApiResponse({ status: 200, description: 'SLA policy updated' })
+  @ApiResponse({ status: 404, description: 'SLA policy not found' })
+  @ApiResponse({ status: 403, description: 'Missing SLA_MANAGE permission' })
+  updatePolicy(@Param('id') id: string, @Body() dto: UpdateSlaPolicyDto) {
+    return this.slaService.updatePolicy(id, dto);
+  }
+
+  @Delete('policies/:id')
+  @Audit('SLA_POLICY_DELETED', 'SLA_POLICY')
+  @Permissions('SLA_MANAGE')
+  @ApiOperation({
+    summary: 'Delete SLA policy (SuperAdmin)',
+    description: 'New reports fall back to the next matching policy.',
+  })
+  @ApiParam({ name: 'id', description: 'SLA policy ID' })
+  @ApiResponse({ status: 200, description: 'SLA policy deleted' })
+  @ApiResponse({ status: 404, description: 'SLA policy not found' })
+  @ApiResponse({ status: 403, description: 'Missing SLA_MANAGE permission' })
+  removePolicy(@Param('id') id: string) {
+    return this.slaService.removePolicy(id);
+  }
+
+  @Get('reports/:id')
+  @Permissions('REPORT_READ')
+  @ApiOperation({
+    summary: 'Get the deadlines of a report',
+    description:
+      'First response and procedure document deadlines, with breached (open and overdue) and metLate flags and the escalation level reached.',
+  })
+  @ApiParam({ name: 'id', description: 'Report ID' })
+  @ApiResponse({ status: 200, description: 'Report deadlines' })
+  @ApiResponse({ status: 404, description: 'Report not found' })
+  @ApiResponse({
+    status: 403,
+    description: 'Missing permission or not your report',
+  })
+  findForReport(@Param('id') id: string, @CurrentUser() user: JwtPayload) {
+    return this.slaService.findForReport(id, user.sub, user.permissions);
+  }
+
+  @Get('breaches')
+  @Permissions('STATS_VIEW')
+  @ApiOperation({
+    summary: 'List missed deadlines',
+    description:
+      'Overdue deadlines of open reports in your villages, oldest first.',
+  })
+  @ApiResponse({ status: 200, description: 'Missed deadlines' })
+  @ApiResponse({ status: 403, description: 'Missing STATS_VIEW permission' })
+  findBreaches(@CurrentUser() user: JwtPayload) {
+    return this.slaService.findBreaches(user.sub);
+  }
+}
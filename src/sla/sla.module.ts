@@ -0,0 +1,21 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { SlaService } from './sla.service';
+import { SlaController } from './sla.controller';
+import { SlaEscalationService } from './sla-escalation.service';
+import { NotificationModule } from '../notification/notification.module';
+import { AuditLogModule } from '../audit-log/audit-log.module';
+import { ProcedureTemplateModule } from '../procedure-template/procedure-template.module';
+import { DocumentTypeModule } from '../document-type/document-type.module';
+
+@Module({
+  imports: [
+    forwardRef(() => NotificationModule),
+    AuditLogModule,
+    ProcedureTemplateModule,
+    DocumentTypeModule,
+  ],
+  controllers: [SlaController],
+  providers: [SlaService, SlaEscalationService],
+  exports: [SlaService],
+})
+export class SlaModule {}
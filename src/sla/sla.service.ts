@@ -0,0 +1,386 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { PermissionResolverService } from '../auth/permission-resolver.service';
+import { AccessPolicyService } from '../auth/access-policy.service';
+import {
+  DEFAULT_PROCEDURE_STEPS,
+  ProcedureTemplateService,
+} from '../procedure-template/procedure-template.service';
+import type { ProcedureStepDefinition } from '../procedure-template/procedure-template.service';
+import { DocumentTypeService } from '../document-type/document-type.service';
+import { UrgencyLevel } from '../report/dto/create-report.dto';
+import { ReportStatus } from '../report/dto/update-report.dto';
+import { CreateSlaPolicyDto } from './dto/create-sla-policy.dto';
+import { UpdateSlaPolicyDto } from './dto/update-sla-policy.dto';
+
+export enum DeadlineKind {
+  FIRST_RESPONSE = 'FIRST_RESPONSE',
+  STEP = 'STEP',
+}
+
+/** Deadlines are only enforced while the case is open */
+export const OPEN_REPORT_STATUSES: string[] = [
+  ReportStatus.ATTENTE,
+  ReportStatus.EN_COURS,
+];
+
+export interface SlaPolicyValues {
+  firstResponseHours: number;
+  stepHours: { docType: string; hours: number }[];
+  escalationHours: number;
+}
+
+/** Built-in resolution time per urgency (days), as used by process tracking */
+const DEFAULT_RESOLUTION_DAYS: Record<UrgencyLevel, number> = {
+  [UrgencyLevel.CRITIQUE]: 3,
+  [UrgencyLevel.HAUTE]: 7,
+  [UrgencyLevel.MOYENNE]: 14,
+  [UrgencyLevel.BASSE]: 30,
+};
+
+const DEFAULT_FIRST_RESPONSE_HOURS: Record<UrgencyLevel, number> = {
+  [UrgencyLevel.CRITIQUE]: 4,
+  [UrgencyLevel.HAUTE]: 24,
+  [UrgencyLevel.MOYENNE]: 72,
+  [UrgencyLevel.BASSE]: 168,
+};
+
+const DEFAULT_ESCALATION_HOURS: Record<UrgencyLevel, number> = {
+  [UrgencyLevel.CRITIQUE]: 4,
+  [UrgencyLevel.HAUTE]: 12,
+  [UrgencyLevel.MOYENNE]: 24,
+  [UrgencyLevel.BASSE]: 48,
+};
+
+function asUrgency(urgency: string): UrgencyLevel {
+  return urgency in DEFAULT_RESOLUTION_DAYS
+    ? (urgency as UrgencyLevel)
+    : UrgencyLevel.MOYENNE;
+}
+
+/**
+ * Required procedure steps at their due offset, or spread evenly over the
+ * resolution time when the procedure template sets none
+ */
+export function defaultStepHours(
+  urgency: string,
+  steps: ProcedureStepDefinition[] = DEFAULT_PROCEDURE_STEPS,
+) {
+  const totalHours = DEFAULT_RESOLUTION_DAYS[asUrgency(urgency)] * 24;
+  const required = steps.filter((step) => step.required);
+  return required.map((step, index) => ({
+    docType: step.docType,
+    hours:
+      step.dueOffsetHours ??
+      Math.round((totalHours * (index + 1)) / required.length),
+  }));
+}
+
+/** Policy used when no SLA policy is stored for the urgency */
+export function defaultSlaPolicy(
+  urgency: string,
+  steps: ProcedureStepDefinition[] = DEFAULT_PROCEDURE_STEPS,
+): SlaPolicyValues {
+  const level = asUrgency(urgency);
+  return {
+    firstResponseHours: DEFAULT_FIRST_RESPONSE_HOURS[level],
+    stepHours: defaultStepHours(level, steps),
+    escalationHours: DEFAULT_ESCALATION_HOURS[level],
+  };
+}
+
+/** Deadlines of a report created at createdAt under a policy */
+export function computeDeadlines(policy: SlaPolicyValues, createdAt: Date) {
+  const at = (hours: number) =>
+    new Date(createdAt.getTime() + hours * 60 * 60 * 1000);
+  return [
+    {
+      kind: DeadlineKind.FIRST_RESPONSE,
+      docType: null,
+      dueAt: at(policy.firstResponseHours),
+      escalationHours: policy.escalationHours,
+    },
+    ...policy.stepHours.map((step) => ({
+      kind: DeadlineKind.STEP,
+      docType: step.docType,
+      dueAt: at(step.hours),
+      escalationHours: policy.escalationHours,
+    })),
+  ];
+}
+
+interface SlaReport {
+  id: string;
+  urgency: string;
+  incidentType: string;
+  createdAt: Date;
+  procedureTemplateId?: string | null;
+}
+
+/**
+ * SLA policies per urgency and incident type, and the deadlines they give
+ * each report: first response (an analyst is assigned) and one per
+ * procedure document. SlaEscalationService acts on missed deadlines.
+ */
+@Injectable()
+export class SlaService {
+  constructor(
+    private prisma: PrismaService,
+    private permissionResolver: PermissionResolverService,
+    private accessPolicy: AccessPolicyService,
+    private templateService: ProcedureTemplateService,
+    private documentTypeService: DocumentTypeService,
+  ) {}
+
+  /** Stored policies and the built-in defaults used when none matches */
+  async findPolicies() {
+    const policies = await this.prisma.slaPolicy.findMany({
+      orderBy: [{ urgency: 'asc' }, { incidentType: 'asc' }],
+    });
+    return {
+      policies,
+      defaults: Object.values(UrgencyLevel).map((urgency) => ({
+        urgency,
+        ...defaultSlaPolicy(urgency),
+      })),
+    };
+  }
+
+  async createPolicy(dto: CreateSlaPolicyDto) {
+    const existing = await this.prisma.slaPolicy.findFirst({
+      where: { urgency: dto.urgency, incidentType: dto.incidentType ?? null },
+    });
+    if (existing) {
+      throw new ConflictException(
+        `An SLA policy already exists for ${dto.urgency}${dto.incidentType ? ` / ${dto.incidentType}` : ''} (ID ${existing.id})`,
+      );
+    }
+
+    return this.prisma.slaPolicy.create({
+      data: {
+        urgency: dto.urgency,
+        incidentType: dto.incidentType ?? null,
+        firstResponseHours: dto.firstResponseHours,
+        stepHours: await this.stepHours(dto.stepHours, dto.urgency),
+        escalationHours: dto.escalationHours,
+      },
+    });
+  }
+
+  /** Applies to reports created from now on; scheduled deadlines are kept */
+  async updatePolicy(id: string, dto: UpdateSlaPolicyDto) {
+    const policy = await this.findPolicy(id);
+
+    return this.prisma.slaPolicy.update({
+      where: { id },
+      data: {
+        ...(dto.firstResponseHours !== undefined && {
+          firstResponseHours: dto.firstResponseHours,
+        }),
+        ...(dto.stepHours !== undefined && {
+          stepHours: await this.stepHours(dto.stepHours, policy.urgency),
+        }),
+        ...(dto.escalationHours !== undefined && {
+          escalationHours: dto.escalationHours,
+        }),
+      },
+    });
+  }
+
+  async removePolicy(id: string) {
+    await this.findPolicy(id);
+    await this.prisma.slaPolicy.delete({ where: { id } });
+    return { message: 'SLA policy deleted successfully' };
+  }
+
+  /**
+   * Most specific policy: urgency + incident type, urgency only, built-in.
+   * Step deadlines are limited to the steps of the report's procedure.
+   */
+  async resolvePolicy(
+    urgency: string,
+    incidentType: string,
+    steps: ProcedureStepDefinition[] = DEFAULT_PROCEDURE_STEPS,
+  ): Promise<SlaPolicyValues> {
+    const policies = await this.prisma.slaPolicy.findMany({
+      where: { urgency, OR: [{ incidentType }, { incidentType: null }] },
+    });
+    const policy =
+      policies.find((p) => p.incidentType === incidentType) ??
+      policies.find((p) => p.incidentType === null);
+    if (!policy) {
+      return defaultSlaPolicy(urgency, steps);
+    }
+    return {
+      ...policy,
+      stepHours: policy.stepHours.filter((deadline) =>
+        steps.some((step) => step.docType === deadline.docType),
+      ),
+    };
+  }
+
+  /** Persist the deadlines of a new report */
+  async scheduleDeadlines(report: SlaReport) {
+    const policy = await this.resolvePolicy(
+      report.urgency,
+      report.incidentType,
+      await this.templateService.stepsFor(report),
+    );
+    await this.prisma.reportDeadline.createMany({
+      data: computeDeadlines(policy, report.createdAt).map((deadline) => ({
+        ...deadline,
+        reportId: report.id,
+      })),
+    });
+  }
+
+  /**
+   * Recompute the deadlines not met yet, e.g. after the urgency or the
+   * incident type of the report changed
+   */
+  async rescheduleDeadlines(report: SlaReport) {
+    const policy = await this.resolvePolicy(
+      report.urgency,
+      report.incidentType,
+      await this.templateService.stepsFor(report),
+    );
+    const met = await this.prisma.reportDeadline.findMany({
+      where: { reportId: report.id, metAt: { not: null } },
+      select: { kind: true, docType: true },
+    });
+    const pending = computeDeadlines(policy, report.createdAt).filter(
+      (deadline) =>
+        !met.some(
+          (m) =>
+            m.kind === (deadline.kind as string) &&
+            m.docType === deadline.docType,
+        ),
+    );
+
+    await this.prisma.$transaction([
+      this.prisma.reportDeadline.deleteMany({
+        where: { reportId: report.id, metAt: null },
+      }),
+      this.prisma.reportDeadline.createMany({
+        data: pending.map((deadline) => ({
+          ...deadline,
+          reportId: report.id,
+        })),
+      }),
+    ]);
+  }
+
+  /** An analyst was assigned */
+  async markFirstResponse(reportId: string) {
+    await this.prisma.reportDeadline.updateMany({
+      where: { reportId, kind: DeadlineKind.FIRST_RESPONSE, metAt: null },
+      data: { metAt: new Date() },
+    });
+  }
+
+  /** A procedure document was uploaded */
+  async markStepDone(reportId: string, docType: string) {
+    await this.prisma.reportDeadline.updateMany({
+      where: { reportId, kind: DeadlineKind.STEP, docType, metAt: null },
+      data: { metAt: new Date() },
+    });
+  }
+
+  async findForReport(
+    reportId: string,
+    userId: string,
+    userPermissions: string[],
+  ) {
+    const report = await this.prisma.report.findUnique({
+      where: { id: reportId },
+    });
+
+    if (!report) {
+      throw new NotFoundException(`Report with ID ${reportId} not found`);
+    }
+
+    await this.accessPolicy.assertReportAccess(userId, userPermissions, report);
+
+    const deadlines = await this.prisma.reportDeadline.findMany({
+      where: { reportId },
+      orderBy: { dueAt: 'asc' },
+    });
+    const now = new Date();
+    const enforced = OPEN_REPORT_STATUSES.includes(report.status);
+
+    return {
+      reportId,
+      status: report.status,
+      deadlines: deadlines.map((deadline) => ({
+        ...deadline,
+        breached:
+          enforced &&
+          !deadline.metAt &&
+          deadline.dueAt.getTime() < now.getTime(),
+        metLate: !!deadline.metAt && deadline.metAt > deadline.dueAt,
+      })),
+    };
+  }
+
+  /** Missed deadlines of open reports in the user's villages */
+  async findBreaches(userId: string) {
+    const villageIds = await this.permissionResolver.villageScope(userId);
+
+    return this.prisma.reportDeadline.findMany({
+      where: {
+        metAt: null,
+        dueAt: { lt: new Date() },
+        report: {
+          status: { in: OPEN_REPORT_STATUSES },
+          isArchived: false,
+          ...(villageIds && { villageId: { in: villageIds } }),
+        },
+      },
+      include: {
+        report: {
+          select: {
+            id: true,
+            incidentType: true,
+            urgency: true,
+            status: true,
+            village: { select: { id: true, name: true } },
+            analyst: {
+              select: { id: true, firstName: true, lastName: true },
+            },
+          },
+        },
+      },
+      orderBy: { dueAt: 'asc' },
+    });
+  }
+
+  private async findPolicy(id: string) {
+    const policy = await this.prisma.slaPolicy.findUnique({ where: { id } });
+    if (!policy) {
+      throw new NotFoundException(`SLA policy with ID ${id} not found`);
+    }
+    return policy;
+  }
+
+  private async stepHours(
+    steps: { docType: string; hours: number }[] | undefined,
+    urgency: string,
+  ) {
+    if (!steps) {
+      return defaultStepHours(urgency);
+    }
+    const types = steps.map((step) => step.docType);
+    if (new Set(types).size !== types.length) {
+      throw new BadRequestException(
+        'Each procedure document can only have one deadline',
+      );
+    }
+    await this.documentTypeService.findByCodes(types);
+    return steps.map((step) => ({ docType: step.docType, hours: step.hours }));
+  }
+}
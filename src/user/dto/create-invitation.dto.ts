@@ -0,0 +1,43 @@
+import {
+  IsArray,
+  IsEmail,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateInvitationDto {
+  @ApiProperty({
+    example: 'psychologue.sousse@sos.tn',
+    description: 'Email address the invitation is sent to',
+  })
+  @IsEmail()
+  @IsNotEmpty()
+  email: string;
+
+  @ApiProperty({
+    example: '6990a2530ea1533dee1111e9',
+    description: 'Role given to the account (any role, not only sign-up ones)',
+  })
+  @IsMongoId()
+  roleId: string;
+
+  @ApiPropertyOptional({
+    example: '6990a2530ea1533dee1111e1',
+    description: 'Home village of the user',
+  })
+  @IsOptional()
+  @IsMongoId()
+  villageId?: string;
+
+  @ApiPropertyOptional({
+    example: ['6990a2530ea1533dee1111e2'],
+    description: 'Additional villages covered by the user',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsMongoId({ each: true })
+  coveredVillageIds?: string[];
+}
@@ -0,0 +1,24 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { CreateInvitationDto } from './create-invitation.dto';
+
+export class CreateUserDto extends CreateInvitationDto {
+  @ApiProperty({
+    example: 'Gammarth-Village-2026',
+    description:
+      'Initial password (password policy applies). The user can change it with POST /auth/password/change.',
+  })
+  @IsString()
+  @IsNotEmpty()
+  password: string;
+
+  @ApiProperty({ example: 'Amira', description: 'User first name' })
+  @IsString()
+  @IsNotEmpty()
+  firstName: string;
+
+  @ApiProperty({ example: 'Ben Salah', description: 'User last name' })
+  @IsString()
+  @IsNotEmpty()
+  lastName: string;
+}
@@ -3,10 +3,10 @@ import { ApiPropertyOptional } from '@nestjs/swagger';
 
 export class FindAllUsersQueryDto {
   @ApiPropertyOptional({
-    enum: ['PENDING', 'APPROVED', 'REJECTED'],
+    enum: ['PENDING', 'APPROVED', 'REJECTED', 'DEACTIVATED'],
     description: 'Filter users by approval status. Use PENDING to list registration requests.',
   })
   @IsOptional()
-  @IsIn(['PENDING', 'APPROVED', 'REJECTED'])
-  status?: 'PENDING' | 'APPROVED' | 'REJECTED';
+  @IsIn(['PENDING', 'APPROVED', 'REJECTED', 'DEACTIVATED'])
+  status?: 'PENDING' | 'APPROVED' | 'REJECTED' | 'DEACTIVATED';
 }
@@ -0,0 +1,15 @@
+import { IsOptional, IsString } from 'class-validator';
+import { ApiPropertyOptional, OmitType } from '@nestjs/swagger';
+import { UpdateUserDto } from './update-user.dto';
+
+export class UpdateProfileDto extends OmitType(UpdateUserDto, [
+  'villageId',
+] as const) {
+  @ApiPropertyOptional({
+    example: 'Gammarth-Village-2026',
+    description: 'Current password, required to change the email address',
+  })
+  @IsOptional()
+  @IsString()
+  currentPassword?: string;
+}
@@ -0,0 +1,22 @@
+import { IsArray, IsMongoId, IsOptional } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class UpdateUserVillagesDto {
+  @ApiPropertyOptional({
+    example: '6990a2530ea1533dee1111e1',
+    description: 'Home village of the user',
+  })
+  @IsOptional()
+  @IsMongoId()
+  villageId?: string;
+
+  @ApiProperty({
+    example: ['6990a2530ea1533dee1111e2'],
+    description:
+      'Additional villages covered by the user (e.g. a psychologist serving several villages). Replaces the current list.',
+    type: [String],
+  })
+  @IsArray()
+  @IsMongoId({ each: true })
+  coveredVillageIds: string[];
+}
@@ -0,0 +1,39 @@
+import {
+  IsEmail,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class UpdateUserDto {
+  @ApiPropertyOptional({ example: 'Amira', description: 'First name' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  firstName?: string;
+
+  @ApiPropertyOptional({ example: 'Ben Salah', description: 'Last name' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  lastName?: string;
+
+  @ApiPropertyOptional({
+    example: 'amira.bensalah@sos.tn',
+    description: 'Email address (used to sign in)',
+  })
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @ApiPropertyOptional({
+    example: '6990a2530ea1533dee1111e1',
+    description:
+      'Home village. Covered villages are set with PATCH /users/:id/villages.',
+  })
+  @IsOptional()
+  @IsMongoId()
+  villageId?: string;
+}
@@ -4,6 +4,7 @@ import {
   Param,
   Delete,
   Patch,
+  Post,
   Body,
   Query,
   UseGuards,
@@ -19,9 +20,17 @@ import {
 } from '@nestjs/swagger';
 import { UserService } from './user.service';
 import { FindAllUsersQueryDto } from './dto/find-all-users-query.dto';
+import { UpdateUserVillagesDto } from './dto/update-user-villages.dto';
+import { CreateUserDto } from './dto/create-user.dto';
+import { CreateInvitationDto } from './dto/create-invitation.dto';
+import { UpdateUserDto } from './dto/update-user.dto';
+import { UpdateProfileDto } from './dto/update-profile.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { PermissionsGuard } from '../auth/guards/permissions.guard';
 import { Permissions } from '../auth/decorators/permissions.decorator';
+import { Audit } from '../audit-log/decorators/audit.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { JwtPayload } from '../auth/dto/jwt-payload.dto';
 
 @ApiTags('users')
 @ApiBearerAuth('JWT-auth')
@@ -40,7 +49,7 @@ export class UserController {
   @ApiQuery({
     name: 'status',
     required: false,
-    enum: ['PENDING', 'APPROVED', 'REJECTED'],
+    enum: ['PENDING', 'APPROVED', 'REJECTED', 'DEACTIVATED'],
   })
   @ApiResponse({
     status: 200,
@@ -70,7 +79,80 @@ export class UserController {
     return this.userService.findAll(query);
   }
 
+  @Post()
+  @Audit('USER_CREATED', 'USER')
+  @Permissions('USER_CREATE')
+  @ApiOperation({
+    summary: 'Create user',
+    description:
+      'Create an approved account with any role and an initial password. Requires USER_CREATE.',
+  })
+  @ApiBody({ type: CreateUserDto })
+  @ApiResponse({ status: 201, description: 'User created' })
+  @ApiResponse({
+    status: 400,
+    description: 'Email already used or password does not meet the policy',
+  })
+  @ApiResponse({ status: 404, description: 'Role or village not found' })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Missing USER_CREATE permission, village outside your scope or role granting permissions you do not hold',
+  })
+  create(@Body() dto: CreateUserDto, @CurrentUser() user: JwtPayload) {
+    return this.userService.create(dto, user.sub);
+  }
+
+  @Post('invitations')
+  @Audit('USER_INVITED', 'INVITATION')
+  @Permissions('USER_CREATE')
+  @ApiOperation({
+    summary: 'Invite a user',
+    description:
+      'Mail an expiring invitation link bound to a role and villages. The invitee creates an approved account with POST /auth/invitations/accept. A new invitation replaces a pending one for the same email.',
+  })
+  @ApiBody({ type: CreateInvitationDto })
+  @ApiResponse({ status: 201, description: 'Invitation sent' })
+  @ApiResponse({ status: 400, description: 'Email already used' })
+  @ApiResponse({ status: 404, description: 'Role or village not found' })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Missing USER_CREATE permission, village outside your scope or role granting permissions you do not hold',
+  })
+  invite(@Body() dto: CreateInvitationDto, @CurrentUser() user: JwtPayload) {
+    return this.userService.invite(dto, user.sub);
+  }
+
+  @Get('invitations')
+  @Permissions('USER_CREATE')
+  @ApiOperation({
+    summary: 'List pending invitations',
+    description: 'Invitations not yet accepted and not expired.',
+  })
+  @ApiResponse({ status: 200, description: 'Pending invitations' })
+  @ApiResponse({ status: 403, description: 'Missing USER_CREATE permission' })
+  findPendingInvitations() {
+    return this.userService.findPendingInvitations();
+  }
+
+  @Delete('invitations/:id')
+  @Audit('USER_INVITATION_REVOKED', 'INVITATION')
+  @Permissions('USER_CREATE')
+  @ApiOperation({
+    summary: 'Revoke an invitation',
+    description: 'The invitation link stops working immediately.',
+  })
+  @ApiParam({ name: 'id', description: 'Invitation ID' })
+  @ApiResponse({ status: 200, description: 'Invitation revoked' })
+  @ApiResponse({ status: 404, description: 'Pending invitation not found' })
+  @ApiResponse({ status: 403, description: 'Missing USER_CREATE permission' })
+  revokeInvitation(@Param('id') id: string) {
+    return this.userService.revokeInvitation(id);
+  }
+
   @Patch(':id/approve')
+  @Audit('USER_APPROVED', 'USER')
   @Permissions('USER_MANAGE')
   @ApiOperation({
     summary: 'Approve pending registration',
@@ -90,6 +172,7 @@ export class UserController {
   }
 
   @Patch(':id/reject')
+  @Audit('USER_REJECTED', 'USER')
   @Permissions('USER_MANAGE')
   @ApiOperation({
     summary: 'Reject pending registration',
@@ -127,7 +210,53 @@ export class UserController {
     return this.userService.findOne(id);
   }
 
+  @Patch('me')
+  @Audit('USER_PROFILE_UPDATED', 'USER')
+  @Permissions('USER_UPDATE')
+  @ApiOperation({
+    summary: 'Update own profile',
+    description:
+      'Change your first name, last name or email. Changing the email requires currentPassword.',
+  })
+  @ApiBody({ type: UpdateProfileDto })
+  @ApiResponse({ status: 200, description: 'Profile updated' })
+  @ApiResponse({ status: 400, description: 'Email already used' })
+  @ApiResponse({
+    status: 401,
+    description: 'Current password missing or incorrect for an email change',
+  })
+  @ApiResponse({ status: 403, description: 'Missing USER_UPDATE permission' })
+  updateProfile(
+    @CurrentUser() user: JwtPayload,
+    @Body() dto: UpdateProfileDto,
+  ) {
+    return this.userService.updateProfile(user.sub, dto);
+  }
+
+  @Patch(':id')
+  @Audit('USER_UPDATED', 'USER')
+  @Permissions('USER_UPDATE')
+  @ApiOperation({
+    summary: 'Update user',
+    description:
+      'Change the name, email or home village of a user. Requires USER_UPDATE.',
+  })
+  @ApiParam({ name: 'id', description: 'User ID to update' })
+  @ApiBody({ type: UpdateUserDto })
+  @ApiResponse({ status: 200, description: 'User updated' })
+  @ApiResponse({ status: 400, description: 'Email already used' })
+  @ApiResponse({ status: 404, description: 'User or village not found' })
+  @ApiResponse({ status: 403, description: 'Missing USER_UPDATE permission' })
+  update(
+    @Param('id') id: string,
+    @Body() dto: UpdateUserDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.userService.update(id, dto, user.sub);
+  }
+
   @Patch(':id/role')
+  @Audit('USER_ROLE_CHANGED', 'USER')
   @Permissions('USER_MANAGE')
   @ApiOperation({
     summary: 'Update user role (SuperAdmin only)',
@@ -179,14 +308,120 @@ export class UserController {
     return this.userService.updateRole(id, roleId);
   }
 
+  @Patch(':id/villages')
+  @Audit('USER_VILLAGES_CHANGED', 'USER')
+  @Permissions('USER_MANAGE')
+  @ApiOperation({
+    summary: 'Update user villages',
+    description:
+      'Set the home village and the additional villages a user covers. Users with a VILLAGE-scoped role only access reports, documents and dashboards of these villages.',
+  })
+  @ApiParam({ name: 'id', description: 'User ID to update' })
+  @ApiResponse({ status: 200, description: 'User villages updated' })
+  @ApiResponse({ status: 404, description: 'User or village not found' })
+  @ApiResponse({ status: 403, description: 'Missing USER_MANAGE permission' })
+  updateVillages(@Param('id') id: string, @Body() dto: UpdateUserVillagesDto) {
+    return this.userService.updateVillages(id, dto);
+  }
+
+  @Delete(':id/two-factor')
+  @Audit('USER_TWO_FACTOR_RESET', 'USER')
+  @Permissions('USER_MANAGE')
+  @ApiOperation({
+    summary: 'Reset two-factor authentication',
+    description:
+      'For users who lost their authenticator and recovery codes. Clears 2FA and revokes their sessions; they enrol again at next sign-in if their role requires it.',
+  })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiResponse({ status: 200, description: 'Two-factor authentication reset' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiResponse({ status: 403, description: 'Missing USER_MANAGE permission' })
+  resetTwoFactor(@Param('id') id: string) {
+    return this.userService.resetTwoFactor(id);
+  }
+
+  @Post(':id/password-reset')
+  @Audit('USER_PASSWORD_RESET_ISSUED', 'USER')
+  @Permissions('USER_MANAGE')
+  @ApiOperation({
+    summary: 'Send a password reset link',
+    description:
+      'Mail the user a single-use link to choose a new password (consumed by POST /auth/password/reset). Earlier unused links are invalidated. The token is never returned to the administrator.',
+  })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiResponse({ status: 201, description: 'Reset link sent' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiResponse({ status: 403, description: 'Missing USER_MANAGE permission' })
+  issuePasswordReset(@Param('id') id: string, @CurrentUser() user: JwtPayload) {
+    return this.userService.issuePasswordReset(id, user.sub);
+  }
+
+  @Patch(':id/unlock')
+  @Audit('USER_UNLOCKED', 'USER')
+  @Permissions('USER_MANAGE')
+  @ApiOperation({
+    summary: 'Unlock sign-in',
+    description:
+      'Lift a temporary lockout caused by too many failed sign-in attempts and reset the failure counter of the account.',
+  })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiResponse({ status: 200, description: 'Account unlocked' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiResponse({ status: 403, description: 'Missing USER_MANAGE permission' })
+  unlock(@Param('id') id: string) {
+    return this.userService.unlock(id);
+  }
+
+  @Patch(':id/deactivate')
+  @Audit('USER_DEACTIVATED', 'USER')
+  @Permissions('USER_MANAGE')
+  @ApiOperation({
+    summary: 'Deactivate user',
+    description:
+      'Block sign-in and revoke all sessions while keeping the account and every reference to it (reports, history, audit log). Use instead of delete for anyone with case history.',
+  })
+  @ApiParam({ name: 'id', description: 'User ID to deactivate' })
+  @ApiResponse({ status: 200, description: 'User deactivated' })
+  @ApiResponse({
+    status: 400,
+    description: 'Already deactivated or own account',
+  })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiResponse({ status: 403, description: 'Missing USER_MANAGE permission' })
+  deactivate(@Param('id') id: string, @CurrentUser() user: JwtPayload) {
+    return this.userService.deactivate(id, user.sub);
+  }
+
+  @Patch(':id/reactivate')
+  @Audit('USER_REACTIVATED', 'USER')
+  @Permissions('USER_MANAGE')
+  @ApiOperation({
+    summary: 'Reactivate user',
+    description: 'Restore a deactivated account; the user can sign in again.',
+  })
+  @ApiParam({ name: 'id', description: 'User ID to reactivate' })
+  @ApiResponse({ status: 200, description: 'User reactivated' })
+  @ApiResponse({ status: 400, description: 'User is not deactivated' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiResponse({ status: 403, description: 'Missing USER_MANAGE permission' })
+  reactivate(@Param('id') id: string) {
+    return this.userService.reactivate(id);
+  }
+
   @Delete(':id')
+  @Audit('USER_DELETED', 'USER')
   @Permissions('USER_DELETE')
   @ApiOperation({
     summary: 'Delete user',
-    description: 'Permanently delete a user. Requires USER_DELETE permission.',
+    description:
+      'Permanently delete a user without history (e.g. a spam registration). Users with case or activity history must be deactivated instead. Requires USER_DELETE permission.',
   })
   @ApiParam({ name: 'id', description: 'User ID to delete' })
   @ApiResponse({ status: 200, description: 'User deleted successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'User has history; deactivate instead',
+  })
   @ApiResponse({ status: 404, description: 'User not found' })
   @ApiResponse({ status: 403, description: 'Missing USER_DELETE permission' })
   remove(@Param('id') id: string) {
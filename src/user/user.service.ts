@@ -2,14 +2,88 @@ import {
   Injectable,
   NotFoundException,
   BadRequestException,
+  UnauthorizedException,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { RefreshTokenService } from '../auth/refresh-token.service';
+import { PermissionResolverService } from '../auth/permission-resolver.service';
+import { TwoFactorService } from '../auth/two-factor.service';
+import { LoginThrottleService } from '../auth/login-throttle.service';
+import { PasswordService } from '../auth/password.service';
+import { InvitationService } from '../auth/invitation.service';
+import { PasswordPolicyService } from '../auth/password-policy.service';
+import * as bcrypt from 'bcrypt';
+import { omitUserSecrets } from '../common/utils/omit-user-secrets';
 import { UserStatus } from '@prisma/client';
 import { FindAllUsersQueryDto } from './dto/find-all-users-query.dto';
+import { UpdateUserVillagesDto } from './dto/update-user-villages.dto';
+import { CreateUserDto } from './dto/create-user.dto';
+import { CreateInvitationDto } from './dto/create-invitation.dto';
+import { UpdateUserDto } from './dto/update-user.dto';
+import { UpdateProfileDto } from './dto/update-profile.dto';
+import { ReportStatus } from '../report/dto/update-report.dto';
 
 @Injectable()
 export class UserService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private refreshTokenService: RefreshTokenService,
+    private permissionResolver: PermissionResolverService,
+    private twoFactorService: TwoFactorService,
+    private loginThrottleService: LoginThrottleService,
+    private passwordService: PasswordService,
+    private invitationService: InvitationService,
+    private passwordPolicy: PasswordPolicyService,
+  ) {}
+
+  /**
+   * Create an account directly (already approved, any role). Unlike public
+   * sign-up, the role is not limited to self-selectable ones.
+   */
+  async create(dto: CreateUserDto, adminId: string) {
+    await this.invitationService.validateAssignment(adminId, dto);
+    this.passwordPolicy.assertValid(dto.password, dto);
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+    const hashedPassword = (await bcrypt.hash(dto.password, 10)) as string;
+    const user = await this.prisma.user.create({
+      data: {
+        email: dto.email,
+        password: hashedPassword,
+        firstName: dto.firstName,
+        lastName: dto.lastName,
+        roleId: dto.roleId,
+        villageId: dto.villageId,
+        coveredVillageIds: [...new Set(dto.coveredVillageIds ?? [])],
+        status: 'APPROVED',
+      },
+      include: {
+        role: true,
+        village: { select: { id: true, name: true } },
+      },
+    });
+
+    const userWithoutPassword = omitUserSecrets(user);
+    return {
+      message: 'User created successfully',
+      user: userWithoutPassword,
+    };
+  }
+
+  /**
+   * Invite someone by email with a preset role and villages
+   */
+  async invite(dto: CreateInvitationDto, adminId: string) {
+    return this.invitationService.invite(adminId, dto);
+  }
+
+  async findPendingInvitations() {
+    return this.invitationService.findPending();
+  }
+
+  async revokeInvitation(invitationId: string) {
+    return this.invitationService.revoke(invitationId);
+  }
 
   /**
    * Get all users with their roles, optionally filtered by status
@@ -25,8 +99,7 @@ export class UserService {
       orderBy: { createdAt: 'desc' },
     });
 
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    return users.map(({ password, ...user }) => user);
+    return users.map((user) => omitUserSecrets(user));
   }
 
   /**
@@ -46,8 +119,7 @@ export class UserService {
     }
 
     // Remove password from result
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { password, ...userWithoutPassword } = user;
+    const userWithoutPassword = omitUserSecrets(user);
     return userWithoutPassword;
   }
 
@@ -72,9 +144,12 @@ export class UserService {
       include: { role: true },
     });
 
+    // New permissions apply to the next request; also sign out everywhere
+    await this.refreshTokenService.revokeAllForUser(userId, 'ROLE_CHANGED');
+    this.permissionResolver.invalidateUser(userId);
+
     // Remove password from result
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { password, ...userWithoutPassword } = user;
+    const userWithoutPassword = omitUserSecrets(user);
 
     return {
       message: 'User role updated successfully',
@@ -82,6 +157,85 @@ export class UserService {
     };
   }
 
+  /**
+   * Update the home village and covered villages of a user.
+   * For village-scoped roles this defines which reports they can access.
+   */
+  async updateVillages(userId: string, dto: UpdateUserVillagesDto) {
+    const existing = await this.prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!existing) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+
+    const villageIds = [
+      ...new Set(
+        [dto.villageId, ...dto.coveredVillageIds].filter(
+          (id): id is string => !!id,
+        ),
+      ),
+    ];
+    const found = await this.prisma.village.count({
+      where: { id: { in: villageIds } },
+    });
+    if (found !== villageIds.length) {
+      throw new NotFoundException(
+        'One or more villages not found. Use GET /villages to list villages.',
+      );
+    }
+
+    const user = await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        ...(dto.villageId ? { villageId: dto.villageId } : {}),
+        coveredVillageIds: [...new Set(dto.coveredVillageIds)],
+      },
+      include: {
+        role: true,
+        village: { select: { id: true, name: true } },
+      },
+    });
+    this.permissionResolver.invalidateUser(userId);
+
+    const userWithoutPassword = omitUserSecrets(user);
+    return {
+      message: 'User villages updated successfully',
+      user: userWithoutPassword,
+    };
+  }
+
+  /**
+   * Reset two-factor authentication of a user who lost both their device
+   * and recovery codes. Their sessions are revoked.
+   */
+  async resetTwoFactor(userId: string) {
+    const result = await this.twoFactorService.reset(userId);
+    await this.refreshTokenService.revokeAllForUser(userId, 'TWO_FACTOR_RESET');
+    return result;
+  }
+
+  /**
+   * Mail the user a single-use password reset link
+   */
+  async issuePasswordReset(userId: string, issuedById: string) {
+    return this.passwordService.issueReset(userId, issuedById);
+  }
+
+  /**
+   * Lift a sign-in lockout (too many failed attempts) before it expires
+   */
+  async unlock(userId: string) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+
+    await this.loginThrottleService.unlock(user.email);
+    return { message: `Sign-in unlocked for ${user.email}` };
+  }
+
   /**
    * Approve a pending registration. Only users with status PENDING can be approved.
    */
@@ -105,9 +259,9 @@ export class UserService {
       data: { status: 'APPROVED' },
       include: { role: true },
     });
+    this.permissionResolver.invalidateUser(userId);
 
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { password, ...userWithoutPassword } = updated;
+    const userWithoutPassword = omitUserSecrets(updated);
     return {
       message: 'User approved. They can now sign in.',
       user: userWithoutPassword,
@@ -138,8 +292,10 @@ export class UserService {
       include: { role: true },
     });
 
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { password, ...userWithoutPassword } = updated;
+    await this.refreshTokenService.revokeAllForUser(userId, 'USER_REJECTED');
+    this.permissionResolver.invalidateUser(userId);
+
+    const userWithoutPassword = omitUserSecrets(updated);
     return {
       message: 'Registration rejected.',
       user: userWithoutPassword,
@@ -147,23 +303,216 @@ export class UserService {
   }
 
   /**
-   * Delete user
+   * Update name, email or home village of a user (administrators)
+   */
+  async update(userId: string, dto: UpdateUserDto, adminId: string) {
+    if (dto.villageId) {
+      const village = await this.prisma.village.findUnique({
+        where: { id: dto.villageId },
+      });
+      if (!village) {
+        throw new NotFoundException(
+          `Village with ID ${dto.villageId} not found. Use GET /villages to list villages.`,
+        );
+      }
+      await this.permissionResolver.assertVillageAccess(adminId, dto.villageId);
+    }
+
+    const user = await this.applyUpdate(userId, dto);
+    if (dto.villageId) {
+      this.permissionResolver.invalidateUser(userId);
+    }
+
+    return {
+      message: 'User updated successfully',
+      user,
+    };
+  }
+
+  /**
+   * Update one's own name or email. Changing the email (the sign-in
+   * identifier) requires the current password.
+   */
+  async updateProfile(userId: string, dto: UpdateProfileDto) {
+    const { currentPassword, ...changes } = dto;
+    const current = await this.prisma.user.findUnique({
+      where: { id: userId },
+    });
+    if (!current) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+
+    if (changes.email && changes.email !== current.email) {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+      const isPasswordValid = (await bcrypt.compare(
+        currentPassword ?? '',
+        current.password,
+      )) as boolean;
+      if (!isPasswordValid) {
+        throw new UnauthorizedException(
+          'Current password is required to change the email address',
+        );
+      }
+    }
+
+    const user = await this.applyUpdate(userId, changes);
+    return {
+      message: 'Profile updated successfully',
+      user,
+    };
+  }
+
+  /**
+   * Deactivate an account: sign-in is blocked and sessions are revoked,
+   * while reports, audit entries and other references are kept.
+   */
+  async deactivate(userId: string, adminId: string) {
+    if (userId === adminId) {
+      throw new BadRequestException('You cannot deactivate your own account');
+    }
+
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+    if (user.status === 'DEACTIVATED') {
+      throw new BadRequestException('User is already deactivated');
+    }
+
+    const updated = await this.prisma.user.update({
+      where: { id: userId },
+      data: { status: 'DEACTIVATED', deactivatedAt: new Date() },
+      include: { role: true },
+    });
+    await this.refreshTokenService.revokeAllForUser(userId, 'USER_DEACTIVATED');
+    this.permissionResolver.invalidateUser(userId);
+
+    const openAssignments = await this.prisma.report.count({
+      where: {
+        analystId: userId,
+        status: { in: [ReportStatus.ATTENTE, ReportStatus.EN_COURS] },
+      },
+    });
+
+    const userWithoutPassword = omitUserSecrets(updated);
+    return {
+      message:
+        openAssignments > 0
+          ? `User deactivated. ${openAssignments} open report(s) are still assigned to them and should be reassigned.`
+          : 'User deactivated.',
+      user: userWithoutPassword,
+    };
+  }
+
+  /**
+   * Restore a deactivated account (status back to APPROVED)
+   */
+  async reactivate(userId: string) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+    if (user.status !== 'DEACTIVATED') {
+      throw new BadRequestException(
+        `User is not deactivated (current status: ${user.status})`,
+      );
+    }
+
+    const updated = await this.prisma.user.update({
+      where: { id: userId },
+      data: { status: 'APPROVED', deactivatedAt: null },
+      include: { role: true },
+    });
+    this.permissionResolver.invalidateUser(userId);
+
+    const userWithoutPassword = omitUserSecrets(updated);
+    return {
+      message: 'User reactivated. They can sign in again.',
+      user: userWithoutPassword,
+    };
+  }
+
+  /**
+   * Delete user. Only for accounts without history (e.g. spam
+   * registrations); anyone who took part in cases or acted in the system
+   * is deactivated instead so every reference stays valid.
    */
   async remove(id: string) {
     const user = await this.prisma.user.findUnique({
       where: { id },
+      include: {
+        _count: {
+          select: {
+            reportsCreated: true,
+            reportsAssigned: true,
+            reportTeams: true,
+            assignmentsTo: true,
+            assignmentsChanged: true,
+            reportVersions: true,
+            reopenRequestsMade: true,
+            reopenRequestsReviewed: true,
+          },
+        },
+      },
     });
 
     if (!user) {
       throw new NotFoundException(`User with ID ${id} not found`);
     }
 
-    await this.prisma.user.delete({
-      where: { id },
+    // The sign-up entry alone is not history
+    const auditEntries = await this.prisma.auditLog.count({
+      where: { userId: id, action: { not: 'AUTH_SIGN_UP' } },
     });
+    const hasHistory =
+      Object.values(user._count).some((count) => count > 0) || auditEntries > 0;
+    if (hasHistory) {
+      throw new BadRequestException(
+        'User has case or activity history and cannot be deleted. Deactivate the account instead (PATCH /users/:id/deactivate).',
+      );
+    }
+
+    await this.refreshTokenService.revokeAllForUser(id, 'USER_DELETED');
+
+    await this.prisma.$transaction([
+      this.prisma.notification.deleteMany({ where: { userId: id } }),
+      this.prisma.user.delete({ where: { id } }),
+    ]);
+    this.permissionResolver.invalidateUser(id);
 
     return {
       message: 'User deleted successfully',
     };
   }
+
+  private async applyUpdate(
+    userId: string,
+    data: { firstName?: string; lastName?: string; email?: string },
+  ) {
+    const existing = await this.prisma.user.findUnique({
+      where: { id: userId },
+    });
+    if (!existing) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+
+    if (data.email && data.email !== existing.email) {
+      const taken = await this.prisma.user.findUnique({
+        where: { email: data.email },
+      });
+      if (taken) {
+        throw new BadRequestException('User with this email already exists');
+      }
+    }
+
+    const user = await this.prisma.user.update({
+      where: { id: userId },
+      data,
+      include: {
+        role: true,
+        village: { select: { id: true, name: true } },
+      },
+    });
+    return omitUserSecrets(user);
+  }
 }
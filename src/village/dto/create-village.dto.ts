@@ -1,4 +1,4 @@
-import { IsString, IsNotEmpty, IsOptional } from 'class-validator';
+import { IsString, IsNotEmpty, IsOptional, IsBoolean } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 export class CreateVillageDto {
@@ -11,4 +11,14 @@ export class CreateVillageDto {
   @IsString()
   @IsOptional()
   description?: string;
+
+  @ApiPropertyOptional({
+    example: true,
+    default: false,
+    description:
+      'Auto-assign critical reports (CRITIQUE urgency or critical keywords) to the least loaded eligible analyst when they are created',
+  })
+  @IsBoolean()
+  @IsOptional()
+  autoAssignCritical?: boolean;
 }
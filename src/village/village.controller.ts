@@ -23,6 +23,7 @@ import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { PermissionsGuard } from '../auth/guards/permissions.guard';
 import { Permissions } from '../auth/decorators/permissions.decorator';
 import { Public } from '../auth/decorators/public.decorator';
+import { Audit } from '../audit-log/decorators/audit.decorator';
 
 @ApiTags('villages')
 @Controller('villages')
@@ -60,6 +61,7 @@ export class VillageController {
   }
 
   @Post()
+  @Audit('VILLAGE_CREATED', 'VILLAGE')
   @UseGuards(JwtAuthGuard, PermissionsGuard)
   @Permissions('VILLAGE_CREATE')
   @ApiBearerAuth('JWT-auth')
@@ -76,6 +78,7 @@ export class VillageController {
   }
 
   @Patch(':id')
+  @Audit('VILLAGE_UPDATED', 'VILLAGE')
   @UseGuards(JwtAuthGuard, PermissionsGuard)
   @Permissions('VILLAGE_UPDATE')
   @ApiBearerAuth('JWT-auth')
@@ -93,6 +96,7 @@ export class VillageController {
   }
 
   @Delete(':id')
+  @Audit('VILLAGE_DELETED', 'VILLAGE')
   @UseGuards(JwtAuthGuard, PermissionsGuard)
   @Permissions('VILLAGE_DELETE')
   @ApiBearerAuth('JWT-auth')
@@ -24,6 +24,7 @@ export class VillageService {
       data: {
         name: createVillageDto.name.trim(),
         description: createVillageDto.description?.trim() ?? null,
+        autoAssignCritical: createVillageDto.autoAssignCritical ?? false,
       },
     });
   }
@@ -71,6 +72,9 @@ export class VillageService {
         ...(updateVillageDto.description !== undefined && {
           description: updateVillageDto.description?.trim() ?? null,
         }),
+        ...(updateVillageDto.autoAssignCritical !== undefined && {
+          autoAssignCritical: updateVillageDto.autoAssignCritical,
+        }),
       },
     });
   }